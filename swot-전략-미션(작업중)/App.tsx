@@ -1,30 +1,68 @@
 
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { Room, Team, ADMIN_PW, Match, RoundStrategy, RoundResult, CARDS, TOTAL_ROUNDS, TOTAL_CHIPS } from './types';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { Room, RoomSummary, Team, AdminUser, ConnectionStatus, Match, RoundStrategy, GameAction, CardColor, RuleSet, HIDDEN_CARD, DEFAULT_RULE_SET, TournamentFormat, BotLevel } from './types';
 import { generateSWOTAnalysis, generateWinnerPoster, getGameAdvice } from './services/geminiService';
-import { saveRoomsToFirebase, subscribeToRooms, isFirebaseConfigured } from './services/firebase';
+import { getRoomStore } from './services/storage';
+import { toRoomSummary } from './services/roomStore';
+import { diffAdminEdit, applyAdminEdit, isEmptyAdminEdit } from './services/adminEdits';
+import { isRefereeConfigured, subscribeToRefereeRooms, saveRoomToReferee, patchRoomInReferee, patchMatchInReferee, deleteRoomFromReferee, findRoomIdOnReferee, joinTeamOnReferee, sendActionToReferee, rollbackMatchOnReferee } from './services/refereeClient';
+import { applyGameAction, validateStrategy, getCallShortfall, getCurrentPot, getRuleSet, createEmptyStrategy, validateRuleSet, findTeamMatchIndex, getTotalWinnings, getByeChips, planCallSteal } from './services/gameEngine';
+import { resolveGameAction, runAutomaticActions, resolveTimeouts, getActionContext, isStaleAction } from './services/gameFlow';
+import { BOT_LEVELS, getBotLabel, createBotTeam } from './services/bots';
+import { getStandings } from './services/standings';
+import { TOURNAMENT_FORMATS, isLeagueFormat, createMatch, createByeMatch, assignByes, startTournament, cancelTournament, getCycleMatches, getCurrentCycle, isEliminated, isWaitingThisCycle } from './services/tournament';
+import { getSlotColor } from './services/hiddenInfo';
+import { subscribeToAdmin, subscribeToPlayerId, signInAdmin, registerAdmin, signOutAdmin, canManageRoom } from './services/auth';
+import { getPlayerId, generatePin, generateJoinCode, canAct, withJoinedMembers } from './services/membership';
 import MatrixBackground from './components/MatrixBackground';
+import BracketView from './components/BracketView';
+import OddsPanel from './components/OddsPanel';
+import JoinCodeSheet from './components/JoinCodeSheet';
+import ConnectionBadge from './components/ConnectionBadge';
+import MatchReplay from './components/MatchReplay';
+import PhaseTimer from './components/PhaseTimer';
+import { CURRENT_SCHEMA_VERSION } from './services/schema';
+import { uploadImage, removeImage, removeRoomImages, loadImageAsDataUrl } from './services/imageStorage';
+import { createActionQueue, QueuedAction } from './services/actionQueue';
+import { hasFullLog, getRollbackRounds, rollbackMatch } from './services/matchLog';
+import { getNextTimeout } from './services/timers';
+import { STRATEGY_PRESETS, StrategyPreset, applyStrategyPreset, completeStrategy, getStrategyChecklist } from './services/strategyPresets';
+import { serverNow, setServerTimeOffset } from './services/clock';
+import { loadPlayerSession, savePlayerSession, clearPlayerSession, loadStrategyDraft, saveStrategyDraft } from './services/session';
 
 declare var html2pdf: any; // Declare global for CDN library
 
-// --- Helper Functions ---
-// Note: saveRooms now uses Firebase for real-time sync across devices
-const saveRooms = (rooms: Room[]) => {
-    // Save to Firebase (async) - this will sync across all devices
-    saveRoomsToFirebase(rooms);
-};
+// Room storage backend chosen by configuration (services/storage.ts)
+const roomStore = getRoomStore();
+
+// The index does not list PINs, so a PIN is looked up where the rooms are kept
+const findRoomIdByPin = (pin: string): Promise<string | null> =>
+    isRefereeConfigured() ? findRoomIdOnReferee(pin) : roomStore.findRoomIdByPin(pin);
+
+const TIMEOUT_GRACE_MS = 300; // Lets the team's own last-second action land first
+const DRAFT_SYNC_MS = 1000; // Quiet time before an unsubmitted board is shared
 
-// getRooms is now only used for initial load fallback
-// Real-time updates come through subscribeToRooms
-const getRooms = (): Room[] => {
-    try {
-        const data = localStorage.getItem('swot_game_rooms');
-        return data ? JSON.parse(data) : [];
-    } catch {
-        return [];
+// A queued game action on a given copy of the room; stale or not allowed = unchanged
+const applyQueuedAction = (room: Room, entry: Pick<QueuedAction, 'action' | 'actorId' | 'context' | 'queuedAt'>): Room =>
+    isStaleAction(room, entry.action, entry.context) || !canAct(room, entry.action, entry.actorId)
+        ? room
+        : resolveGameAction(room, entry.action, { actorId: entry.actorId, at: entry.queuedAt });
+
+// Players of an owned room may not write it where the store has an inbox (Firebase)
+const usesInbox = (room: Room, actorId: string | undefined): boolean =>
+    Boolean(roomStore.sendAction && room.ownerId && room.ownerId !== actorId);
+
+// Game actions go through an outbound queue that survives dropped connections (services/actionQueue.ts)
+const actionQueue = createActionQueue(entry => {
+    if (isRefereeConfigured()) return sendActionToReferee(entry.roomId, entry.action, entry.actorId, entry.context);
+    if (entry.inbox && roomStore.sendAction) {
+        const { id, actorId, action, context, queuedAt } = entry;
+        return roomStore.sendAction(entry.roomId, { id, actorId, action, context, at: queuedAt }).then(() => true);
     }
-};
+    return roomStore.transaction(entry.roomId, room => applyQueuedAction(room, entry)).then(Boolean);
+});
 
+// --- Helper Functions ---
 const speak = (text: string) => {
     if ('speechSynthesis' in window) {
         window.speechSynthesis.cancel();
@@ -126,9 +164,10 @@ const FileUpload = ({ onUpload }: { onUpload: (base64s: string[]) => void }) =>
     );
 };
 
-const getCardStyle = (num: number, isSelectionArea = false, hidden = false) => {
+// color: for HIDDEN_CARD slots, whose number is unknown but color is public
+const getCardStyle = (num: number, isSelectionArea = false, hidden = false, color?: CardColor) => {
     if (num === -1) return 'bg-slate-200/80 dark:bg-slate-700/50 text-slate-400 dark:text-slate-500 border-slate-300 dark:border-slate-600 border-dashed'; 
-    const isEven = num % 2 === 0;
+    const isEven = num === HIDDEN_CARD ? color === 'BLACK' : num % 2 === 0;
     let style = "";
     if (isEven) {
         style = 'bg-slate-900 text-white border-slate-600';
@@ -140,6 +179,12 @@ const getCardStyle = (num: number, isSelectionArea = false, hidden = false) => {
     return style;
 };
 
+// Arrow keys move the focus along a [data-key-row] of [data-key-item] controls
+const focusInRow = (from: HTMLElement, step: number) => {
+    const items = Array.from(from.closest('[data-key-row]')?.querySelectorAll<HTMLElement>('[data-key-item]:not(:disabled)') || []);
+    items[items.indexOf(from) + step]?.focus();
+};
+
 // --- Blue Game Board Component ---
 const BlueGameBoard = ({
     strategy,
@@ -150,7 +195,10 @@ const BlueGameBoard = ({
     blindMode,
     revealedHistory = [],
     onDragStart,
-    onCardDoubleClick
+    onCardDoubleClick,
+    selectedIndex,
+    onSlotActivate,
+    describedBy
 }: {
     strategy: RoundStrategy[],
     onSetChips?: (r: number, d: number) => void,
@@ -160,8 +208,26 @@ const BlueGameBoard = ({
     blindMode?: boolean,
     revealedHistory?: number[],
     onDragStart?: (e: React.PointerEvent, card: number, source: string) => void,
-    onCardDoubleClick?: (roundIdx: number) => void
+    onCardDoubleClick?: (roundIdx: number) => void,
+    selectedIndex?: number, // Slot whose card is picked up for a keyboard/tap move
+    onSlotActivate?: (roundIdx: number) => void,
+    describedBy?: string
 }) => {
+    const interactive = !readOnly && Boolean(onSlotActivate);
+
+    // Enter/Space picks up or places, Delete removes, ↑↓ chips, ←→ next slot
+    const handleSlotKeyDown = (e: React.KeyboardEvent<HTMLDivElement>, idx: number) => {
+        switch (e.key) {
+            case 'Enter': case ' ': onSlotActivate?.(idx); break;
+            case 'Delete': case 'Backspace': if (strategy[idx].card !== -1) onCardDoubleClick?.(idx); break;
+            case 'ArrowUp': case '+': onSetChips?.(idx, 1); break;
+            case 'ArrowDown': case '-': onSetChips?.(idx, -1); break;
+            case 'ArrowLeft': focusInRow(e.currentTarget, -1); break;
+            case 'ArrowRight': focusInRow(e.currentTarget, 1); break;
+            default: return;
+        }
+        e.preventDefault();
+    };
 
     return (
         <div className={`w-full h-full flex flex-col`}>
@@ -171,12 +237,13 @@ const BlueGameBoard = ({
                 </div>
             )}
             <div className={`flex-1 bg-blue-600/90 backdrop-blur-sm rounded-lg p-1 shadow-2xl border-2 ${opponentName ? 'border-red-400 bg-red-900/40' : 'border-blue-400'} relative flex flex-col overflow-hidden`}>
-                <div className="flex flex-1 gap-px overflow-x-auto items-stretch z-10 no-scrollbar">
+                <div className="flex flex-1 gap-px overflow-x-auto items-stretch z-10 no-scrollbar" role="list" aria-label={opponentName ? `${opponentName} 전략` : '라운드별 전략'} aria-describedby={describedBy} data-key-row>
                     {strategy.map((round, idx) => {
                         const isRoundActive = currentRound === (idx + 1);
                         const isPast = currentRound && (idx + 1) < currentRound;
                         const isRevealed = revealedHistory.includes(idx + 1);
-                        const shouldHideNumber = blindMode && !isRevealed;
+                        const shouldHideNumber = (blindMode && !isRevealed) || round.card === HIDDEN_CARD;
+                        const cardLabel = round.card === -1 ? '빈 칸' : shouldHideNumber ? '비공개 카드' : `카드 ${round.card}`;
 
                         return (
                             <div
@@ -187,9 +254,10 @@ const BlueGameBoard = ({
                                 `}
                                 data-drop-zone="round"
                                 data-round-index={idx}
+                                role="listitem"
                             >
                                 {/* Round Number */}
-                                <div className={`font-bold text-[8px] leading-none shrink-0 ${isRoundActive ? 'text-yellow-300' : 'text-blue-100'}`}>
+                                <div className={`font-bold text-[8px] leading-none shrink-0 ${isRoundActive ? 'text-yellow-300' : 'text-blue-100'}`} aria-hidden="true">
                                     R{round.round}
                                 </div>
 
@@ -205,11 +273,19 @@ const BlueGameBoard = ({
                                             onCardDoubleClick(idx);
                                         }
                                     }}
+                                    onClick={() => interactive && onSlotActivate!(idx)}
+                                    onKeyDown={interactive ? (e) => handleSlotKeyDown(e, idx) : undefined}
+                                    role={interactive ? 'button' : 'img'}
+                                    tabIndex={interactive ? 0 : undefined}
+                                    aria-pressed={interactive ? selectedIndex === idx : undefined}
+                                    aria-label={`R${round.round} ${cardLabel}, 칩 ${round.chips}억${isRoundActive ? ', 진행 중' : ''}`}
+                                    data-key-item={interactive ? true : undefined}
                                     className={`
-                                        w-6 h-8 rounded flex items-center justify-center shadow-md border select-none shrink-0
-                                        ${getCardStyle(round.card, false, shouldHideNumber)}
+                                        w-6 h-8 rounded flex items-center justify-center shadow-md border select-none shrink-0 outline-none focus-visible:ring-2 focus-visible:ring-white
+                                        ${getCardStyle(round.card, false, shouldHideNumber, getSlotColor(round))}
                                         ${!readOnly && round.card !== -1 ? 'cursor-pointer hover:ring-2 hover:ring-red-400' : ''}
                                         ${!readOnly ? 'cursor-grab active:cursor-grabbing' : ''}
+                                        ${selectedIndex === idx ? 'ring-2 ring-yellow-300 -translate-y-0.5' : ''}
                                     `}
                                     title={!readOnly && round.card !== -1 ? "더블클릭으로 카드 제거" : ""}
                                 >
@@ -226,7 +302,7 @@ const BlueGameBoard = ({
 
                                 {/* Chips */}
                                 <div className="flex flex-col items-center w-full gap-px shrink-0">
-                                    <div className="w-5 h-5 rounded-full bg-gradient-to-r from-yellow-400 to-yellow-600 border border-white/30 shadow flex items-center justify-center">
+                                    <div aria-hidden="true" className="w-5 h-5 rounded-full bg-gradient-to-r from-yellow-400 to-yellow-600 border border-white/30 shadow flex items-center justify-center">
                                         <span className="text-[8px] font-black text-black leading-none">{round.chips}</span>
                                     </div>
 
@@ -234,12 +310,14 @@ const BlueGameBoard = ({
                                         <div className="flex items-center gap-px bg-blue-800/60 rounded-full p-px border border-blue-400/30">
                                             <button
                                                 onClick={() => onSetChips(idx, -1)}
+                                                aria-label={`R${round.round} 칩 빼기`}
                                                 className="w-4 h-4 rounded-full bg-blue-900 text-white flex items-center justify-center text-[9px] font-bold hover:bg-blue-800"
                                             >
                                                 -
                                             </button>
                                             <button
                                                 onClick={() => onSetChips(idx, 1)}
+                                                aria-label={`R${round.round} 칩 더하기`}
                                                 className="w-4 h-4 rounded-full bg-indigo-500 text-white flex items-center justify-center text-[9px] font-bold hover:bg-indigo-400"
                                             >
                                                 +
@@ -247,7 +325,7 @@ const BlueGameBoard = ({
                                         </div>
                                     )}
                                     {readOnly && (
-                                        <div className="text-[7px] font-bold text-yellow-300">{round.chips}억</div>
+                                        <div className="text-[7px] font-bold text-yellow-300" aria-hidden="true">{round.chips}억</div>
                                     )}
                                 </div>
                             </div>
@@ -260,17 +338,17 @@ const BlueGameBoard = ({
 };
 
 // --- Matchmaking & Admin Components ---
-const MatchMaker = ({ teams, matches, onUpdateMatches }: { teams: Team[], matches: Match[], onUpdateMatches: (matches: Match[]) => void }) => {
+const MatchMaker = ({ teams, matches, byeChips, onUpdateMatches, onStartTournament }: { teams: Team[], matches: Match[], byeChips: number, onUpdateMatches: (matches: Match[]) => void, onStartTournament: (format: TournamentFormat) => void }) => {
     const [selectingSlot, setSelectingSlot] = useState<{idx: number, position: 'A' | 'B'} | null>(null);
+    const [tournamentFormat, setTournamentFormat] = useState<TournamentFormat>('SINGLE_ELIMINATION');
 
     const assignTeam = (teamId: string, matchIdx: number, position: 'A' | 'B') => {
         const newMatches = [...matches];
         if (!newMatches[matchIdx]) {
-             newMatches[matchIdx] = {
-                id: `m_${Date.now()}_${matchIdx}`,
-                teamAId: '', teamBId: '', teamAScore: 0, teamBScore: 0, 
-                currentRound: 1, roundStatus: 'READY', pot: 0, carryOver: 0, history: [], aiHelps: {}
-             };
+             newMatches[matchIdx] = createMatch('', '', matchIdx);
+        } else if (newMatches[matchIdx].isBye) {
+             // Filling the empty side turns a bye back into a regular match
+             newMatches[matchIdx] = createMatch(newMatches[matchIdx].teamAId, '', matchIdx);
         }
         if (teamId) {
             newMatches.forEach((m, mIdx) => {
@@ -288,14 +366,10 @@ const MatchMaker = ({ teams, matches, onUpdateMatches }: { teams: Team[], matche
         const newMatches: Match[] = [];
         for (let i = 0; i < shuffled.length; i += 2) {
             if (i + 1 < shuffled.length) {
-                newMatches.push({
-                    id: `m_${Date.now()}_${i}`,
-                    teamAId: shuffled[i].id,
-                    teamBId: shuffled[i+1].id,
-                    teamAScore: 0,
-                    teamBScore: 0,
-                    currentRound: 1, roundStatus: 'READY', pot: 0, carryOver: 0, history: [], aiHelps: {}
-                });
+                newMatches.push(createMatch(shuffled[i].id, shuffled[i+1].id, i));
+            } else {
+                // Odd team count: the last team gets a bye
+                newMatches.push(createByeMatch(shuffled[i].id, i, byeChips));
             }
         }
         onUpdateMatches(newMatches);
@@ -310,6 +384,13 @@ const MatchMaker = ({ teams, matches, onUpdateMatches }: { teams: Team[], matche
                     <button onClick={autoMatch} className="px-4 py-2 bg-green-600 rounded-lg text-sm font-bold text-white hover:bg-green-500">자동 편성</button>
                 </div>
             </div>
+            <div className="flex flex-wrap items-center gap-2 p-3 rounded-xl bg-indigo-50/80 dark:bg-indigo-900/20 border border-indigo-200 dark:border-indigo-800">
+                <span className="text-sm font-bold text-slate-700 dark:text-gray-300">🏟️ 여러 차전 진행</span>
+                <select value={tournamentFormat} onChange={e => setTournamentFormat(e.target.value as TournamentFormat)} className="flex-1 min-w-[200px] bg-white dark:bg-slate-900 border border-slate-300 dark:border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-900 dark:text-white">
+                    {TOURNAMENT_FORMATS.map(f => <option key={f.id} value={f.id}>{f.label} - {f.description}</option>)}
+                </select>
+                <button onClick={() => onStartTournament(tournamentFormat)} disabled={teams.length < 2} className="px-4 py-2 bg-indigo-600 rounded-lg text-sm font-bold text-white hover:bg-indigo-500 disabled:opacity-50">대진 생성</button>
+            </div>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                  {Array.from({ length: Math.ceil(teams.length / 2) }).map((_, idx) => {
                      const match = matches[idx] || { teamAId: '', teamBId: '' };
@@ -334,6 +415,8 @@ const MatchMaker = ({ teams, matches, onUpdateMatches }: { teams: Team[], matche
                              >
                                  {teamB ? (
                                      <span className="text-slate-900 dark:text-white text-sm font-bold">{teamB.name}</span>
+                                 ) : (match as Match).isBye ? (
+                                     <span className="text-xs text-amber-600 dark:text-amber-400 font-bold">부전승 (+{byeChips}억)</span>
                                  ) : (
                                      <span className="text-xs text-gray-400 font-medium">+ Select Team B</span>
                                  )}
@@ -394,26 +477,88 @@ const MatchMaker = ({ teams, matches, onUpdateMatches }: { teams: Team[], matche
     );
 };
 
-const AdminDashboard = ({ room, onUpdate, onBack, onEnterTeam, onDelete }: { room: Room, onUpdate: (r: Room) => void, onBack: () => void, onEnterTeam: (teamId: string) => void, onDelete: (id: string) => void }) => {
+const AdminDashboard = ({ room, onUpdate, onBack, onEnterTeam, onDelete, onRollback, onAction }: { room: Room, onUpdate: (r: Room) => void, onBack: () => void, onEnterTeam: (teamId: string) => void, onDelete: (id: string) => void, onRollback: (matchId: string, round: number) => void, onAction: (action: GameAction) => void }) => {
+    // Leagues rank by their table; otherwise by winnings over every match
+    // played, with a tournament champion always first
+    const championId = room.tournament?.championId;
+    const rankedTeams = room.tournament && isLeagueFormat(room.tournament.format)
+        ? getStandings(room).map(s => room.teams.find(t => t.id === s.teamId)!)
+        : [...room.teams].sort((a, b) =>
+            Number(b.id === championId) - Number(a.id === championId) || getTotalWinnings(room, b.id) - getTotalWinnings(room, a.id));
+
     useEffect(() => {
         if (room.status === 'FINISHED' && room.teams.length > 0) {
-            const sortedTeams = [...room.teams].sort((a, b) => b.winnings - a.winnings);
-            const winner = sortedTeams[0];
+            const winner = rankedTeams[0];
             speak(`${winner.name} Wins!`);
         }
     }, [room.status]);
 
+    const rules = getRuleSet(room);
     const [posterLoading, setPosterLoading] = useState(false);
     const [swotLoading, setSwotLoading] = useState(false);
     const [winnerNames, setWinnerNames] = useState('');
-    const [photos, setPhotos] = useState<string[]>([]);
+    const [photos, setPhotos] = useState<string[]>([]); // Data URLs picked in this session (Gemini takes them inline)
+    const [photosUploading, setPhotosUploading] = useState(false);
+    const [joinSheetOpen, setJoinSheetOpen] = useState(false);
+    const [replayMatchId, setReplayMatchId] = useState<string | null>(null);
+    const [rollbackMatchId, setRollbackMatchId] = useState<string | null>(null);
+
+    // Photos go to image storage; the room keeps only their URLs and thumbnails
+    const handleRollback = (matchId: string, round: number) => {
+        if (!window.confirm(`R${round} 시작 시점으로 되돌립니다.\n이후 라운드의 결과, 상금, 칩 이동이 모두 취소됩니다. 계속하시겠습니까?`)) return;
+        setRollbackMatchId(null);
+        onRollback(matchId, round);
+    };
+
+    // Live controls for a stalled match; forced moves are sent as the owner and logged as such
+    const handleForceDecision = (match: Match, isCall: boolean) => {
+        const idle = room.teams.find(t => t.id === match.turnOwner);
+        if (!idle) return;
+        if (!isCall) {
+            if (window.confirm(`${idle.name} 팀을 포기 처리합니다. 계속하시겠습니까?`)) onAction({ type: 'FOLD', teamId: idle.id });
+            return;
+        }
+        const steal = planCallSteal(room, idle.id);
+        if (!steal) { alert(`${idle.name} 팀은 남은 칩이 부족해 콜할 수 없습니다.`); return; }
+        const taken = Object.entries(steal).map(([round, chips]) => `R${round} ${chips}억`).join(', ');
+        if (window.confirm(`${idle.name} 팀을 콜 처리합니다.${taken ? `\n부족한 칩은 ${taken}에서 가져옵니다.` : ''}\n계속하시겠습니까?`)) {
+            onAction({ type: 'CALL', teamId: idle.id, steal });
+        }
+    };
+
+    const handleForceConfirm = (match: Match) => {
+        [match.teamAId, match.teamBId].filter(id => !match.resultConfirmed?.[id]).forEach(teamId => onAction({ type: 'CONFIRM_RESULT', teamId }));
+    };
+
+    const handleResetRound = (match: Match) => {
+        if (!window.confirm(`R${match.currentRound}을(를) 시작 전(READY) 상태로 초기화합니다.\n이 라운드의 배팅과 결과가 취소됩니다. 계속하시겠습니까?`)) return;
+        onRollback(match.id, match.currentRound);
+    };
+
+    const handleUploadPhotos = async (dataUrls: string[]) => {
+        setPhotos(dataUrls);
+        setPhotosUploading(true);
+        try {
+            const uploaded = await Promise.all(dataUrls.map((url, i) => uploadImage(room.id, `photo-${i + 1}`, url)));
+            (room.winnerPhotos || []).forEach(removeImage);
+            onUpdate({ ...room, winnerPhotos: uploaded });
+        } catch (e) {
+            console.error('Photo upload failed:', e);
+            alert("사진 업로드에 실패했습니다. 다시 시도해주세요.");
+        }
+        setPhotosUploading(false);
+    };
 
     const handleCreatePoster = async () => {
         setPosterLoading(true);
-        const winner = room.teams.sort((a,b) => b.winnings - a.winnings)[0];
+        const winner = rankedTeams[0];
         try {
-            const url = await generateWinnerPoster(winner, photos, winnerNames);
-            onUpdate({ ...room, winnerPosterUrl: url });
+            // After a reload the photos are only in storage
+            const sources = photos.length > 0 ? photos : await Promise.all((room.winnerPhotos || []).map(loadImageAsDataUrl));
+            const url = await generateWinnerPoster({ ...winner, winnings: getTotalWinnings(room, winner.id) }, sources, winnerNames);
+            const poster = await uploadImage(room.id, 'poster', url);
+            removeImage(room.winnerPoster);
+            onUpdate({ ...room, winnerPoster: poster });
         } catch(e) { alert("Poster Gen Failed"); }
         setPosterLoading(false);
     };
@@ -449,12 +594,23 @@ const AdminDashboard = ({ room, onUpdate, onBack, onEnterTeam, onDelete }: { roo
         }
     };
 
-    // Helper to calculate rank
-    const getTeamRank = (teamId: string) => {
-        const sorted = [...room.teams].sort((a, b) => b.winnings - a.winnings);
-        return sorted.findIndex(t => t.id === teamId) + 1;
+    // Handing a team back to humans clears whatever the bot had submitted
+    const setTeamBot = (teamId: string, level: BotLevel | '') => {
+        onUpdate({
+            ...room,
+            teams: room.teams.map(t => t.id !== teamId ? t
+                : level ? { ...t, bot: level }
+                : { ...t, bot: undefined, isReady: false, strategy: undefined })
+        });
     };
 
+    const addHouseBot = () => {
+        onUpdate({ ...room, teams: [...room.teams, createBotTeam(room, 'OPTIMAL')], totalTeams: room.totalTeams + 1 });
+    };
+
+    // Helper to calculate rank
+    const getTeamRank = (teamId: string) => rankedTeams.findIndex(t => t.id === teamId) + 1;
+
     // Helper to calculate rounds won for each team
     const getTeamRoundsWon = (teamId: string): { count: number, rounds: number[] } => {
         const wonRounds: number[] = [];
@@ -479,10 +635,11 @@ const AdminDashboard = ({ room, onUpdate, onBack, onEnterTeam, onDelete }: { roo
 
     // Download poster image
     const handleDownloadPoster = () => {
-        if (room.winnerPosterUrl) {
+        if (room.winnerPoster) {
             const link = document.createElement('a');
-            link.href = room.winnerPosterUrl;
-            link.download = `Winner_Poster_${room.name}.png`;
+            link.href = room.winnerPoster.url;
+            link.download = `Winner_Poster_${room.name}.${room.winnerPoster.contentType === 'image/jpeg' ? 'jpg' : 'png'}`;
+            link.target = '_blank'; // Browsers ignore download for images on another origin
             link.click();
         }
     };
@@ -490,17 +647,55 @@ const AdminDashboard = ({ room, onUpdate, onBack, onEnterTeam, onDelete }: { roo
     return (
         <div className="p-4 md:p-8 max-w-[1600px] mx-auto animate-fade-in pb-20 relative z-10">
             <header className="flex justify-between items-center mb-6">
-                <h2 className="text-xl md:text-2xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-indigo-500 to-pink-500">SWOT 전략 미션 - {room.name}</h2>
+                <div>
+                    <h2 className="text-xl md:text-2xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-indigo-500 to-pink-500">SWOT 전략 미션 - {room.name}</h2>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                        {room.pin && <>PIN <span className="font-bold tracking-widest">{room.pin}</span> · </>}{rules.rounds}라운드 · 자본금 {rules.chips}억 · 덱 [{rules.deck.join(', ')}] · 최소 배팅 {rules.minChipsPerRound}억 · 부전승 {getByeChips(rules)}억{rules.timers && <> · 제한 시간 준비 {rules.timers.preparation || '-'}초 / 결정 {rules.timers.decision || '-'}초 / 결과 {rules.timers.result || '-'}초</>}
+                    </p>
+                </div>
                 <div className="flex gap-2">
+                    {room.pin && <button onClick={() => setJoinSheetOpen(true)} className="px-3 py-1 rounded-lg text-sm border border-indigo-500/30 text-indigo-600 dark:text-indigo-400">🔑 참가 코드</button>}
+                    <button onClick={() => onUpdate({ ...room, showOdds: !room.showOdds })} className={`px-3 py-1 rounded-lg text-sm border transition-colors ${room.showOdds ? 'bg-cyan-600 text-white border-cyan-600' : 'text-cyan-600 dark:text-cyan-400 border-cyan-500/30'}`}>📊 승률 표시 {room.showOdds ? 'ON' : 'OFF'}</button>
                     <button onClick={() => onDelete(room.id)} className="text-red-500 hover:text-white hover:bg-red-500 border border-red-500/30 px-3 py-1 rounded-lg text-sm transition-colors">방 삭제</button>
                     <button onClick={onBack} className="text-gray-500 dark:text-gray-400 border border-slate-300 dark:border-slate-700 bg-white/50 dark:bg-slate-900/50 px-3 py-1 rounded-lg text-sm">나가기</button>
                 </div>
             </header>
 
+            {joinSheetOpen && <JoinCodeSheet room={room} onClose={() => setJoinSheetOpen(false)} />}
+            {replayMatchId && <MatchReplay room={room} matchId={replayMatchId} onClose={() => setReplayMatchId(null)} />}
+
             {room.status === 'PREPARING' && (
                 <div className="mb-8 glass-panel p-6 rounded-xl border border-indigo-500/30">
-                    <MatchMaker teams={room.teams} matches={room.matches || []} onUpdateMatches={(matches) => onUpdate({...room, matches})} />
-                    <button onClick={() => onUpdate({...room, status: 'PLAYING'})} className="w-full mt-4 py-4 bg-green-600 rounded-lg font-bold text-white text-lg hover:bg-green-500 shadow-lg transform transition-transform hover:scale-[1.01]">게임 시작 (PLAYING)</button>
+                    {room.tournament ? (
+                        <>
+                            <BracketView room={room} />
+                            {getCurrentCycle(room) === 1 && (
+                                <button onClick={() => onUpdate(cancelTournament(room))} className="mt-4 px-3 py-2 bg-red-600/80 rounded-lg text-sm font-bold text-white hover:bg-red-500">대진 취소</button>
+                            )}
+                        </>
+                    ) : (
+                        <MatchMaker teams={room.teams} matches={room.matches || []} byeChips={getByeChips(rules)} onUpdateMatches={(matches) => onUpdate({...room, matches})} onStartTournament={(format) => onUpdate(startTournament(room, format))} />
+                    )}
+                    <div className="mt-4 p-4 bg-slate-100/80 dark:bg-slate-800/80 rounded-lg border border-slate-200 dark:border-slate-700">
+                        <div className="flex justify-between items-center mb-3">
+                            <h4 className="text-sm font-bold text-slate-700 dark:text-gray-300">🤖 봇 팀 설정</h4>
+                            {!room.tournament && room.teams.length % 2 === 1 && (
+                                <button onClick={addHouseBot} className="px-3 py-1 bg-indigo-600 rounded text-xs font-bold text-white hover:bg-indigo-500">하우스 봇 추가</button>
+                            )}
+                        </div>
+                        <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                            {room.teams.map(team => (
+                                <label key={team.id} className="flex items-center justify-between gap-2 text-xs bg-white dark:bg-slate-900 p-2 rounded border border-slate-200 dark:border-slate-700">
+                                    <span className="font-bold text-slate-800 dark:text-white truncate">{team.name}</span>
+                                    <select value={team.bot || ''} onChange={(e) => setTeamBot(team.id, e.target.value as BotLevel | '')} className="bg-slate-100 dark:bg-slate-800 text-slate-800 dark:text-white rounded px-1 py-0.5">
+                                        <option value="">사람</option>
+                                        {BOT_LEVELS.map(b => <option key={b.id} value={b.id} title={b.description}>봇 · {b.label}</option>)}
+                                    </select>
+                                </label>
+                            ))}
+                        </div>
+                    </div>
+                    <button onClick={() => onUpdate({...room, status: 'PLAYING', matches: assignByes(room.matches || [], getByeChips(rules))})} className="w-full mt-4 py-4 bg-green-600 rounded-lg font-bold text-white text-lg hover:bg-green-500 shadow-lg transform transition-transform hover:scale-[1.01]">게임 시작 (PLAYING)</button>
                 </div>
             )}
             
@@ -514,21 +709,27 @@ const AdminDashboard = ({ room, onUpdate, onBack, onEnterTeam, onDelete }: { roo
                  </div>
             )}
 
+            {room.tournament && room.status !== 'PREPARING' && (
+                <div className="mb-8 glass-panel p-6 rounded-xl border border-indigo-500/30">
+                    <BracketView room={room} />
+                </div>
+            )}
+
             <h3 className="text-xl font-bold text-slate-900 dark:text-white mb-4">실시간 현황 (Control Center)</h3>
             
             <div className="space-y-4 mb-8">
                 {room.matches && room.matches.length > 0 ? (
                     <div className="grid grid-cols-1 lg:grid-cols-2 xl:grid-cols-3 gap-6">
-                        {room.matches.map((match, idx) => {
+                        {getCycleMatches(room).map((match, idx) => {
                             const teamA = room.teams.find(t => t.id === match.teamAId);
                             const teamB = room.teams.find(t => t.id === match.teamBId);
                             const isMatchActive = match.roundStatus !== 'FINISHED';
                             return (
                                 <div key={match.id} className="bg-white/80 dark:bg-slate-800/80 backdrop-blur-md rounded-2xl border border-slate-300 dark:border-slate-700 overflow-hidden shadow-xl">
                                     <div className="bg-slate-100 dark:bg-slate-900/50 p-3 border-b border-slate-200 dark:border-slate-700 flex justify-between items-center">
-                                        <span className="font-bold text-indigo-600 dark:text-indigo-400">MATCH {idx + 1}</span>
-                                        <span className={`text-xs font-bold px-2 py-1 rounded ${isMatchActive ? 'bg-green-100 text-green-700' : 'bg-blue-100 text-blue-700'}`}>
-                                            {isMatchActive ? `R${match.currentRound} 진행중` : 'Finished'}
+                                        <span className="font-bold text-indigo-600 dark:text-indigo-400">MATCH {idx + 1} <PhaseTimer deadline={match.deadline} /></span>
+                                        <span className={`text-xs font-bold px-2 py-1 rounded ${match.paused ? 'bg-orange-100 text-orange-700' : isMatchActive ? 'bg-green-100 text-green-700' : 'bg-blue-100 text-blue-700'}`}>
+                                            {match.paused ? `R${match.currentRound} 일시정지` : isMatchActive ? `R${match.currentRound} 진행중` : 'Finished'}
                                         </span>
                                     </div>
                                     <div className="p-4 flex items-center justify-between gap-4">
@@ -536,7 +737,7 @@ const AdminDashboard = ({ room, onUpdate, onBack, onEnterTeam, onDelete }: { roo
                                             {teamA ? (
                                                 <div onClick={() => onEnterTeam(teamA.id)} className={`cursor-pointer p-3 rounded-xl transition-all ${teamA.isReady && room.status==='PREPARING' ? 'bg-green-50 dark:bg-green-900/20 ring-2 ring-green-500' : 'hover:bg-slate-100 dark:hover:bg-slate-700'}`}>
                                                     <div className="font-black text-lg text-slate-900 dark:text-white truncate">{teamA.name}</div>
-                                                    <div className="text-xs text-gray-500 dark:text-gray-400 mb-2 truncate max-w-[120px] mx-auto">{teamA.members?.join(', ') || '팀원 없음'}</div>
+                                                    <div className="text-xs text-gray-500 dark:text-gray-400 mb-2 truncate max-w-[120px] mx-auto">{teamA.bot ? `🤖 ${getBotLabel(teamA.bot)} 봇` : teamA.members?.join(', ') || '팀원 없음'}</div>
                                                     <div className="text-sm font-bold text-yellow-600 dark:text-yellow-500">{teamA.winnings}억</div>
                                                     <div className="text-[10px] text-gray-400">Rank: {getTeamRank(teamA.id)}위</div>
                                                     {room.status === 'PREPARING' && teamA.isReady && <div className="mt-2 text-xs bg-green-500 text-white py-1 px-2 rounded-full font-bold animate-pulse">Ready to Go</div>}
@@ -548,17 +749,45 @@ const AdminDashboard = ({ room, onUpdate, onBack, onEnterTeam, onDelete }: { roo
                                             {teamB ? (
                                                 <div onClick={() => onEnterTeam(teamB.id)} className={`cursor-pointer p-3 rounded-xl transition-all ${teamB.isReady && room.status==='PREPARING' ? 'bg-green-50 dark:bg-green-900/20 ring-2 ring-green-500' : 'hover:bg-slate-100 dark:hover:bg-slate-700'}`}>
                                                     <div className="font-black text-lg text-slate-900 dark:text-white truncate">{teamB.name}</div>
-                                                    <div className="text-xs text-gray-500 dark:text-gray-400 mb-2 truncate max-w-[120px] mx-auto">{teamB.members?.join(', ') || '팀원 없음'}</div>
+                                                    <div className="text-xs text-gray-500 dark:text-gray-400 mb-2 truncate max-w-[120px] mx-auto">{teamB.bot ? `🤖 ${getBotLabel(teamB.bot)} 봇` : teamB.members?.join(', ') || '팀원 없음'}</div>
                                                     <div className="text-sm font-bold text-yellow-600 dark:text-yellow-500">{teamB.winnings}억</div>
                                                     <div className="text-[10px] text-gray-400">Rank: {getTeamRank(teamB.id)}위</div>
                                                     {room.status === 'PREPARING' && teamB.isReady && <div className="mt-2 text-xs bg-green-500 text-white py-1 px-2 rounded-full font-bold animate-pulse">Ready to Go</div>}
                                                 </div>
-                                            ) : <div className="text-gray-400 text-sm">Empty</div>}
+                                            ) : match.isBye ? <div className="text-amber-600 dark:text-amber-400 text-sm font-bold">부전승 (+{match.finalWinnings?.[match.teamAId] ?? 0}억)</div> : <div className="text-gray-400 text-sm">Empty</div>}
                                         </div>
                                     </div>
                                     <div className="bg-slate-50 dark:bg-slate-900/30 p-2 text-center text-xs text-gray-500 border-t border-slate-200 dark:border-slate-700">
                                         Current Pot: {match.pot}억 | Carry Over: {match.carryOver}억
+                                        {hasFullLog(match) && <button onClick={() => setReplayMatchId(match.id)} className="ml-2 px-2 py-0.5 rounded bg-indigo-100 dark:bg-indigo-900/40 text-indigo-700 dark:text-indigo-300 font-bold hover:bg-indigo-200">🎬 리플레이</button>}
+                                        {getRollbackRounds(room, match).length > 0 && <button onClick={() => setRollbackMatchId(rollbackMatchId === match.id ? null : match.id)} className="ml-1 px-2 py-0.5 rounded bg-orange-100 dark:bg-orange-900/40 text-orange-700 dark:text-orange-300 font-bold hover:bg-orange-200">⏪ 되돌리기</button>}
+                                        {(match.rollbacks?.length || 0) > 0 && <span className="ml-1 text-orange-500">(되돌림 {match.rollbacks!.length}회)</span>}
                                     </div>
+                                    {/* Live controls: hold the match, or move it on for an idle team */}
+                                    {room.status === 'PLAYING' && isMatchActive && !match.isBye && (
+                                        <div className="p-2 flex flex-wrap items-center justify-center gap-1 border-t border-slate-200 dark:border-slate-700 text-xs">
+                                            <button onClick={() => onAction({ type: 'PAUSE_MATCH', matchId: match.id, paused: !match.paused })} className={`px-2 py-1 rounded font-bold ${match.paused ? 'bg-green-600 text-white hover:bg-green-500' : 'bg-orange-500 text-white hover:bg-orange-400'}`}>{match.paused ? '▶ 재개' : '⏸ 일시정지'}</button>
+                                            {!match.paused && match.roundStatus === 'READY' && <button onClick={() => onAction({ type: 'OPEN_ROUND', matchId: match.id })} className="px-2 py-1 rounded border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-gray-300 hover:bg-slate-100 dark:hover:bg-slate-700">라운드 열기</button>}
+                                            {!match.paused && match.roundStatus === 'DECISION' && (
+                                                <>
+                                                    <button onClick={() => handleForceDecision(match, false)} className="px-2 py-1 rounded border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-gray-300 hover:bg-slate-100 dark:hover:bg-slate-700">{room.teams.find(t => t.id === match.turnOwner)?.name} 포기 처리</button>
+                                                    <button onClick={() => handleForceDecision(match, true)} className="px-2 py-1 rounded border border-red-400 text-red-600 dark:text-red-400 hover:bg-red-500 hover:text-white">{room.teams.find(t => t.id === match.turnOwner)?.name} 콜 처리</button>
+                                                </>
+                                            )}
+                                            {!match.paused && match.roundStatus === 'SHOWDOWN' && <button onClick={() => onAction({ type: 'SHOWDOWN', matchId: match.id })} className="px-2 py-1 rounded border border-red-400 text-red-600 dark:text-red-400 hover:bg-red-500 hover:text-white">쇼다운 진행</button>}
+                                            {!match.paused && match.roundStatus === 'RESULT' && <button onClick={() => handleForceConfirm(match)} className="px-2 py-1 rounded border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-gray-300 hover:bg-slate-100 dark:hover:bg-slate-700">결과 확인 처리</button>}
+                                            {match.roundStatus !== 'READY' && getRollbackRounds(room, match).includes(match.currentRound) && <button onClick={() => handleResetRound(match)} className="px-2 py-1 rounded border border-orange-400 text-orange-700 dark:text-orange-300 hover:bg-orange-500 hover:text-white">🔄 READY로 초기화</button>}
+                                        </div>
+                                    )}
+                                    {/* Rollback to the start of a round (services/matchLog.ts) */}
+                                    {rollbackMatchId === match.id && (
+                                        <div className="p-2 flex flex-wrap items-center justify-center gap-1 bg-orange-50 dark:bg-orange-900/20 border-t border-orange-200 dark:border-orange-800 text-xs">
+                                            <span className="text-orange-700 dark:text-orange-300 font-bold mr-1">라운드 시작으로:</span>
+                                            {getRollbackRounds(room, match).map(round => (
+                                                <button key={round} onClick={() => handleRollback(match.id, round)} className="px-2 py-0.5 rounded border border-orange-400 text-orange-700 dark:text-orange-300 hover:bg-orange-500 hover:text-white">R{round}</button>
+                                            ))}
+                                        </div>
+                                    )}
                                 </div>
                             );
                         })}
@@ -574,7 +803,7 @@ const AdminDashboard = ({ room, onUpdate, onBack, onEnterTeam, onDelete }: { roo
                          <div className="flex justify-between items-center mb-4">
                              <h3 className="text-lg font-bold text-slate-900 dark:text-white">🏆 우승팀 포스터 & 피드백</h3>
                              <div className="flex gap-2">
-                                 {room.winnerPosterUrl && (
+                                 {room.winnerPoster && (
                                      <button onClick={handleDownloadPoster} className="bg-purple-600 text-white px-3 py-1 rounded text-sm hover:bg-purple-500">포스터 다운로드</button>
                                  )}
                                  <button onClick={handleDownloadPDF} className="bg-slate-700 text-white px-3 py-1 rounded text-sm hover:bg-slate-600">PDF 다운로드</button>
@@ -599,14 +828,14 @@ const AdminDashboard = ({ room, onUpdate, onBack, onEnterTeam, onDelete }: { roo
                                              </tr>
                                          </thead>
                                          <tbody>
-                                             {[...room.teams].sort((a,b) => b.winnings - a.winnings).map((team, idx) => {
+                                             {rankedTeams.map((team, idx) => {
                                                  const roundsData = getTeamRoundsWon(team.id);
                                                  return (
                                                      <tr key={team.id} className="border-b">
                                                          <td className="p-2 border font-bold text-center">{idx+1}</td>
                                                          <td className="p-2 border font-bold">{team.name}</td>
                                                          <td className="p-2 border text-gray-600">{team.members.join(', ')}</td>
-                                                         <td className="p-2 border font-bold text-yellow-700">{team.winnings}</td>
+                                                         <td className="p-2 border font-bold text-yellow-700">{getTotalWinnings(room, team.id)}</td>
                                                          <td className="p-2 border">
                                                              <span className="font-bold text-blue-600">{roundsData.count}승</span>
                                                              {roundsData.rounds.length > 0 && (
@@ -623,10 +852,10 @@ const AdminDashboard = ({ room, onUpdate, onBack, onEnterTeam, onDelete }: { roo
                                  </div>
 
                                  {/* Winner Poster - Always show if exists */}
-                                 {room.winnerPosterUrl && (
+                                 {room.winnerPoster && (
                                      <div className="text-center mt-4" style={{ pageBreakInside: 'avoid' }}>
                                          <h4 className="text-2xl font-black text-slate-900 mb-3">🏆 WINNER POSTER</h4>
-                                         <img src={room.winnerPosterUrl} alt="Winner" style={{ maxWidth: '380px', maxHeight: '500px', objectFit: 'contain', pageBreakInside: 'avoid' }} className="mx-auto rounded-xl shadow-2xl border-4 border-yellow-500" />
+                                         <img src={room.winnerPoster.url} crossOrigin="anonymous" alt="Winner" style={{ maxWidth: '380px', maxHeight: '500px', objectFit: 'contain', pageBreakInside: 'avoid' }} className="mx-auto rounded-xl shadow-2xl border-4 border-yellow-500" />
                                      </div>
                                  )}
                              </div>
@@ -653,16 +882,18 @@ const AdminDashboard = ({ room, onUpdate, onBack, onEnterTeam, onDelete }: { roo
                              <div className="flex gap-4">
                                  <div className="flex-1">
                                     <label className="block text-xs text-gray-500 dark:text-gray-400 mb-2">우승팀 사진 (다중 선택 가능)</label>
-                                    <FileUpload onUpload={setPhotos} />
+                                    <FileUpload onUpload={handleUploadPhotos} />
                                     <div className="flex gap-1 mt-2 overflow-x-auto">
-                                        {photos.map((p, i) => <img key={i} src={p} className="h-10 w-10 object-cover rounded border border-slate-600" />)}
+                                        {photosUploading
+                                            ? <span className="text-xs text-gray-500">업로드 중...</span>
+                                            : (room.winnerPhotos || []).map((p, i) => <img key={i} src={p.thumbnailUrl || p.url} className="h-10 w-10 object-cover rounded border border-slate-600" />)}
                                     </div>
                                  </div>
                                  <div className="flex-1">
                                     <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">팀원 이름 (포스터에 표시됨)</label>
                                     <input className="w-full bg-white dark:bg-slate-900 border border-slate-300 dark:border-slate-700 rounded px-3 py-2 text-slate-900 dark:text-white" placeholder="예: 홍길동, 김철수, 이영희" value={winnerNames} onChange={e=>setWinnerNames(e.target.value)} />
                                     <div className="flex gap-2 mt-2">
-                                        <button onClick={handleCreatePoster} disabled={posterLoading || photos.length === 0} className="flex-1 py-3 bg-purple-600 rounded-lg text-white font-bold disabled:opacity-50 text-xs">
+                                        <button onClick={handleCreatePoster} disabled={posterLoading || photosUploading || !room.winnerPhotos?.length} className="flex-1 py-3 bg-purple-600 rounded-lg text-white font-bold disabled:opacity-50 text-xs">
                                             {posterLoading ? '생성 중...' : '포스터 생성'}
                                         </button>
                                         <button onClick={handleCreateSWOT} disabled={swotLoading} className="flex-1 py-3 bg-blue-600 rounded-lg text-white font-bold disabled:opacity-50 text-xs">
@@ -679,36 +910,52 @@ const AdminDashboard = ({ room, onUpdate, onBack, onEnterTeam, onDelete }: { roo
     );
 };
 
-const UserGameView = ({ room, teamId, onUpdate, isAdminMode, onBackToDash }: { room: Room, teamId: string, onUpdate: (r: Room) => void, isAdminMode?: boolean, onBackToDash?: () => void }) => {
+const UserGameView = ({ room, teamId, pendingSync = 0, onAction, onPatchMatch, isAdminMode, onBackToDash }: { room: Room, teamId: string, pendingSync?: number, onAction: (action: GameAction) => void, onPatchMatch: (matchIdx: number, patch: Record<string, unknown>) => void, isAdminMode?: boolean, onBackToDash?: () => void }) => {
     const team = room.teams.find(t => t.id === teamId);
     
     // Determine Opponent & Match
-    const myMatchIdx = room.matches.findIndex(m => m.teamAId === teamId || m.teamBId === teamId);
+    const myMatchIdx = findTeamMatchIndex(room, teamId);
     const myMatch = room.matches[myMatchIdx];
     
     const isTeamA = myMatch?.teamAId === teamId;
     const opponentId = isTeamA ? myMatch?.teamBId : myMatch?.teamAId;
     const opponentTeam = room.teams.find(t => t.id === opponentId);
 
-    // Initial Setup Logic (Drag & Drop)
-    const initialStrategy = (team?.strategy && team.strategy.length === TOTAL_ROUNDS) 
+    const rules = getRuleSet(room);
+    const allRounds = Array.from({ length: rules.rounds }, (_, i) => i + 1);
+
+    // Tournament teams without a match this cycle (knocked out, or waiting a cycle)
+    const isKnockedOut = isEliminated(room, teamId);
+    const hasBye = Boolean(myMatch?.isBye) && (myMatch.cycle || 1) === getCurrentCycle(room);
+    const isSittingOut = isKnockedOut || hasBye || isWaitingThisCycle(room, teamId);
+
+    // Initial Setup Logic (Drag & Drop); an unsubmitted board survives a reload
+    const cycle = getCurrentCycle(room);
+    const draft = loadStrategyDraft(room.id, teamId, cycle);
+    const initialStrategy = (team?.strategy && team.strategy.length === rules.rounds) 
         ? team.strategy 
-        : Array(TOTAL_ROUNDS).fill(null).map((_, i) => ({ round: i + 1, card: -1, chips: 1 }));
+        : (draft && draft.length === rules.rounds ? draft : createEmptyStrategy(rules));
     const [strategy, setStrategy] = useState<RoundStrategy[]>(initialStrategy);
     
     // Playing State
     const [aiLoading, setAiLoading] = useState(false);
     const [neededChips, setNeededChips] = useState(0);
     const [submitConfirmOpen, setSubmitConfirmOpen] = useState(false);
+    const [replayOpen, setReplayOpen] = useState(false);
     
     // Multi-Round Steal Logic State
     const [stealModalOpen, setStealModalOpen] = useState(false);
     const [tempStrategy, setTempStrategy] = useState<RoundStrategy[]>([]); // To track changes in modal before confirming
 
     const currentDragItem = useRef<DragItem | null>(null);
+    // Card picked up with the keyboard or a tap, and what screen readers are told
+    const [selectedCard, setSelectedCard] = useState<DragItem | null>(null);
+    const [announcement, setAnnouncement] = useState('');
+    const announce = (message: string) => setAnnouncement(message);
 
     // Derived State Variables - Define BEFORE usage
     const isMyTurn = myMatch?.turnOwner === teamId;
+    const isPaused = Boolean(myMatch?.paused); // Held by the admin
     const isBlindMode = true; 
     const revealedRounds = myMatch?.history?.map(h => h.round) || [];
     
@@ -721,64 +968,66 @@ const UserGameView = ({ room, teamId, onUpdate, isAdminMode, onBackToDash }: { r
 
     // Update strategy to match team state
     useEffect(() => {
-        if(team?.strategy && team.strategy.length === TOTAL_ROUNDS) setStrategy(team.strategy);
+        if(team?.strategy && team.strategy.length === rules.rounds) setStrategy(team.strategy);
     }, [team]);
 
+    useEffect(() => {
+        if (isAdminMode || !team) return;
+        saveStrategyDraft(room.id, teamId, cycle, team.isReady ? null : strategy);
+    }, [strategy, team?.isReady]);
+
+    // On a clock the board being arranged is shared too, so a preparation
+    // timeout completes it instead of dealing a new one (services/timers.ts)
+    const syncedDraft = myMatch?.drafts?.[teamId];
+    useEffect(() => {
+        if (isAdminMode || !team || team.isReady || !myMatch || myMatch.isBye || !rules.timers?.preparation) return;
+        if (JSON.stringify(syncedDraft) === JSON.stringify(strategy)) return;
+        const timer = setTimeout(() => onPatchMatch(myMatchIdx, { [`drafts/${teamId}`]: strategy }), DRAFT_SYNC_MS);
+        return () => clearTimeout(timer);
+    }, [strategy, team?.isReady, syncedDraft]);
+
     // Derived States
     const usedChips = strategy.reduce((acc, s) => acc + s.chips, 0);
-    const remainingChips = TOTAL_CHIPS - usedChips;
+    const remainingChips = rules.chips - usedChips;
     const usedCards = strategy.map(s => s.card).filter(c => c !== -1);
-    const allRoundsHaveChips = strategy.every(s => s.chips > 0);
-    const isSetupComplete = remainingChips === 0 && usedCards.length === TOTAL_ROUNDS && allRoundsHaveChips;
+    const allRoundsHaveChips = strategy.every(s => s.chips >= rules.minChipsPerRound);
+    const isSetupComplete = remainingChips === 0 && usedCards.length === rules.rounds && allRoundsHaveChips;
     
     // AI Advice Sync
     const activeAdvice = myMatch?.aiAdvice?.[teamId];
 
-    // ... (Game Engine Logic, Update Functions, Actions same as before) ...
+    // Rules live in services/gameEngine.ts; the view only dispatches actions
+    const dispatch = (action: GameAction) => {
+        if (applyGameAction(room, action) !== room) onAction(action);
+    };
+
     // Only Team A triggers state transitions to prevent race conditions
     useEffect(() => {
         if (room.status !== 'PLAYING' || !myMatch || !team || !opponentTeam) return;
         // Only Team A handles state transitions from READY to DECISION/SHOWDOWN
-        if (!isTeamA) return;
-
-        const myStrat = team.strategy![myMatch.currentRound - 1];
-        const oppStrat = opponentTeam.strategy![myMatch.currentRound - 1];
+        // (with a referee server, the referee opens rounds itself)
+        if (!isTeamA || isRefereeConfigured()) return;
 
         if (myMatch.roundStatus === 'READY') {
             // Small delay to ensure Firebase sync is complete
             const timer = setTimeout(() => {
-                if (myStrat.chips === oppStrat.chips) {
-                    updateMatchState({ roundStatus: 'SHOWDOWN' });
-                } else {
-                    const fewerChipsTeamId = myStrat.chips < oppStrat.chips ? team.id : opponentTeam.id;
-                    updateMatchState({ roundStatus: 'DECISION', turnOwner: fewerChipsTeamId });
-                }
+                dispatch({ type: 'OPEN_ROUND', matchId: myMatch.id });
             }, 100);
             return () => clearTimeout(timer);
         }
     }, [room.status, myMatch?.currentRound, myMatch?.roundStatus, myMatch?.pot, isTeamA]);
 
-    const updateMatchState = (updates: Partial<Match>) => {
-        const newMatches = [...room.matches];
-        newMatches[myMatchIdx] = { ...myMatch, ...updates };
-        onUpdate({ ...room, matches: newMatches });
-    };
-
-    const updateTeamsAndMatch = (updatedTeams: Team[], matchUpdates: Partial<Match>) => {
-        const newMatches = [...room.matches];
-        newMatches[myMatchIdx] = { ...myMatch, ...matchUpdates };
-        onUpdate({ ...room, teams: updatedTeams, matches: newMatches });
+    // Match-local UI state (AI help) is written per team key, not per room
+    const updateMatchState = (patch: Record<string, unknown>) => {
+        onPatchMatch(myMatchIdx, patch);
     };
 
     const handleSubmitStrategy = () => {
         if (!isAdminMode) {
             // Strict Validation
-            if (usedCards.length !== 10) {
-                alert("모든 10장의 카드를 사용해야 합니다.");
-                return;
-            }
-            if (remainingChips !== 0) {
-                alert(`자본금 잔액이 ${remainingChips}억 남았습니다. 0억이 되어야 합니다.`);
+            const error = validateStrategy(strategy, rules);
+            if (error) {
+                alert(error);
                 return;
             }
             setSubmitConfirmOpen(true);
@@ -789,8 +1038,7 @@ const UserGameView = ({ room, teamId, onUpdate, isAdminMode, onBackToDash }: { r
     };
 
     const confirmSubmit = () => {
-        const updatedTeams = room.teams.map(t => t.id === teamId ? { ...t, isReady: true, strategy } : t);
-        onUpdate({ ...room, teams: updatedTeams });
+        dispatch({ type: 'SUBMIT_STRATEGY', teamId, strategy, force: isAdminMode });
         setSubmitConfirmOpen(false);
     };
 
@@ -798,11 +1046,12 @@ const UserGameView = ({ room, teamId, onUpdate, isAdminMode, onBackToDash }: { r
         if (aiLoading || (myMatch.aiHelps?.[teamId] || 0) >= 3) return;
         setAiLoading(true);
         try {
-            const advice = await getGameAdvice(team!, opponentTeam!, myMatch);
+            const advice = await getGameAdvice(team!, opponentTeam!, myMatch, rules);
             // Sync Advice to Match
-            const newCounts = { ...myMatch.aiHelps, [teamId]: (myMatch.aiHelps?.[teamId] || 0) + 1 };
-            const newAdvice = { ...myMatch.aiAdvice, [teamId]: advice };
-            updateMatchState({ aiHelps: newCounts, aiAdvice: newAdvice });
+            updateMatchState({
+                [`aiHelps/${teamId}`]: (myMatch.aiHelps?.[teamId] || 0) + 1,
+                [`aiAdvice/${teamId}`]: advice
+            });
         } catch(e) { alert("AI 조언 실패"); }
         setAiLoading(false);
     };
@@ -810,62 +1059,23 @@ const UserGameView = ({ room, teamId, onUpdate, isAdminMode, onBackToDash }: { r
     const closeAIHelp = () => {
         // Clear advice for team
         if (myMatch?.aiAdvice?.[teamId]) {
-            const newAdvice = { ...myMatch.aiAdvice };
-            delete newAdvice[teamId];
-            updateMatchState({ aiAdvice: newAdvice });
+            updateMatchState({ [`aiAdvice/${teamId}`]: undefined });
         }
     };
 
     // Game Action Handlers (Fold, Call, Steal, Showdown...)
     const handleFold = () => {
-        if (!isMyTurn) return;
-        const currentRound = myMatch.currentRound;
-        const myStrat = team!.strategy![currentRound - 1];
-        const oppStrat = opponentTeam!.strategy![currentRound - 1];
-        const pot = myStrat.chips + oppStrat.chips + (myMatch.carryOver || 0);
-        const updatedOpponent = { ...opponentTeam!, winnings: (opponentTeam!.winnings || 0) + pot };
-        const historyItem = {
-            round: currentRound,
-            teamACard: isTeamA ? myStrat.card : oppStrat.card,
-            teamBCard: isTeamA ? oppStrat.card : myStrat.card,
-            teamAChips: isTeamA ? myStrat.chips : oppStrat.chips,
-            teamBChips: isTeamA ? oppStrat.chips : myStrat.chips,
-            result: isTeamA ? 'A_FOLDED' : 'B_FOLDED',
-            potWon: pot
-        };
-        const updatedTeams = room.teams.map(t => t.id === opponentTeam!.id ? updatedOpponent : t);
-        // Go to RESULT status for both teams to confirm
-        updateTeamsAndMatch(updatedTeams, {
-            roundStatus: 'RESULT',
-            turnOwner: undefined,
-            lastAction: { teamId, action: 'FOLD' },
-            lastRoundResult: historyItem as any,
-            resultConfirmed: {},
-            history: [...(myMatch.history || []), historyItem as any]
-        });
+        if (!isMyTurn || pendingSync > 0 || isPaused) return;
+        dispatch({ type: 'FOLD', teamId });
     };
 
     const handleCall = () => {
-        if (!isMyTurn) return;
-        const currentRound = myMatch.currentRound;
-        const myStrat = team!.strategy![currentRound - 1];
-        const oppStrat = opponentTeam!.strategy![currentRound - 1];
-        const diff = oppStrat.chips - myStrat.chips;
-        let winnings = team!.winnings || 0;
-        if (winnings >= diff) {
-            const updatedTeam = {
-                ...team!,
-                winnings: winnings - diff,
-                strategy: team!.strategy!.map((s, i) => i === currentRound - 1 ? { ...s, chips: s.chips + diff } : s)
-            };
-            const updatedTeams = room.teams.map(t => t.id === teamId ? updatedTeam : t);
-            updateTeamsAndMatch(updatedTeams, {
-                roundStatus: 'SHOWDOWN',
-                turnOwner: undefined,
-                lastAction: { teamId, action: 'CALL' }
-            });
+        if (!isMyTurn || pendingSync > 0 || isPaused) return;
+        const shortfall = getCallShortfall(room, teamId);
+        if (shortfall === 0) {
+            dispatch({ type: 'CALL', teamId });
         } else {
-            setNeededChips(diff - winnings);
+            setNeededChips(shortfall);
             setTempStrategy(JSON.parse(JSON.stringify(team!.strategy))); // Clone for modal
             setStealModalOpen(true);
         }
@@ -876,7 +1086,7 @@ const UserGameView = ({ room, teamId, onUpdate, isAdminMode, onBackToDash }: { r
             const next = [...prev];
             const current = next[roundIdx].chips;
             const newVal = current + delta;
-            if (newVal < 1) return prev; // Cannot go below 1 chip
+            if (newVal < rules.minChipsPerRound) return prev; // Cannot go below the minimum bet
 
             // Prevent stealing more than needed
             if (delta < 0) {
@@ -900,112 +1110,40 @@ const UserGameView = ({ room, teamId, onUpdate, isAdminMode, onBackToDash }: { r
     };
 
     const confirmSteal = () => {
-        // Calculate total stolen from future rounds
-        const currentRoundIdx = myMatch.currentRound - 1;
-        let stolenTotal = 0;
+        // Chips taken from each future round (round number -> amount)
+        const steal: Record<number, number> = {};
         team!.strategy!.forEach((s, i) => {
-            if (i > currentRoundIdx) {
-                const diff = s.chips - tempStrategy[i].chips;
-                if (diff > 0) stolenTotal += diff;
+            if (i >= myMatch.currentRound && s.chips > tempStrategy[i].chips) {
+                steal[s.round] = s.chips - tempStrategy[i].chips;
             }
         });
-
-        // Winnings + Stolen must cover neededChips
-        const totalAvailable = (team!.winnings || 0) + stolenTotal;
-        const diff = (opponentTeam!.strategy![currentRoundIdx].chips - team!.strategy![currentRoundIdx].chips);
-        
-        // Final update to current round chips
-        const newCurrentChips = tempStrategy[currentRoundIdx].chips + diff;
-        const updatedStrategy = [...tempStrategy];
-        updatedStrategy[currentRoundIdx].chips = newCurrentChips;
-
-        const updatedTeam = {
-            ...team!,
-            winnings: 0, // Drained winnings
-            strategy: updatedStrategy
-        };
-        const updatedTeams = room.teams.map(t => t.id === teamId ? updatedTeam : t);
         setStealModalOpen(false);
-        updateTeamsAndMatch(updatedTeams, { roundStatus: 'SHOWDOWN', turnOwner: undefined });
+        dispatch({ type: 'CALL', teamId, steal });
     };
 
     const handleShowdown = () => {
-        if (myMatch.roundStatus !== 'SHOWDOWN') return;
-        const currentRound = myMatch.currentRound;
-        const teamA = room.teams.find(t => t.id === myMatch.teamAId)!;
-        const teamB = room.teams.find(t => t.id === myMatch.teamBId)!;
-        const stratA = teamA.strategy![currentRound - 1];
-        const stratB = teamB.strategy![currentRound - 1];
-        const pot = stratA.chips + stratB.chips + (myMatch.carryOver || 0);
-        let winner: 'A' | 'B' | 'DRAW' = 'DRAW';
-        let carryOver = 0;
-        let winningsA = teamA.winnings || 0;
-        let winningsB = teamB.winnings || 0;
-        let scoreA = myMatch.teamAScore;
-        let scoreB = myMatch.teamBScore;
-        if (stratA.card > stratB.card) { winner = 'A'; winningsA += pot; scoreA += 1; }
-        else if (stratB.card > stratA.card) { winner = 'B'; winningsB += pot; scoreB += 1; }
-        else {
-            // Draw - chips carry over to next round, or return on last round
-            if (currentRound === TOTAL_ROUNDS) {
-                // Last round draw: each team takes back their own chips
-                winningsA += stratA.chips + ((myMatch.carryOver || 0) / 2);
-                winningsB += stratB.chips + ((myMatch.carryOver || 0) / 2);
-            } else {
-                carryOver = pot;
-            }
-        }
-        const historyItem = { round: currentRound, teamACard: stratA.card, teamBCard: stratB.card, teamAChips: stratA.chips, teamBChips: stratB.chips, result: winner === 'A' ? 'A_WON' : (winner === 'B' ? 'B_WON' : 'DRAW'), potWon: winner === 'DRAW' ? 0 : pot };
-        const updatedTeamA = { ...teamA, winnings: winningsA };
-        const updatedTeamB = { ...teamB, winnings: winningsB };
-        const updatedTeams = room.teams.map(t => t.id === teamA.id ? updatedTeamA : (t.id === teamB.id ? updatedTeamB : t));
-
-        // Go to RESULT status for both teams to confirm
-        updateTeamsAndMatch(updatedTeams, {
-            roundStatus: 'RESULT',
-            turnOwner: undefined,
-            pot: 0,
-            carryOver,
-            teamAScore: scoreA,
-            teamBScore: scoreB,
-            lastRoundResult: historyItem as any,
-            resultConfirmed: {},
-            history: [...(myMatch.history || []), historyItem as any]
-        });
+        dispatch({ type: 'SHOWDOWN', matchId: myMatch.id });
     };
 
     // Confirm round result and proceed to next round when both teams confirm
     const handleConfirmResult = () => {
-        const confirmed = { ...(myMatch.resultConfirmed || {}), [teamId]: true };
-        const bothConfirmed = confirmed[myMatch.teamAId] && confirmed[myMatch.teamBId];
-        const nextRound = myMatch.currentRound + 1;
-        const isGameEnd = nextRound > TOTAL_ROUNDS;
-
-        if (bothConfirmed) {
-            // Both teams confirmed, move to next round
-            updateMatchState({
-                currentRound: isGameEnd ? myMatch.currentRound : nextRound,
-                roundStatus: isGameEnd ? 'FINISHED' : 'READY',
-                resultConfirmed: {},
-                lastRoundResult: undefined,
-                lastAction: undefined
-            });
-        } else {
-            // Just mark this team as confirmed
-            updateMatchState({ resultConfirmed: confirmed });
-        }
+        dispatch({ type: 'CONFIRM_RESULT', teamId });
     };
 
     // ... (Drag & Drop Logic same as before) ...
     const handleSetChips = (roundIdx: number, delta: number) => {
         if (room.status !== 'PREPARING' && !isAdminMode) return;
+        const newChips = strategy[roundIdx].chips + delta;
+        if (newChips < rules.minChipsPerRound) announce(`R${roundIdx + 1} 최소 배팅은 ${rules.minChipsPerRound}억입니다.`);
+        else if (delta > 0 && remainingChips <= 0) announce('자본금 잔액이 없습니다.');
+        else announce(`R${roundIdx + 1} 칩 ${newChips}억, 잔액 ${remainingChips - delta}억`);
         setStrategy(prev => {
              const next = prev.map(p => ({...p}));
              const currentChips = next[roundIdx].chips;
              const newChips = currentChips + delta;
-             if (newChips < 1) return prev;
+             if (newChips < rules.minChipsPerRound) return prev;
              const currentTotal = next.reduce((acc, s) => acc + s.chips, 0);
-             if (delta > 0 && currentTotal >= TOTAL_CHIPS) return prev;
+             if (delta > 0 && currentTotal >= rules.chips) return prev;
              next[roundIdx].chips = newChips;
              return next;
         });
@@ -1024,21 +1162,63 @@ const UserGameView = ({ room, teamId, onUpdate, isAdminMode, onBackToDash }: { r
         const dropZone = target?.closest('[data-drop-zone="round"]');
         if (dropZone) {
              const targetRoundIdx = parseInt(dropZone.getAttribute('data-round-index') || '-1');
-             if (targetRoundIdx !== -1) {
-                 setStrategy(prev => {
-                     const next = prev.map(p => ({...p}));
-                     if (item.source === 'deck') { next[targetRoundIdx].card = item.data; } 
-                     else { const sourceRoundIdx = parseInt(item.source || '-1'); if (sourceRoundIdx !== -1 && sourceRoundIdx !== targetRoundIdx) { const targetCard = next[targetRoundIdx].card; next[targetRoundIdx].card = item.data; next[sourceRoundIdx].card = targetCard; } }
-                     return next;
-                 });
-             }
-        } else { if (item.source !== 'deck') { const sourceRoundIdx = parseInt(item.source || '-1'); if (sourceRoundIdx !== -1) { setStrategy(prev => { const next = prev.map(p => ({...p})); next[sourceRoundIdx].card = -1; return next; }); } } }
+             if (targetRoundIdx !== -1) placeCard(item, targetRoundIdx);
+        } else { if (item.source !== 'deck') { const sourceRoundIdx = parseInt(item.source || '-1'); if (sourceRoundIdx !== -1) handleCardDoubleClick(sourceRoundIdx); } }
         currentDragItem.current = null;
     };
+    // A deck card goes into the round; a round's card swaps with the target round's
+    const placeCard = (item: DragItem, targetRoundIdx: number) => {
+        const sourceRoundIdx = item.source === 'deck' ? -1 : parseInt(item.source || '-1');
+        if (item.source !== 'deck' && (sourceRoundIdx === -1 || sourceRoundIdx === targetRoundIdx)) return;
+        const targetCard = strategy[targetRoundIdx].card;
+        if (item.source === 'deck') announce(`R${targetRoundIdx + 1}에 카드 ${item.data} 배치${targetCard !== -1 ? `, 카드 ${targetCard}는 덱으로` : ''}`);
+        else announce(targetCard !== -1 ? `R${sourceRoundIdx + 1}과 R${targetRoundIdx + 1} 카드 교환` : `카드 ${item.data}를 R${targetRoundIdx + 1}로 이동`);
+        setSelectedCard(null);
+        setStrategy(prev => {
+            const next = prev.map(p => ({...p}));
+            if (item.source === 'deck') { next[targetRoundIdx].card = item.data; }
+            else { const swapped = next[targetRoundIdx].card; next[targetRoundIdx].card = item.data; next[sourceRoundIdx].card = swapped; }
+            return next;
+        });
+    };
 
-    // Double-click to remove card from round
+    // Keyboard/tap placement: pick a card (deck or round), then the round to put it in
+    const handleSelectDeckCard = (card: number) => {
+        if (room.status !== 'PREPARING' && !isAdminMode) return;
+        if (usedCards.includes(card)) return;
+        if (selectedCard?.source === 'deck' && selectedCard.data === card) {
+            setSelectedCard(null);
+            announce(`카드 ${card} 선택 취소`);
+            return;
+        }
+        setSelectedCard({ type: 'CARD', data: card, source: 'deck' });
+        announce(`카드 ${card} 선택. 놓을 라운드를 고르세요.`);
+    };
+    const handleSlotActivate = (roundIdx: number) => {
+        if (room.status !== 'PREPARING' && !isAdminMode) return;
+        if (selectedCard) {
+            if (selectedCard.source === String(roundIdx)) {
+                setSelectedCard(null);
+                announce(`R${roundIdx + 1} 선택 취소`);
+            } else {
+                placeCard(selectedCard, roundIdx);
+            }
+            return;
+        }
+        const card = strategy[roundIdx].card;
+        if (card === -1) {
+            announce(`R${roundIdx + 1}은 빈 칸입니다. 먼저 덱에서 카드를 고르세요.`);
+            return;
+        }
+        setSelectedCard({ type: 'CARD', data: card, source: String(roundIdx) });
+        announce(`R${roundIdx + 1} 카드 ${card} 선택. 바꿀 라운드를 고르세요.`);
+    };
+
+    // Double-click (or Delete) to remove card from round
     const handleCardDoubleClick = (roundIdx: number) => {
         if (room.status !== 'PREPARING' && !isAdminMode) return;
+        if (strategy[roundIdx].card !== -1) announce(`R${roundIdx + 1} 카드 ${strategy[roundIdx].card} 제거`);
+        setSelectedCard(null);
         setStrategy(prev => {
             const next = prev.map(p => ({...p}));
             next[roundIdx].card = -1;
@@ -1046,6 +1226,20 @@ const UserGameView = ({ room, teamId, onUpdate, isAdminMode, onBackToDash }: { r
         });
     };
 
+    // One-click boards (services/strategyPresets.ts)
+    const handlePreset = (preset: StrategyPreset) => {
+        if (room.status !== 'PREPARING' && !isAdminMode) return;
+        setSelectedCard(null);
+        announce(`${STRATEGY_PRESETS.find(p => p.id === preset)?.label} 적용`);
+        setStrategy(prev => applyStrategyPreset(preset, prev, rules));
+    };
+    const handleCompleteStrategy = () => {
+        if (room.status !== 'PREPARING' && !isAdminMode) return;
+        setSelectedCard(null);
+        announce('남은 칸을 채웠습니다.');
+        setStrategy(prev => completeStrategy(prev, rules));
+    };
+
     if (!team) return <div>Loading...</div>;
 
     // Calculate stolen amount for modal
@@ -1065,6 +1259,7 @@ const UserGameView = ({ room, teamId, onUpdate, isAdminMode, onBackToDash }: { r
     return (
         <div className="w-full max-w-7xl mx-auto min-h-screen h-[100dvh] flex flex-col p-2 md:p-4 overflow-hidden bg-slate-50/80 dark:bg-slate-950/80 backdrop-blur-sm relative touch-none selection:bg-none transition-colors z-10" onPointerUp={handleDrop}>
             <DragOverlay />
+            <div className="sr-only" role="status" aria-live="polite">{announcement}</div>
             
             {/* ... (Header, PREPARING view, Game View same as before) ... */}
             <header className="flex justify-between items-start mb-2 shrink-0 pl-8">
@@ -1078,6 +1273,11 @@ const UserGameView = ({ room, teamId, onUpdate, isAdminMode, onBackToDash }: { r
                     </div>
                 </div>
                 <div className="flex gap-2 items-center">
+                    {room.tournament && (
+                        <span className="px-2 py-1 rounded-full text-[10px] font-bold bg-indigo-100 dark:bg-indigo-500/20 text-indigo-600 dark:text-indigo-300">
+                            {room.tournament.championId === teamId ? '🏆 우승' : `🏟️ ${getCurrentCycle(room)}차전${isKnockedOut ? ' · 탈락' : ''}`}
+                        </span>
+                    )}
                     {room.status === 'PLAYING' && opponentTeam && (
                         <div className="flex items-center gap-1 bg-slate-100 dark:bg-slate-800 border border-slate-300 dark:border-slate-600 px-2 py-1 rounded-lg text-[10px] sm:text-xs font-bold">
                             <span className="text-red-500">{opponentTeam.name?.slice(0,4)}: <span className="text-red-600 dark:text-red-400">{opponentTeam.winnings || 0}억</span></span>
@@ -1093,8 +1293,21 @@ const UserGameView = ({ room, teamId, onUpdate, isAdminMode, onBackToDash }: { r
                 </div>
             </header>
 
-            {room.status === 'PREPARING' && (
-                <div className="flex-1 flex flex-col min-h-0">
+            {(room.status === 'PREPARING' || room.status === 'PLAYING') && isSittingOut && (
+                <div className="flex-1 flex flex-col items-center justify-center text-center gap-2 p-6">
+                    <div className="text-5xl">{isKnockedOut ? '🏁' : '⏳'}</div>
+                    <div className="text-xl font-black text-slate-900 dark:text-white">
+                        {isKnockedOut ? '토너먼트에서 탈락했습니다' : hasBye ? `부전승! (+${myMatch.finalWinnings?.[teamId] ?? 0}억)` : '이번 차전은 대기입니다'}
+                    </div>
+                    <div className="text-sm text-gray-500 dark:text-gray-400">
+                        누적 상금 {getTotalWinnings(room, teamId)}억 · {isKnockedOut ? '다른 팀의 경기를 응원해주세요!' : '다음 차전에서 경기가 배정됩니다.'}
+                    </div>
+                </div>
+            )}
+
+            {room.status === 'PREPARING' && !isSittingOut && (
+                <div className="flex-1 flex flex-col min-h-0" onKeyDown={(e) => { if (e.key === 'Escape' && selectedCard) { setSelectedCard(null); announce('선택 취소'); } }}>
+                    <p id="board-keys-help" className="sr-only">덱에서 카드를 고른 뒤 라운드 칸에서 Enter를 누르면 배치됩니다. 배치된 카드를 고르고 다른 칸을 고르면 서로 바뀝니다. 칸에서 Delete는 카드 제거, 위아래 화살표는 칩 조절, 좌우 화살표는 칸 이동, Esc는 선택 취소입니다.</p>
                      {/* Stats Bar */}
                      <div className="grid grid-cols-3 gap-1 sm:gap-2 mb-1 shrink-0">
                         <div className="bg-white/80 dark:bg-slate-800/80 p-1.5 sm:p-2 rounded-xl border border-slate-200 dark:border-slate-700 text-center shadow-sm">
@@ -1103,7 +1316,7 @@ const UserGameView = ({ room, teamId, onUpdate, isAdminMode, onBackToDash }: { r
                         </div>
                         <div className="bg-white/80 dark:bg-slate-800/80 p-1.5 sm:p-2 rounded-xl border border-slate-200 dark:border-slate-700 text-center shadow-sm">
                              <span className="text-[9px] sm:text-[10px] text-gray-500 dark:text-gray-400">카드 사용</span>
-                             <div className="text-base sm:text-xl font-black text-slate-900 dark:text-white">{usedCards.length}/10</div>
+                             <div className="text-base sm:text-xl font-black text-slate-900 dark:text-white">{usedCards.length}/{rules.rounds}</div>
                         </div>
                         <button
                             onClick={handleSubmitStrategy}
@@ -1113,19 +1326,62 @@ const UserGameView = ({ room, teamId, onUpdate, isAdminMode, onBackToDash }: { r
                             <span className="text-[9px] sm:text-[10px] font-normal opacity-80">Ready to Go</span>
                         </button>
                     </div>
+                    {!team.isReady && myMatch?.deadline?.phase === 'PREPARATION' && (
+                        <div className="flex justify-center mb-1 shrink-0"><PhaseTimer deadline={myMatch.deadline} showDefault /></div>
+                    )}
+
+                    {/* Presets and what is still missing before the board can be submitted */}
+                    {(!team.isReady || isAdminMode) && (
+                        <div className="flex flex-col gap-1 mb-1 shrink-0">
+                            <div className="flex flex-wrap justify-center gap-1">
+                                {STRATEGY_PRESETS.map(p => (
+                                    <button key={p.id} onClick={() => handlePreset(p.id)} title={p.description} className="px-2 py-1 rounded-lg text-[10px] sm:text-xs font-bold bg-white/80 dark:bg-slate-800/80 border border-slate-200 dark:border-slate-700 text-slate-700 dark:text-gray-200 hover:border-indigo-400 active:scale-95">{p.label}</button>
+                                ))}
+                                <button onClick={handleCompleteStrategy} disabled={isSetupComplete} title="배치한 카드와 칩은 그대로 두고 빈 곳만 채웁니다" className="px-2 py-1 rounded-lg text-[10px] sm:text-xs font-bold bg-indigo-600 text-white hover:bg-indigo-500 active:scale-95 disabled:opacity-40">✨ 남은 칸 채우기</button>
+                            </div>
+                            <ul className="flex flex-wrap justify-center gap-x-2 gap-y-0.5 text-[9px] sm:text-[11px]">
+                                {getStrategyChecklist(strategy, rules).map(item => (
+                                    <li key={item.label} className={item.done ? 'text-green-600 dark:text-green-400' : 'text-red-500 font-bold'}>{item.done ? '✓' : '✗'} {item.label}</li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
 
                     {/* Game Board */}
                     <div className="flex-1 min-h-[120px] max-h-[200px] sm:max-h-[280px] mb-1">
-                        <BlueGameBoard strategy={strategy} onSetChips={handleSetChips} readOnly={team.isReady && !isAdminMode} onDragStart={handleDragStart} onCardDoubleClick={handleCardDoubleClick} />
+                        <BlueGameBoard strategy={strategy} onSetChips={handleSetChips} readOnly={team.isReady && !isAdminMode} onDragStart={handleDragStart} onCardDoubleClick={handleCardDoubleClick} selectedIndex={selectedCard && selectedCard.source !== 'deck' ? Number(selectedCard.source) : undefined} onSlotActivate={handleSlotActivate} describedBy="board-keys-help" />
                     </div>
 
                     {/* Card Deck - Fixed at bottom */}
                     {(!team.isReady || isAdminMode) && (
                         <div className="bg-white/90 dark:bg-slate-900/90 backdrop-blur border-t border-slate-200 dark:border-slate-800 p-2 rounded-t-xl shrink-0 z-20">
-                            <div className="flex justify-between gap-0.5 sm:gap-1 max-w-3xl mx-auto">
-                                {CARDS.map(c => {
+                            {selectedCard && (
+                                <div className="text-center text-[10px] sm:text-xs font-bold text-indigo-600 dark:text-indigo-400 mb-1" aria-hidden="true">
+                                    카드 {selectedCard.data} 선택됨 · 놓을 라운드를 누르세요 (Esc 취소)
+                                </div>
+                            )}
+                            <div className="flex justify-between gap-0.5 sm:gap-1 max-w-3xl mx-auto" role="group" aria-label="카드 덱" aria-describedby="board-keys-help" data-key-row>
+                                {rules.deck.map(c => {
                                     const isUsed = usedCards.includes(c);
-                                    return <div key={c} onPointerDown={(e) => !isUsed && handleDragStart(e, c, 'deck')} className={`flex-1 aspect-[2/3] max-w-[36px] sm:max-w-[50px] rounded font-bold text-base sm:text-xl shadow-md flex items-center justify-center transition-all ${getCardStyle(c, true)} ${isUsed ? 'opacity-20 cursor-default' : 'cursor-grab active:cursor-grabbing'}`}>{c}</div>;
+                                    const isSelected = selectedCard?.source === 'deck' && selectedCard.data === c;
+                                    return (
+                                        <button
+                                            key={c}
+                                            type="button"
+                                            disabled={isUsed}
+                                            aria-pressed={isSelected}
+                                            aria-label={`카드 ${c}${isUsed ? ', 배치됨' : ''}`}
+                                            data-key-item
+                                            onPointerDown={(e) => !isUsed && handleDragStart(e, c, 'deck')}
+                                            onClick={() => handleSelectDeckCard(c)}
+                                            onKeyDown={(e) => {
+                                                if (e.key !== 'ArrowLeft' && e.key !== 'ArrowRight') return;
+                                                e.preventDefault();
+                                                focusInRow(e.currentTarget, e.key === 'ArrowLeft' ? -1 : 1);
+                                            }}
+                                            className={`flex-1 aspect-[2/3] max-w-[36px] sm:max-w-[50px] rounded font-bold text-base sm:text-xl shadow-md flex items-center justify-center transition-all outline-none focus-visible:ring-2 focus-visible:ring-indigo-500 ${getCardStyle(c, true)} ${isUsed ? 'opacity-20 cursor-default' : 'cursor-grab active:cursor-grabbing'} ${isSelected ? 'ring-2 ring-yellow-400 -translate-y-1' : ''}`}
+                                        >{c}</button>
+                                    );
                                 })}
                             </div>
                         </div>
@@ -1172,17 +1428,17 @@ const UserGameView = ({ room, teamId, onUpdate, isAdminMode, onBackToDash }: { r
                                  opponentName={opponentTeam.name}
                                  currentRound={myMatch.roundStatus === 'FINISHED' ? undefined : myMatch.currentRound}
                                  blindMode={myMatch.roundStatus === 'FINISHED' ? false : isBlindMode}
-                                 revealedHistory={myMatch.roundStatus === 'FINISHED' ? [1,2,3,4,5,6,7,8,9,10] : revealedRounds}
+                                 revealedHistory={myMatch.roundStatus === 'FINISHED' ? allRounds : revealedRounds}
                              />
                         </div>
 
                         {/* POT Info - Only during active game */}
                         {myMatch.roundStatus !== 'FINISHED' && (
                             <div className="h-7 flex items-center justify-between px-3 bg-white/90 dark:bg-slate-900/90 backdrop-blur shrink-0 border border-slate-200 dark:border-slate-700 rounded-lg">
-                                 <div className="text-gray-500 dark:text-gray-400 text-[10px] font-medium">R{myMatch.currentRound}/10</div>
+                                 <div className="text-gray-500 dark:text-gray-400 text-[10px] font-medium">R{myMatch.currentRound}/{rules.rounds}</div>
                                  <div className="flex items-center gap-1">
                                      <span className="text-[10px] text-gray-500">POT:</span>
-                                     <span className="text-yellow-600 dark:text-yellow-400 font-black text-sm">{(team.strategy![myMatch.currentRound-1].chips + opponentTeam.strategy![myMatch.currentRound-1].chips + (myMatch.carryOver||0))}억</span>
+                                     <span className="text-yellow-600 dark:text-yellow-400 font-black text-sm">{getCurrentPot(room, myMatch)}억</span>
                                  </div>
                                  <div className="text-gray-500 dark:text-gray-400 text-[10px]">Carry: {myMatch.carryOver || 0}</div>
                             </div>
@@ -1196,7 +1452,7 @@ const UserGameView = ({ room, teamId, onUpdate, isAdminMode, onBackToDash }: { r
                                 readOnly={true}
                                 currentRound={myMatch.roundStatus === 'FINISHED' ? undefined : myMatch.currentRound}
                                 blindMode={false}
-                                revealedHistory={myMatch.roundStatus === 'FINISHED' ? [1,2,3,4,5,6,7,8,9,10] : revealedRounds}
+                                revealedHistory={myMatch.roundStatus === 'FINISHED' ? allRounds : revealedRounds}
                             />
                         </div>
 
@@ -1234,13 +1490,30 @@ const UserGameView = ({ room, teamId, onUpdate, isAdminMode, onBackToDash }: { r
                                 <div className="text-center mt-3 text-xs text-gray-500 dark:text-gray-400">
                                     전체 {myMatch.history?.length || 0}라운드 완료 | 차이: {Math.abs((team.winnings || 0) - (opponentTeam.winnings || 0))}억
                                 </div>
+                                {hasFullLog(myMatch) && (
+                                    <div className="text-center mt-3">
+                                        <button onClick={() => setReplayOpen(true)} className="px-4 py-1.5 rounded-lg bg-indigo-600 text-white text-xs font-bold hover:bg-indigo-500">🎬 경기 다시보기</button>
+                                    </div>
+                                )}
                             </div>
                         )}
                     </div>
 
+                    {room.showOdds && myMatch.roundStatus === 'DECISION' && <OddsPanel room={room} teamId={teamId} />}
+
                     {/* Action Bar - Only during active game */}
                     {myMatch.roundStatus !== 'FINISHED' && (
-                        <div className="h-12 sm:h-14 bg-white/95 dark:bg-slate-800/95 backdrop-blur shrink-0 flex items-center justify-between px-2 gap-2 border-t border-slate-200 dark:border-slate-700 rounded-t-lg mt-1">
+                        <div className="relative h-12 sm:h-14 bg-white/95 dark:bg-slate-800/95 backdrop-blur shrink-0 flex items-center justify-between px-2 gap-2 border-t border-slate-200 dark:border-slate-700 rounded-t-lg mt-1">
+                            {/* Actions not yet confirmed by the server (services/actionQueue.ts) */}
+                            {pendingSync > 0 && (
+                                <span className="absolute -top-3 right-2 z-10 px-2 py-0.5 rounded-full bg-amber-500 text-white text-[10px] sm:text-xs font-bold shadow animate-pulse" title="연결이 돌아오면 자동으로 전송됩니다">⏳ 동기화 대기 {pendingSync}</span>
+                            )}
+                            {myMatch.deadline?.phase === 'DECISION' && (
+                                <span className="absolute -top-3 left-2 z-10"><PhaseTimer deadline={myMatch.deadline} showDefault={isMyTurn} /></span>
+                            )}
+                            {isPaused && (
+                                <span className="absolute -top-3 left-1/2 -translate-x-1/2 z-10 px-2 py-0.5 rounded-full bg-orange-600 text-white text-[10px] sm:text-xs font-bold shadow">⏸ 진행자가 경기를 일시정지했습니다</span>
+                            )}
                             <button onClick={handleAIHelp} className={`flex flex-col items-center justify-center w-10 sm:w-14 h-full text-[8px] sm:text-[10px] ${aiLoading ? 'opacity-50' : ''} ${(myMatch.aiHelps?.[teamId]||0) >= 3 ? 'grayscale opacity-50' : 'text-cyan-600 dark:text-cyan-400'}`}>
                                 <span className="text-base sm:text-xl">🤖</span>
                                 <span className="hidden sm:inline">AI 헬프 ({(3 - (myMatch.aiHelps?.[teamId]||0))})</span>
@@ -1248,8 +1521,8 @@ const UserGameView = ({ room, teamId, onUpdate, isAdminMode, onBackToDash }: { r
                             </button>
                             {isMyTurn && myMatch.roundStatus === 'DECISION' ? (
                                 <div className="flex-1 flex gap-2 h-9 sm:h-10">
-                                    <button onClick={handleFold} className="flex-1 bg-slate-600 hover:bg-slate-500 text-white rounded font-bold text-xs sm:text-sm">포기</button>
-                                    <button onClick={handleCall} className="flex-[2] bg-red-600 hover:bg-red-500 text-white rounded font-bold shadow-lg shadow-red-500/30 text-xs sm:text-sm">승부 (Call)</button>
+                                    <button onClick={handleFold} disabled={pendingSync > 0 || isPaused} className="flex-1 bg-slate-600 hover:bg-slate-500 text-white rounded font-bold text-xs sm:text-sm disabled:opacity-50">포기</button>
+                                    <button onClick={handleCall} disabled={pendingSync > 0 || isPaused} className="flex-[2] bg-red-600 hover:bg-red-500 text-white rounded font-bold shadow-lg shadow-red-500/30 text-xs sm:text-sm disabled:opacity-50">승부 (Call)</button>
                                 </div>
                             ) : (
                                 <div className="flex-1 text-center text-gray-500 text-xs flex items-center justify-center bg-slate-100 dark:bg-slate-900/50 h-9 sm:h-10 rounded">{myMatch.roundStatus === 'SHOWDOWN' ? '결과 확인 대기' : '대기 중...'}</div>
@@ -1348,6 +1621,10 @@ const UserGameView = ({ room, teamId, onUpdate, isAdminMode, onBackToDash }: { r
                             </div>
                         </div>
 
+                        {myMatch.deadline?.phase === 'RESULT' && !myMatch.resultConfirmed?.[teamId] && (
+                            <div className="flex justify-center mb-3"><PhaseTimer deadline={myMatch.deadline} showDefault /></div>
+                        )}
+
                         {/* Confirmation Status */}
                         <div className="flex justify-center gap-4 mb-4 text-xs">
                             <div className={`px-3 py-1 rounded-full ${myMatch.resultConfirmed?.[myMatch.teamAId] ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-500'}`}>
@@ -1398,7 +1675,7 @@ const UserGameView = ({ room, teamId, onUpdate, isAdminMode, onBackToDash }: { r
                                         <button 
                                             onClick={() => adjustTempChips(idx, -1)}
                                             className="w-full bg-red-600 hover:bg-red-500 text-white text-xs py-1 rounded disabled:opacity-50 disabled:cursor-not-allowed"
-                                            disabled={s.chips <= 1} // Min 1 chip rule
+                                            disabled={s.chips <= rules.minChipsPerRound} // Minimum bet rule
                                         >
                                             -1 억
                                         </button>
@@ -1434,6 +1711,8 @@ const UserGameView = ({ room, teamId, onUpdate, isAdminMode, onBackToDash }: { r
                      </div>
                  </div>
             )}
+
+            {replayOpen && myMatch && <MatchReplay room={room} matchId={myMatch.id} onClose={() => setReplayOpen(false)} />}
         </div>
     );
 };
@@ -1449,45 +1728,213 @@ const App: React.FC = () => {
     });
 
     const [view, setView] = useState<'LANDING' | 'ADMIN_LOGIN' | 'ADMIN_DASH' | 'USER_GAME'>('LANDING');
-    const [rooms, setRooms] = useState<Room[]>([]);
+    // Lists use the lightweight rooms index; only the open room is loaded in full
+    const [roomIndex, setRoomIndex] = useState<RoomSummary[]>([]);
+    const [openRoom, setOpenRoom] = useState<Room | null>(null);
     const [tab, setTab] = useState<'JOIN' | 'ADMIN'>('JOIN');
     
-    const [adminInput, setAdminInput] = useState('');
-    const [isAdminAuthenticated, setIsAdminAuthenticated] = useState(false);
+    const [adminEmail, setAdminEmail] = useState('');
+    const [adminPassword, setAdminPassword] = useState('');
+    const [adminUser, setAdminUser] = useState<AdminUser | null>(null);
+    const [authBusy, setAuthBusy] = useState(false);
     const [currentRoomId, setCurrentRoomId] = useState<string | null>(null);
     const [currentTeamId, setCurrentTeamId] = useState<string | null>(null);
     const [isAdminVisiting, setIsAdminVisiting] = useState(false);
 
     // Join Flow State
+    const [playerId, setPlayerId] = useState(getPlayerId);
+    const [pinInput, setPinInput] = useState('');
+    const [pinLookup, setPinLookup] = useState<{ pin: string; roomId: string | null } | null>(null);
     const [pendingTeamId, setPendingTeamId] = useState<string | null>(null);
     const [joinName, setJoinName] = useState('');
+    const [joinCodeInput, setJoinCodeInput] = useState('');
     const [showNameModal, setShowNameModal] = useState(false);
+    // ?pin=...&team=...&code=... from a scanned join sheet QR code, consumed once the room arrives
+    const [pendingJoinLink, setPendingJoinLink] = useState<{ pin: string; teamId: string; code: string } | null>(() => {
+        const params = new URLSearchParams(window.location.search);
+        const pin = params.get('pin');
+        return pin ? { pin, teamId: params.get('team') || '', code: params.get('code') || '' } : null;
+    });
 
-    useEffect(() => {
-        // Subscribe to real-time updates from Firebase
-        // This will sync data across all devices (PC admin + mobile users)
-        const unsubscribe = subscribeToRooms((updatedRooms) => {
-            setRooms(Array.isArray(updatedRooms) ? updatedRooms : []);
-        });
-
-        // Safe localStorage access
-        try {
-            const storedAuth = localStorage.getItem('swot_admin_auth');
-            if (storedAuth === 'true') setIsAdminAuthenticated(true);
-        } catch {
-            // localStorage not available
-        }
+    // Reconnect: the saved session puts the player back into their match once rooms arrive
+    const [indexLoaded, setIndexLoaded] = useState(false);
+    const [sessionToRestore, setSessionToRestore] = useState(loadPlayerSession);
+    const [resumeNotice, setResumeNotice] = useState<string | null>(null);
+    const [connection, setConnection] = useState<ConnectionStatus>('CONNECTING');
 
+    useEffect(() => {
         // Show connection status
-        if (isFirebaseConfigured()) {
+        if (isRefereeConfigured()) {
+            console.log('🎲 심판 서버 모드 - 상대 카드는 라운드 공개 전까지 전송되지 않음');
+        } else if (roomStore.kind === 'FIREBASE') {
             console.log('🔥 Firebase 실시간 동기화 활성화됨');
+        } else if (roomStore.kind === 'SOCKET') {
+            console.log('🔌 로컬 룸 서버 동기화 활성화됨');
+        } else if (roomStore.kind === 'MEMORY') {
+            console.log('🧪 메모리 모드 - 새로고침하면 게임방이 사라집니다');
         } else {
             console.log('⚠️ Firebase 미설정 - localStorage 모드 (같은 브라우저에서만 동기화)');
         }
+    }, []);
 
-        return () => unsubscribe();
+    // Signing out (here or in another tab) leaves the dashboard
+    useEffect(() => subscribeToAdmin(user => {
+        setAdminUser(user);
+        if (!user) setView(v => v === 'ADMIN_DASH' ? 'LANDING' : v);
+    }), []);
+
+    // With Firebase the player id is the auth uid the database rules check; the referee issues its own keys
+    useEffect(() => isRefereeConfigured() ? undefined : subscribeToPlayerId(setPlayerId), []);
+
+    // The referee redacts per viewer, so resubscribe whenever the viewing team changes
+    const refereeViewerId = isRefereeConfigured() && view === 'USER_GAME' ? currentTeamId : null;
+    useEffect(() => {
+        if (!isRefereeConfigured()) return;
+        return subscribeToRefereeRooms(refereeViewerId, (updatedRooms) => {
+            setRoomIndex(updatedRooms.map(toRoomSummary));
+            setIndexLoaded(true);
+            setOpenRoom(updatedRooms.find(r => r.id === currentRoomId) || null);
+        }, setConnection);
+    }, [refereeViewerId, currentRoomId]);
+
+    useEffect(() => {
+        if (isRefereeConfigured()) return;
+        return roomStore.subscribeToIndex((summaries) => {
+            setRoomIndex(summaries);
+            setIndexLoaded(true);
+        });
+    }, []);
+
+    // Firebase only lets a room's owner and players read it, so joining (or signing in) subscribes again
+    useEffect(() => {
+        if (isRefereeConfigured()) return;
+        setOpenRoom(null);
+        if (!currentRoomId) return;
+        return roomStore.subscribeToRoom(currentRoomId, setOpenRoom);
+    }, [currentRoomId, currentTeamId, playerId]);
+
+    // Rooms saved before the index existed show up once a facilitator opens the dashboard
+    const onDashboard = view === 'ADMIN_DASH' && Boolean(adminUser);
+    useEffect(() => {
+        if (onDashboard && !isRefereeConfigured()) roomStore.rebuildIndex();
+    }, [onDashboard]);
+
+    // Ignore a room still loaded from before the selection changed. Actions
+    // still queued are shown on top of the latest server copy (the referee
+    // alone knows both teams' cards, so there they wait for its answer).
+    const [pendingActions, setPendingActions] = useState<QueuedAction[]>([]);
+    useEffect(() => actionQueue.subscribe(setPendingActions), []);
+    const currentRoom = useMemo(() => {
+        if (!openRoom || openRoom.id !== currentRoomId) return null;
+        if (isRefereeConfigured()) return openRoom;
+        return pendingActions.filter(e => e.roomId === openRoom.id).reduce(applyQueuedAction, openRoom);
+    }, [openRoom, currentRoomId, pendingActions]);
+
+    useEffect(() => {
+        if (isRefereeConfigured()) return;
+        return roomStore.subscribeToConnection(setConnection);
     }, []);
 
+    // Back online: send queued actions now rather than after their backoff
+    useEffect(() => {
+        if (connection === 'CONNECTED') actionQueue.retryNow();
+    }, [connection]);
+
+    useEffect(() => {
+        if (isRefereeConfigured()) return;
+        return roomStore.subscribeToServerTimeOffset?.(setServerTimeOffset);
+    }, []);
+
+    // Without a referee, whichever browser has the room open (with an inbox:
+    // the owner's) applies a timed-out phase's default action
+    // (services/timers.ts); the transaction lets one through
+    const nextTimeout = openRoom && openRoom.id === currentRoomId && !isRefereeConfigured() && !usesInbox(openRoom, adminUser?.uid)
+        ? getNextTimeout(openRoom) : null;
+    useEffect(() => {
+        if (nextTimeout === null || !currentRoomId) return;
+        const timer = setTimeout(() => {
+            roomStore.transaction(currentRoomId, r => resolveTimeouts(r)).catch(error => console.warn('Could not apply timeouts:', error));
+        }, Math.max(0, nextTimeout - serverNow()) + TIMEOUT_GRACE_MS);
+        return () => clearTimeout(timer);
+    }, [nextTimeout, currentRoomId]);
+
+    // With an inbox the owner's browser referees: it applies the players'
+    // actions in order and copies the names of players who joined into
+    // their teams, so the room stays open on the facilitator's dashboard
+    const refereesInbox = Boolean(roomStore.subscribeToActions && adminUser && openRoom?.id === currentRoomId && openRoom?.ownerId === adminUser.uid);
+    useEffect(() => {
+        if (!refereesInbox || !currentRoomId) return;
+        const taken = new Set<string>();
+        let applying = Promise.resolve();
+        return roomStore.subscribeToActions!(currentRoomId, actions => {
+            actions.filter(a => !taken.has(a.id)).forEach(a => {
+                taken.add(a.id);
+                applying = applying
+                    .then(() => roomStore.transaction(currentRoomId, room => applyQueuedAction(room, { ...a, queuedAt: a.at })))
+                    .then(() => roomStore.removeAction!(currentRoomId, a))
+                    .catch(error => {
+                        console.warn('Could not apply a player action:', error);
+                        taken.delete(a.id);
+                    });
+            });
+        });
+    }, [refereesInbox, currentRoomId]);
+
+    useEffect(() => {
+        if (!refereesInbox || !openRoom || withJoinedMembers(openRoom) === openRoom) return;
+        roomStore.transaction(openRoom.id, withJoinedMembers).catch(error => console.warn('Could not add joined players:', error));
+    }, [refereesInbox, openRoom]);
+
+    useEffect(() => {
+        if (!sessionToRestore || !indexLoaded) return;
+        setSessionToRestore(null);
+        // A scanned join link wins over the previous session
+        if (pendingJoinLink || view !== 'LANDING') return;
+        const room = roomIndex.find(r => r.id === sessionToRestore.roomId);
+        const team = room?.teams.find(t => t.id === sessionToRestore.teamId);
+        if (!room || !team || room.status === 'FINISHED') { clearPlayerSession(); return; }
+        setCurrentRoomId(room.id);
+        setCurrentTeamId(team.id);
+        setIsAdminVisiting(false);
+        setView('USER_GAME');
+        setResumeNotice(`🔄 ${room.name} · ${team.name}(으)로 다시 연결되었습니다`);
+    }, [indexLoaded, sessionToRestore]);
+
+    useEffect(() => {
+        if (!resumeNotice) return;
+        const timer = setTimeout(() => setResumeNotice(null), 4000);
+        return () => clearTimeout(timer);
+    }, [resumeNotice]);
+
+    useEffect(() => {
+        if (pinInput.length < 6) return;
+        let cancelled = false;
+        findRoomIdByPin(pinInput)
+            .then(roomId => { if (!cancelled) setPinLookup({ pin: pinInput, roomId }); })
+            .catch(error => console.error('PIN lookup failed:', error));
+        return () => { cancelled = true; };
+    }, [pinInput]);
+    const pinRoomId = pinLookup?.pin === pinInput ? pinLookup.roomId : null;
+
+    useEffect(() => {
+        if (!pendingJoinLink || !indexLoaded) return;
+        let cancelled = false;
+        findRoomIdByPin(pendingJoinLink.pin).then(roomId => {
+            const room = roomIndex.find(r => r.id === roomId);
+            if (cancelled || !room) return;
+            const team = room.teams.find(t => t.id === pendingJoinLink.teamId);
+            setPendingJoinLink(null);
+            window.history.replaceState(null, '', window.location.pathname);
+            setTab('JOIN');
+            setPinInput(pendingJoinLink.pin);
+            if (team) handleJoinClick(room.id, team.id, pendingJoinLink.code);
+        }).catch(error => console.error('PIN lookup failed:', error));
+        return () => { cancelled = true; };
+    }, [indexLoaded, pendingJoinLink]);
+
+    // Players act as themselves; an admin visiting a team acts as the room owner
+    const actorId = isAdminVisiting && adminUser ? adminUser.uid : playerId;
+
     useEffect(() => {
         if (darkMode) {
             document.documentElement.classList.add('dark');
@@ -1496,39 +1943,90 @@ const App: React.FC = () => {
         }
     }, [darkMode]);
 
-    const updateRoom = (updatedRoom: Room) => {
-        const newRooms = rooms.map(r => r.id === updatedRoom.id ? updatedRoom : r);
-        setRooms(newRooms);
-        saveRooms(newRooms);
+    // Admin edits: only what changed is sent and merged into the latest copy
+    // (services/adminEdits.ts), so teams acting at the same moment keep their
+    // moves. Bot teams react right away (the referee server does this on its side).
+    const updateRoom = (edited: Room) => {
+        const current = currentRoom?.id === edited.id ? currentRoom : null;
+        setOpenRoom(prev => prev?.id === edited.id ? (isRefereeConfigured() ? edited : runAutomaticActions(edited)) : prev);
+        if (!current) return;
+        const edit = diffAdminEdit(current, edited);
+        if (isEmptyAdminEdit(edit)) return;
+        const saved = isRefereeConfigured()
+            ? patchRoomInReferee(edited.id, edit)
+            : roomStore.transaction(edited.id, r => {
+                const next = applyAdminEdit(r, edit);
+                return next === r ? r : runAutomaticActions(next);
+            });
+        saved.catch(error => {
+            console.error('Admin edit not saved:', error);
+            alert("변경 사항을 저장하지 못했습니다. 연결을 확인한 뒤 다시 시도해주세요.");
+        });
+    };
+
+    // Game actions: queued with the match state they were taken in, shown
+    // right away, then re-applied on the latest server copy inside a
+    // transaction so concurrent teams don't clobber each other
+    const dispatchAction = (roomId: string, action: GameAction, actor: string = actorId) => {
+        if (currentRoom?.id !== roomId) return;
+        actionQueue.enqueue({ roomId, actorId: actor, action, context: getActionContext(currentRoom, action), inbox: usesInbox(currentRoom, actor) });
+    };
+
+    // Admin rollback of a match: on the referee, or in a transaction on the latest copy
+    const rollbackRound = (roomId: string, matchId: string, round: number) => {
+        const done = isRefereeConfigured()
+            ? rollbackMatchOnReferee(roomId, currentRoom?.matches.findIndex(m => m.id === matchId) ?? -1, round)
+            : roomStore.transaction(roomId, r => {
+                const rolledBack = rollbackMatch(r, matchId, round, { actorId: adminUser?.uid, at: Date.now() });
+                return rolledBack === r ? r : runAutomaticActions(rolledBack);
+            }).then(Boolean);
+        done.then(ok => { if (!ok) alert("되돌릴 수 없는 상태입니다. 최신 화면에서 다시 시도해주세요."); })
+            .catch(() => alert("서버에 연결할 수 없어 되돌리지 못했습니다."));
+    };
+
+    const patchMatch = (roomId: string, matchIdx: number, patch: Record<string, unknown>) => {
+        const saved = isRefereeConfigured() ? patchMatchInReferee(roomId, matchIdx, patch) : roomStore.patchMatch(roomId, matchIdx, patch);
+        saved.catch(error => console.error('Match update not saved:', error));
     };
 
     const deleteRoom = (roomId: string) => {
+        const room = roomIndex.find(r => r.id === roomId);
+        if (room && !canManageRoom(room, adminUser)) { alert("이 게임방의 관리자만 삭제할 수 있습니다."); return; }
         if (window.confirm("정말로 이 게임방을 삭제하시겠습니까? 복구할 수 없습니다.")) {
-            const newRooms = rooms.filter(r => r.id !== roomId);
-            setRooms(newRooms);
-            saveRooms(newRooms);
+            setRoomIndex(prev => prev.filter(r => r.id !== roomId));
+            const removed = isRefereeConfigured() ? deleteRoomFromReferee(roomId) : roomStore.remove(roomId);
+            removed.catch(error => {
+                console.error('Room not deleted:', error);
+                alert("게임방을 삭제하지 못했습니다. 이 방을 만든 브라우저에서 다시 시도해주세요.");
+            });
+            removeRoomImages(roomId);
             if(currentRoomId === roomId) setCurrentRoomId(null);
         }
     };
 
-    const handleAdminLogin = () => {
-        if(adminInput === ADMIN_PW) {
-            setIsAdminAuthenticated(true);
-            try { localStorage.setItem('swot_admin_auth', 'true'); } catch {}
+    const handleAdminAuth = async (mode: 'LOGIN' | 'REGISTER') => {
+        if (authBusy) return;
+        setAuthBusy(true);
+        try {
+            const user = mode === 'LOGIN' ? await signInAdmin(adminEmail, adminPassword) : await registerAdmin(adminEmail, adminPassword);
+            setAdminUser(user);
+            setAdminPassword('');
             setView('ADMIN_DASH');
-        } else {
-            alert('비밀번호가 틀렸습니다.');
+        } catch (e) {
+            alert(e instanceof Error ? e.message : '로그인에 실패했습니다.');
         }
+        setAuthBusy(false);
     };
 
-    const handleAdminLogout = () => {
-        try { localStorage.removeItem('swot_admin_auth'); } catch {}
-        setIsAdminAuthenticated(false);
-        setAdminInput('');
+    const handleAdminLogout = async () => {
+        await signOutAdmin();
+        setAdminUser(null);
+        setCurrentRoomId(null);
         setView('LANDING');
     };
 
-    const createRoom = (name: string, teamCount: number) => {
+    const createRoom = (name: string, teamCount: number, rules: RuleSet) => {
+        if (!adminUser) return;
         const newTeams: Team[] = Array.from({ length: teamCount }, (_, i) => ({
             id: `t_${Date.now()}_${i}`,
             name: `Team ${i+1}`,
@@ -1536,66 +2034,70 @@ const App: React.FC = () => {
             isReady: false,
             score: 0,
             winnings: 0,
-            members: []
+            members: [],
+            joinCode: generateJoinCode()
         }));
 
         const newRoom: Room = {
+            schemaVersion: CURRENT_SCHEMA_VERSION,
             id: `r_${Date.now()}`,
             name,
             totalTeams: teamCount,
             currentRound: 1,
             status: 'PREPARING',
             teams: newTeams,
-            matches: []
+            matches: [],
+            rules,
+            ownerId: adminUser.uid,
+            pin: generatePin()
         };
         newRoom.teams.forEach(t => t.roomId = newRoom.id);
-        const updatedRooms = [...rooms, newRoom];
-        setRooms(updatedRooms);
-        saveRooms(updatedRooms);
+        setRoomIndex(prev => [...prev, toRoomSummary(newRoom)]);
+        const created = isRefereeConfigured() ? saveRoomToReferee(newRoom) : roomStore.save(newRoom);
+        created.catch(error => {
+            console.error('Room not created:', error);
+            alert("게임방을 만들지 못했습니다. 서버 연결을 확인한 뒤 다시 시도해주세요.");
+            setRoomIndex(prev => prev.filter(r => r.id !== newRoom.id));
+            setCurrentRoomId(prev => prev === newRoom.id ? null : prev);
+        });
         setCurrentRoomId(newRoom.id);
         setView('ADMIN_DASH');
     };
 
-    const handleJoinClick = (roomId: string, teamId: string) => {
+    const handleJoinClick = (roomId: string, teamId: string, code = '') => {
         setPendingTeamId(teamId);
         setCurrentRoomId(roomId);
+        setJoinCodeInput(code);
 
         // Check for existing session for this room/team
-        let defaultName = '';
-        try {
-            const session = localStorage.getItem('swot_user_session');
-            if (session) {
-                const parsed = JSON.parse(session);
-                if (parsed.roomId === roomId && parsed.teamId === teamId) {
-                    defaultName = parsed.userName;
-                }
-            }
-        } catch {}
-        setJoinName(defaultName);
+        const session = loadPlayerSession();
+        setJoinName(session?.roomId === roomId && session.teamId === teamId ? session.userName : '');
         setShowNameModal(true);
     };
 
-    const confirmJoin = () => {
+    const confirmJoin = async () => {
         if (!joinName.trim()) { alert("이름을 입력해주세요."); return; }
         if (!currentRoomId || !pendingTeamId) return;
 
-        const room = rooms.find(r => r.id === currentRoomId);
-        if (!room) return;
-        
-        const team = room.teams.find(t => t.id === pendingTeamId);
+        // A room can only be read once joined, so the team comes from the index
+        const team = roomIndex.find(r => r.id === currentRoomId)?.teams.find(t => t.id === pendingTeamId);
         if (!team) return;
 
-        // Add member if not exists
-        let updatedTeam = team;
-        if (!team.members?.includes(joinName)) {
-             updatedTeam = { ...team, members: [...(team.members || []), joinName] };
-             const updatedRooms = rooms.map(r => r.id === currentRoomId ? { ...r, teams: r.teams.map(t => t.id === team.id ? updatedTeam : t) } : r);
-             setRooms(updatedRooms);
-             saveRooms(updatedRooms);
+        // Register this player on the team (transaction: teammates often join at the same moment).
+        // The code is checked where it is kept: the referee, the database rules or the store.
+        try {
+            const accepted = isRefereeConfigured()
+                ? await joinTeamOnReferee(currentRoomId, team.id, joinName, playerId, joinCodeInput)
+                : await roomStore.joinTeam(currentRoomId, team.id, joinCodeInput, playerId, joinName);
+            if (!accepted) { alert("팀 코드가 올바르지 않습니다."); return; }
+        } catch (error) {
+            console.error('Join failed:', error);
+            alert("팀에 참가하지 못했습니다. 연결을 확인한 뒤 다시 시도해주세요.");
+            return;
         }
 
         // Save session
-        try { localStorage.setItem('swot_user_session', JSON.stringify({ roomId: currentRoomId, teamId: pendingTeamId, userName: joinName })); } catch {}
+        savePlayerSession({ roomId: currentRoomId, teamId: pendingTeamId, userName: joinName, playerId });
 
         setCurrentTeamId(pendingTeamId);
         setIsAdminVisiting(false);
@@ -1621,8 +2123,16 @@ const App: React.FC = () => {
                         <div className="flex-1 bg-white/70 dark:bg-slate-900/50 backdrop-blur-md rounded-2xl border border-slate-200 dark:border-slate-800 shadow-2xl p-1 overflow-hidden flex flex-col">
                             {tab === 'JOIN' ? (
                                 <div className="flex-1 overflow-y-auto p-4 space-y-3">
+                                    <input
+                                        inputMode="numeric"
+                                        className="w-full bg-white dark:bg-slate-950 border border-slate-300 dark:border-slate-700 rounded-lg px-4 py-3 text-center text-lg tracking-[0.5em] font-bold text-slate-900 dark:text-white outline-none focus:border-indigo-500"
+                                        placeholder="방 PIN"
+                                        value={pinInput}
+                                        onChange={e => setPinInput(e.target.value.replace(/\D/g, ''))}
+                                    />
                                     <div className="text-center text-xs text-gray-500 mb-2 uppercase tracking-wider font-bold">Open Rooms</div>
-                                    {rooms.filter(r => r.status !== 'FINISHED').map(room => (
+                                    {/* Rooms with a PIN only show up once it is entered; older rooms stay listed */}
+                                    {roomIndex.filter(r => r.status !== 'FINISHED' && (!r.hasPin || r.id === pinRoomId)).map(room => (
                                         <div key={room.id} className="bg-white/80 dark:bg-slate-800/80 rounded-xl p-4 border border-slate-200 dark:border-slate-700 hover:border-indigo-500/50 transition-all group shadow-sm">
                                             <div className="flex justify-between items-center mb-3">
                                                 <h3 className="font-bold text-slate-800 dark:text-white group-hover:text-indigo-600 dark:group-hover:text-indigo-400 transition-colors">{room.name}</h3>
@@ -1633,28 +2143,33 @@ const App: React.FC = () => {
                                                     <button 
                                                         key={team.id}
                                                         onClick={() => handleJoinClick(room.id, team.id)}
-                                                        className={`text-xs p-2 rounded text-center truncate transition-colors ${team.isReady ? 'bg-slate-200 dark:bg-slate-700 text-slate-600 dark:text-white' : 'bg-indigo-600 hover:bg-indigo-500 text-white'}`}
+                                                        disabled={Boolean(team.bot)}
+                                                        className={`text-xs p-2 rounded text-center truncate transition-colors ${team.bot ? 'bg-slate-200 dark:bg-slate-700 text-slate-400 cursor-not-allowed' : team.isReady ? 'bg-slate-200 dark:bg-slate-700 text-slate-600 dark:text-white' : 'bg-indigo-600 hover:bg-indigo-500 text-white'}`}
                                                     >
-                                                        {team.name} {team.isReady && "✓"}
+                                                        {team.bot && "🤖 "}{team.name} {team.isReady && "✓"}
                                                     </button>
                                                 ))}
                                             </div>
                                         </div>
                                     ))}
-                                    {rooms.length === 0 && <div className="text-center p-4 text-gray-500">개설된 방이 없습니다.</div>}
+                                    {pinInput.length >= 6 && pinLookup?.pin === pinInput && !pinRoomId && <div className="text-center p-4 text-gray-500">해당 PIN의 방이 없습니다.</div>}
+                                    {pinInput.length < 6 && !roomIndex.some(r => !r.hasPin && r.status !== 'FINISHED') && <div className="text-center p-4 text-gray-500">진행자에게 받은 방 PIN을 입력하세요.</div>}
                                 </div>
                             ) : (
                                 <div className="flex-1 p-6 flex flex-col justify-center">
-                                    {isAdminAuthenticated ? (
+                                    {adminUser ? (
                                         <div className="text-center">
-                                            <h3 className="text-slate-900 dark:text-white font-bold text-lg mb-4">관리자 로그인 완료</h3>
+                                            <h3 className="text-slate-900 dark:text-white font-bold text-lg mb-1">관리자 로그인 완료</h3>
+                                            <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">{adminUser.email}</p>
                                             <button onClick={() => setView('ADMIN_DASH')} className="w-full py-3 bg-indigo-600 text-white rounded-lg font-bold hover:bg-indigo-500 transition-all">대시보드 입장</button>
                                         </div>
                                     ) : (
-                                        <div className="space-y-4">
-                                            <input type="password" className="w-full bg-white dark:bg-slate-950 border border-slate-300 dark:border-slate-700 rounded-lg px-4 py-3 text-slate-900 dark:text-white outline-none" placeholder="관리자 비밀번호" value={adminInput} onChange={e => setAdminInput(e.target.value)} />
-                                            <button onClick={handleAdminLogin} className="w-full py-3 bg-indigo-600 text-white rounded-lg font-bold">Login</button>
-                                        </div>
+                                        <form onSubmit={(e) => { e.preventDefault(); handleAdminAuth('LOGIN'); }} className="space-y-4">
+                                            <input type="email" autoComplete="username" className="w-full bg-white dark:bg-slate-950 border border-slate-300 dark:border-slate-700 rounded-lg px-4 py-3 text-slate-900 dark:text-white outline-none" placeholder="관리자 이메일" value={adminEmail} onChange={e => setAdminEmail(e.target.value)} />
+                                            <input type="password" autoComplete="current-password" className="w-full bg-white dark:bg-slate-950 border border-slate-300 dark:border-slate-700 rounded-lg px-4 py-3 text-slate-900 dark:text-white outline-none" placeholder="비밀번호" value={adminPassword} onChange={e => setAdminPassword(e.target.value)} />
+                                            <button type="submit" disabled={authBusy} className={`w-full py-3 bg-indigo-600 text-white rounded-lg font-bold ${authBusy ? 'opacity-50' : ''}`}>Login</button>
+                                            <button type="button" disabled={authBusy} onClick={() => handleAdminAuth('REGISTER')} className="w-full py-2 text-sm text-indigo-600 dark:text-indigo-400 hover:underline">관리자 계정 만들기</button>
+                                        </form>
                                     )}
                                 </div>
                             )}
@@ -1673,6 +2188,14 @@ const App: React.FC = () => {
                                     onChange={e => setJoinName(e.target.value)}
                                     autoFocus
                                 />
+                                {roomIndex.find(r => r.id === currentRoomId)?.hasPin && (
+                                    <input
+                                        className="w-full bg-slate-50 dark:bg-slate-950 border border-slate-300 dark:border-slate-700 rounded-lg px-4 py-3 text-slate-900 dark:text-white mb-4 focus:border-indigo-500 outline-none uppercase tracking-widest"
+                                        placeholder="팀 코드 (6자리)"
+                                        value={joinCodeInput}
+                                        onChange={e => setJoinCodeInput(e.target.value)}
+                                    />
+                                )}
                                 <div className="flex gap-2">
                                     <button onClick={() => setShowNameModal(false)} className="flex-1 py-3 bg-slate-200 dark:bg-slate-800 text-slate-600 dark:text-gray-400 rounded-lg font-bold">취소</button>
                                     <button onClick={confirmJoin} className="flex-1 py-3 bg-indigo-600 text-white rounded-lg font-bold">입장하기</button>
@@ -1684,16 +2207,20 @@ const App: React.FC = () => {
             );
         }
 
-        if (view === 'ADMIN_DASH') {
+        if (view === 'ADMIN_DASH' && adminUser) {
+            const myRooms = roomIndex.filter(r => canManageRoom(r, adminUser));
             if (currentRoomId) {
-                const room = rooms.find(r => r.id === currentRoomId);
-                if (!room) return <div className="p-10 text-slate-900 dark:text-white">Room not found</div>;
-                return <AdminDashboard room={room} onUpdate={updateRoom} onBack={() => setCurrentRoomId(null)} onEnterTeam={(teamId) => { setCurrentTeamId(teamId); setIsAdminVisiting(true); setView('USER_GAME'); }} onDelete={deleteRoom} />;
+                const room = currentRoom && canManageRoom(currentRoom, adminUser) ? currentRoom : null;
+                if (!room) return <div className="p-10 text-slate-900 dark:text-white">{myRooms.some(r => r.id === currentRoomId) ? 'Loading...' : 'Room not found'}</div>;
+                return <AdminDashboard room={room} onUpdate={updateRoom} onBack={() => setCurrentRoomId(null)} onEnterTeam={(teamId) => { setCurrentTeamId(teamId); setIsAdminVisiting(true); setView('USER_GAME'); }} onDelete={deleteRoom} onRollback={(matchId, round) => rollbackRound(room.id, matchId, round)} onAction={(action) => dispatchAction(room.id, action, adminUser.uid)} />;
             }
             return (
                 <div className="max-w-4xl mx-auto p-4 mt-8 animate-fade-in pb-20 relative z-10">
                     <div className="flex justify-between items-center mb-8">
-                        <h2 className="text-2xl font-bold text-slate-900 dark:text-white">게임방 관리</h2>
+                        <div>
+                            <h2 className="text-2xl font-bold text-slate-900 dark:text-white">게임방 관리</h2>
+                            <p className="text-xs text-gray-500 dark:text-gray-400">{adminUser.email}</p>
+                        </div>
                         <div className="flex gap-2">
                             <button onClick={() => setView('LANDING')} className="text-sm border border-slate-300 dark:border-slate-700 text-slate-900 dark:text-white px-4 py-2 rounded bg-white/50 dark:bg-slate-900/50">메인으로</button>
                             <button onClick={handleAdminLogout} className="text-sm border border-red-400 text-red-500 hover:bg-red-500 hover:text-white px-4 py-2 rounded bg-white/50 dark:bg-slate-900/50 transition-colors">로그아웃</button>
@@ -1706,27 +2233,88 @@ const App: React.FC = () => {
                             const form = e.target as HTMLFormElement;
                             const name = (form.elements.namedItem('roomName') as HTMLInputElement).value;
                             const teams = parseInt((form.elements.namedItem('teamCount') as HTMLSelectElement).value);
-                            createRoom(name, teams);
+                            const field = (key: string) => (form.elements.namedItem(key) as HTMLInputElement | HTMLSelectElement).value;
+                            const seconds = (key: string) => field(key) === '' ? undefined : parseInt(field(key));
+                            const timers = { preparation: seconds('prepSeconds'), decision: seconds('decisionSeconds'), result: seconds('resultSeconds') };
+                            const rules: RuleSet = {
+                                rounds: parseInt(field('rounds')),
+                                chips: parseInt(field('chips')),
+                                deck: field('deck').split(',').map(c => c.trim()).filter(Boolean).map(Number).sort((a, b) => a - b),
+                                minChipsPerRound: parseInt(field('minChips')),
+                                byeChips: field('byeChips') === '' ? undefined : parseInt(field('byeChips')),
+                                timers: Object.values(timers).some(Boolean) ? timers : undefined
+                            };
+                            if (rules.deck.some(isNaN)) { alert("덱은 쉼표로 구분된 숫자로 입력해주세요."); return; }
+                            const ruleError = validateRuleSet(rules);
+                            if (ruleError) { alert(ruleError); return; }
+                            createRoom(name, teams, rules);
                             form.reset();
-                        }} className="flex flex-col md:flex-row gap-4 items-end">
-                            <div className="flex-1 w-full">
-                                <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">방 이름</label>
-                                <input name="roomName" required className="w-full bg-slate-50 dark:bg-slate-900 border border-slate-300 dark:border-slate-700 rounded-lg px-3 py-2 text-slate-900 dark:text-white outline-none" placeholder="예: 1반 전략게임" />
+                        }} className="space-y-4">
+                            <div className="flex flex-col md:flex-row gap-4 items-end">
+                                <div className="flex-1 w-full">
+                                    <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">방 이름</label>
+                                    <input name="roomName" required className="w-full bg-slate-50 dark:bg-slate-900 border border-slate-300 dark:border-slate-700 rounded-lg px-3 py-2 text-slate-900 dark:text-white outline-none" placeholder="예: 1반 전략게임" />
+                                </div>
+                                <div className="w-full md:w-32">
+                                    <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">팀 수 (홀수는 부전승)</label>
+                                    <select name="teamCount" className="w-full bg-slate-50 dark:bg-slate-900 border border-slate-300 dark:border-slate-700 rounded-lg px-3 py-2 text-slate-900 dark:text-white outline-none">
+                                        {Array.from({ length: 19 }, (_, i) => i + 2).map(n => <option key={n} value={n}>{n}팀</option>)}
+                                    </select>
+                                </div>
+                                <button type="submit" className="px-6 py-2 bg-gradient-to-r from-indigo-600 to-purple-600 text-white rounded-lg font-bold">생성</button>
+                            </div>
+                            {/* Rule Set */}
+                            <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                                <div>
+                                    <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">라운드 수</label>
+                                    <select name="rounds" defaultValue={DEFAULT_RULE_SET.rounds} className="w-full bg-slate-50 dark:bg-slate-900 border border-slate-300 dark:border-slate-700 rounded-lg px-3 py-2 text-slate-900 dark:text-white outline-none">
+                                        {[5, 7, 10].map(n => <option key={n} value={n}>{n}라운드</option>)}
+                                    </select>
+                                </div>
+                                <div>
+                                    <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">자본금 (억)</label>
+                                    <input name="chips" type="number" min={1} defaultValue={DEFAULT_RULE_SET.chips} className="w-full bg-slate-50 dark:bg-slate-900 border border-slate-300 dark:border-slate-700 rounded-lg px-3 py-2 text-slate-900 dark:text-white outline-none" />
+                                </div>
+                                <div>
+                                    <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">덱 (쉼표 구분)</label>
+                                    <input name="deck" defaultValue={DEFAULT_RULE_SET.deck.join(',')} className="w-full bg-slate-50 dark:bg-slate-900 border border-slate-300 dark:border-slate-700 rounded-lg px-3 py-2 text-slate-900 dark:text-white outline-none" />
+                                </div>
+                                <div>
+                                    <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">라운드별 최소 배팅</label>
+                                    <select name="minChips" defaultValue={DEFAULT_RULE_SET.minChipsPerRound} className="w-full bg-slate-50 dark:bg-slate-900 border border-slate-300 dark:border-slate-700 rounded-lg px-3 py-2 text-slate-900 dark:text-white outline-none">
+                                        {[1, 2, 3].map(n => <option key={n} value={n}>{n}억</option>)}
+                                    </select>
+                                </div>
+                                <div>
+                                    <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">부전승 상금 (억)</label>
+                                    <input name="byeChips" type="number" min={0} placeholder="자본금과 동일" className="w-full bg-slate-50 dark:bg-slate-900 border border-slate-300 dark:border-slate-700 rounded-lg px-3 py-2 text-slate-900 dark:text-white outline-none" />
+                                </div>
                             </div>
-                            <div className="w-full md:w-32">
-                                <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">팀 수 (짝수)</label>
-                                <select name="teamCount" className="w-full bg-slate-50 dark:bg-slate-900 border border-slate-300 dark:border-slate-700 rounded-lg px-3 py-2 text-slate-900 dark:text-white outline-none">
-                                    {[2, 4, 6, 8, 10, 12, 14, 16, 18, 20].map(n => <option key={n} value={n}>{n}팀</option>)}
-                                </select>
+                            {/* Phase timers (services/timers.ts); empty = no clock */}
+                            <div className="grid grid-cols-3 gap-4">
+                                {[
+                                    { name: 'prepSeconds', label: '전략 준비 시간 (초)', hint: '초과 시 자동 배치' },
+                                    { name: 'decisionSeconds', label: '결정 시간 (초)', hint: '초과 시 자동 포기' },
+                                    { name: 'resultSeconds', label: '결과 확인 시간 (초)', hint: '초과 시 자동 확인' }
+                                ].map(t => (
+                                    <div key={t.name}>
+                                        <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">{t.label}</label>
+                                        <input name={t.name} type="number" min={0} placeholder="제한 없음" title={t.hint} className="w-full bg-slate-50 dark:bg-slate-900 border border-slate-300 dark:border-slate-700 rounded-lg px-3 py-2 text-slate-900 dark:text-white outline-none" />
+                                    </div>
+                                ))}
                             </div>
-                            <button type="submit" className="px-6 py-2 bg-gradient-to-r from-indigo-600 to-purple-600 text-white rounded-lg font-bold">생성</button>
                         </form>
                     </div>
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                        {rooms.map(room => (
+                        {myRooms.map(room => (
                             <div key={room.id} className="relative group p-5 bg-white/80 dark:bg-slate-800/80 rounded-xl border border-slate-300 dark:border-slate-700 hover:border-indigo-500 transition-all cursor-pointer shadow-sm backdrop-blur-sm" onClick={() => setCurrentRoomId(room.id)}>
-                                <div className="font-bold text-lg text-slate-900 dark:text-white flex justify-between">{room.name} <span className="text-xs bg-slate-200 dark:bg-slate-700 px-2 py-1 rounded">{room.status}</span></div>
-                                <div className="text-sm text-gray-500 dark:text-gray-400 mt-2">Teams: {room.teams.length}</div>
+                                <div className="flex gap-3">
+                                    {room.posterThumbnailUrl && <img src={room.posterThumbnailUrl} alt="우승 포스터" className="h-16 w-12 object-cover rounded border border-yellow-500" />}
+                                    <div className="flex-1">
+                                        <div className="font-bold text-lg text-slate-900 dark:text-white flex justify-between">{room.name} <span className="text-xs bg-slate-200 dark:bg-slate-700 px-2 py-1 rounded">{room.status}</span></div>
+                                        <div className="text-sm text-gray-500 dark:text-gray-400 mt-2">Teams: {room.teams.length}{!room.ownerId && ' · 공용 (소유자 없음)'}</div>
+                                    </div>
+                                </div>
                                 <button onClick={(e) => { e.stopPropagation(); deleteRoom(room.id); }} className="absolute top-4 right-4 text-gray-400 hover:text-red-500" title="방 삭제">🗑</button>
                             </div>
                         ))}
@@ -1736,10 +2324,10 @@ const App: React.FC = () => {
         }
 
         if (view === 'USER_GAME' && currentRoomId && currentTeamId) {
-            const room = rooms.find(r => r.id === currentRoomId);
-            if (room) {
-                return <UserGameView room={room} teamId={currentTeamId} onUpdate={updateRoom} isAdminMode={isAdminVisiting} onBackToDash={() => setView(isAdminVisiting ? 'ADMIN_DASH' : 'LANDING')} />;
-            }
+            const room = currentRoom;
+            if (!room) return <div className="p-10 text-center text-gray-500">Loading...</div>;
+            const pendingSync = pendingActions.filter(e => e.roomId === room.id).length;
+            return <UserGameView room={room} teamId={currentTeamId} pendingSync={pendingSync} onAction={(action) => dispatchAction(room.id, action)} onPatchMatch={(matchIdx, patch) => patchMatch(room.id, matchIdx, patch)} isAdminMode={isAdminVisiting} onBackToDash={() => setView(isAdminVisiting ? 'ADMIN_DASH' : 'LANDING')} />;
         }
         return <div>Error</div>;
     };
@@ -1747,15 +2335,19 @@ const App: React.FC = () => {
     return (
         <div className="min-h-screen bg-slate-50 dark:bg-slate-950 text-slate-900 dark:text-white font-sans selection:bg-indigo-500 selection:text-white overflow-x-hidden touch-manipulation transition-colors duration-500 relative">
              <MatrixBackground isDarkMode={darkMode} />
-             {/* Global Theme Toggle - Top Left for Mobile */}
-             <div className="fixed top-2 left-2 z-[9999]">
+             {/* Global Theme Toggle + Connection Status - Top Left for Mobile */}
+             <div className="fixed top-2 left-2 z-[9999] flex items-center gap-1">
                 <button
                     onClick={() => setDarkMode(!darkMode)}
                     className="p-1.5 rounded-full bg-white/30 dark:bg-slate-800/50 backdrop-blur-md border border-white/30 dark:border-slate-600/50 text-xs font-bold hover:bg-white/50 dark:hover:bg-slate-700/50 transition-all text-slate-800 dark:text-white shadow-md"
                 >
                     {darkMode ? '☀️' : '🌙'}
                 </button>
+                <ConnectionBadge status={connection} />
              </div>
+             {resumeNotice && (
+                <div className="fixed top-12 left-1/2 -translate-x-1/2 z-[9999] bg-indigo-600 text-white text-xs sm:text-sm font-bold px-4 py-2 rounded-full shadow-lg animate-fade-in">{resumeNotice}</div>
+             )}
             {renderContent()}
         </div>
     );
@@ -0,0 +1,96 @@
+import React from 'react';
+import { Room, Match } from '../types';
+import StandingsTable from './StandingsTable';
+import { TOURNAMENT_FORMATS, isLeagueFormat, getCurrentCycle, getCycleMatches, getAdvancingTeamId, getGroupRanking, isEliminated } from '../services/tournament';
+
+interface BracketViewProps {
+  room: Room;
+}
+
+const BRACKET_LABELS: Record<string, string> = {
+  GROUP: '조별리그',
+  WINNERS: '승자조',
+  LOSERS: '패자조',
+  LEAGUE: '리그'
+};
+
+const BracketView: React.FC<BracketViewProps> = ({ room }) => {
+  const tournament = room.tournament;
+  if (!tournament) return null;
+
+  const currentCycle = getCurrentCycle(room);
+  const cycles = Array.from({ length: currentCycle }, (_, i) => i + 1);
+  const teamName = (id: string) => room.teams.find(t => t.id === id)?.name || '?';
+  const format = TOURNAMENT_FORMATS.find(f => f.id === tournament.format);
+
+  const renderSlot = (match: Match, teamId: string) => {
+    const finished = match.roundStatus === 'FINISHED';
+    const isWinner = finished && getAdvancingTeamId(match) === teamId;
+    const winnings = finished ? match.finalWinnings?.[teamId] : room.teams.find(t => t.id === teamId)?.winnings;
+    return (
+      <div className={`flex justify-between items-center px-2 py-1 text-xs ${isWinner ? 'font-black text-green-700 dark:text-green-400' : finished ? 'text-gray-400 line-through' : 'text-slate-800 dark:text-gray-200'}`}>
+        <span className="truncate">{teamName(teamId)}</span>
+        <span className="ml-2 shrink-0">{winnings ?? 0}억</span>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="text-xl font-bold text-slate-900 dark:text-white">🏟️ 대진표 ({format?.label})</h3>
+        {tournament.championId && (
+          <span className="px-3 py-1 rounded-full bg-yellow-400 text-slate-900 text-sm font-black">🏆 우승: {teamName(tournament.championId)}</span>
+        )}
+      </div>
+
+      {isLeagueFormat(tournament.format) && (
+        <div>
+          <div className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+            {Math.min(currentCycle, tournament.totalCycles || 1)} / {tournament.totalCycles}차전 · 승점 → 라운드 승 → 칩 득실 → 승자승 순
+          </div>
+          <StandingsTable room={room} />
+        </div>
+      )}
+
+      {tournament.groups && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          {tournament.groups.map((group, g) => (
+            <div key={g} className="bg-white/70 dark:bg-slate-900/50 rounded-lg border border-slate-300 dark:border-slate-700 p-2">
+              <div className="text-xs font-bold text-indigo-600 dark:text-indigo-400 mb-1">{String.fromCharCode(65 + g)}조</div>
+              {getGroupRanking(room, group).map((id, place) => (
+                <div key={id} className={`text-xs flex justify-between ${isEliminated(room, id) && tournament.stage === 'KNOCKOUT' ? 'text-gray-400' : 'text-slate-800 dark:text-gray-200'}`}>
+                  <span>{place + 1}. {teamName(id)}</span>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex gap-4 overflow-x-auto pb-2">
+        {cycles.map(cycle => (
+          <div key={cycle} className="min-w-[180px] space-y-2">
+            <div className={`text-xs font-bold text-center py-1 rounded ${cycle === currentCycle && !tournament.championId ? 'bg-indigo-600 text-white' : 'bg-slate-200 dark:bg-slate-700 text-slate-600 dark:text-gray-300'}`}>
+              {cycle}차전
+            </div>
+            {getCycleMatches(room, cycle).map(match => (
+              <div key={match.id} className="bg-white/80 dark:bg-slate-800/80 rounded-lg border border-slate-300 dark:border-slate-600 overflow-hidden">
+                <div className="text-[10px] text-gray-500 px-2 pt-1">
+                  {BRACKET_LABELS[match.bracket || ''] || ''}{match.group !== undefined ? ` ${String.fromCharCode(65 + match.group)}조` : ''}
+                </div>
+                {renderSlot(match, match.teamAId)}
+                <div className="border-t border-slate-200 dark:border-slate-700" />
+                {match.isBye ? (
+                  <div className="px-2 py-1 text-xs text-amber-600 dark:text-amber-400 font-bold">부전승</div>
+                ) : renderSlot(match, match.teamBId)}
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default BracketView;
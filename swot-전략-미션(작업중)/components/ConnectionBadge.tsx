@@ -0,0 +1,25 @@
+import React from 'react';
+import { ConnectionStatus } from '../types';
+
+interface ConnectionBadgeProps {
+  status: ConnectionStatus;
+}
+
+const STATUS_STYLES: Record<ConnectionStatus, { label: string; dot: string }> = {
+  CONNECTING: { label: '연결 중', dot: 'bg-yellow-400 animate-pulse' },
+  CONNECTED: { label: '온라인', dot: 'bg-green-500' },
+  OFFLINE: { label: '오프라인 - 재연결 대기', dot: 'bg-red-500 animate-pulse' },
+  LOCAL: { label: '로컬 모드', dot: 'bg-slate-400' }
+};
+
+const ConnectionBadge: React.FC<ConnectionBadgeProps> = ({ status }) => {
+  const style = STATUS_STYLES[status];
+  return (
+    <div className="flex items-center gap-1 px-2 py-1 rounded-full bg-white/30 dark:bg-slate-800/50 backdrop-blur-md border border-white/30 dark:border-slate-600/50 text-[10px] font-bold text-slate-800 dark:text-white shadow-md" title={style.label}>
+      <span className={`w-2 h-2 rounded-full ${style.dot}`} />
+      <span className={status === 'CONNECTED' ? 'hidden sm:inline' : ''}>{style.label}</span>
+    </div>
+  );
+};
+
+export default ConnectionBadge;
@@ -0,0 +1,75 @@
+import React, { useEffect, useRef } from 'react';
+import { Room } from '../types';
+import { getJoinUrl } from '../services/membership';
+
+declare var QRCode: any; // Declare global for CDN library
+declare var html2pdf: any;
+
+interface JoinCodeSheetProps {
+  room: Room;
+  onClose: () => void;
+}
+
+// Printable sheet: one card per team with its join code and a QR code that opens the join link
+const JoinCodeSheet: React.FC<JoinCodeSheetProps> = ({ room, onClose }) => {
+  const qrRefs = useRef<Record<string, HTMLDivElement | null>>({});
+  const teams = room.teams.filter(t => !t.bot && t.joinCode);
+
+  useEffect(() => {
+    if (typeof QRCode === 'undefined') return;
+    teams.forEach(team => {
+      const el = qrRefs.current[team.id];
+      if (!el) return;
+      el.innerHTML = '';
+      new QRCode(el, { text: getJoinUrl(room, team), width: 128, height: 128 });
+    });
+  }, [room.pin, teams.map(t => t.joinCode).join()]);
+
+  const handleDownload = () => {
+    const element = document.getElementById('join-sheet');
+    if (element && typeof html2pdf !== 'undefined') {
+      html2pdf().set({
+        margin: [0.3, 0.3, 0.3, 0.3],
+        filename: `Join_Codes_${room.name}.pdf`,
+        html2canvas: { scale: 2 },
+        jsPDF: { unit: 'in', format: 'a4', orientation: 'portrait' }
+      }).from(element).save();
+    } else {
+      alert('PDF 라이브러리 로드 중...');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 p-4 backdrop-blur-sm" onClick={onClose}>
+      <div className="bg-white dark:bg-slate-900 rounded-2xl max-w-3xl w-full max-h-[90vh] flex flex-col shadow-2xl" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center p-4 border-b border-slate-200 dark:border-slate-700">
+          <h3 className="font-bold text-lg text-slate-900 dark:text-white">🔑 참가 코드</h3>
+          <div className="flex gap-2">
+            <button onClick={handleDownload} className="bg-slate-700 text-white px-3 py-1 rounded text-sm hover:bg-slate-600">PDF 다운로드</button>
+            <button onClick={onClose} className="text-gray-500 border border-slate-300 dark:border-slate-700 px-3 py-1 rounded text-sm">닫기</button>
+          </div>
+        </div>
+        <div className="overflow-y-auto p-4">
+          <div id="join-sheet" className="bg-white text-black p-4 rounded-xl">
+            <div className="text-center mb-4">
+              <h2 className="text-2xl font-black">{room.name}</h2>
+              <p className="text-sm text-gray-600">방 PIN <span className="font-black text-xl tracking-widest">{room.pin}</span></p>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+              {teams.map(team => (
+                <div key={team.id} className="border-2 border-dashed border-gray-300 rounded-xl p-3 flex flex-col items-center" style={{ pageBreakInside: 'avoid' }}>
+                  <div className="font-bold text-lg mb-2">{team.name}</div>
+                  <div ref={el => { qrRefs.current[team.id] = el; }} className="mb-2" />
+                  <div className="text-xs text-gray-500">팀 코드</div>
+                  <div className="font-black text-2xl tracking-widest">{team.joinCode}</div>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default JoinCodeSheet;
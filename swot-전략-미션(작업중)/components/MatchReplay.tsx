@@ -0,0 +1,146 @@
+import React, { useMemo, useState } from 'react';
+import { Room, MatchEvent, RoundResult } from '../types';
+import { getCurrentPot } from '../services/gameEngine';
+import { replayMatch, hasFullLog, BOT_ACTOR, REFEREE_ACTOR, TIMER_ACTOR } from '../services/matchLog';
+
+interface MatchReplayProps {
+  room: Room;
+  matchId: string;
+  onClose: () => void;
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  READY: '라운드 대기',
+  DECISION: '결정 중',
+  SHOWDOWN: '쇼다운 대기',
+  RESULT: '결과 확인',
+  FINISHED: '경기 종료'
+};
+
+const RESULT_LABELS: Record<RoundResult, string> = {
+  A_WON: 'A 승',
+  B_WON: 'B 승',
+  DRAW: '무승부',
+  A_FOLDED: 'A 포기',
+  B_FOLDED: 'B 포기'
+};
+
+// Step-by-step replay of a match, rebuilt from its event log (services/matchLog.ts)
+const MatchReplay: React.FC<MatchReplayProps> = ({ room, matchId, onClose }) => {
+  const matches = room.matches.filter(hasFullLog);
+  const [selectedId, setSelectedId] = useState(matchId);
+  const frames = useMemo(() => replayMatch(room, selectedId) || [], [room, selectedId]);
+  const [step, setStep] = useState(frames.length - 1);
+  const current = Math.min(step, frames.length - 1);
+  const teamName = (id: string) => room.teams.find(t => t.id === id)?.name || '?';
+
+  const actorLabel = (actorId?: string) => {
+    if (!actorId) return '자동 기록';
+    if (actorId === BOT_ACTOR) return '🤖 봇';
+    if (actorId === REFEREE_ACTOR) return '심판 서버';
+    if (actorId === TIMER_ACTOR) return '⏱ 시간 초과';
+    if (actorId === room.ownerId) return '진행자';
+    const player = room.teams.map(t => t.players?.[actorId]).find(Boolean);
+    return player || '플레이어';
+  };
+
+  const describe = (event: MatchEvent, round: number) => {
+    const { action } = event;
+    switch (action.type) {
+      case 'SUBMIT_STRATEGY': return `${teamName(action.teamId)} 전략 제출`;
+      case 'OPEN_ROUND': return `R${round} 공개`;
+      case 'FOLD': return `${teamName(action.teamId)} 포기`;
+      case 'CALL': {
+        const steals = Object.entries(action.steal || {}).map(([r, chips]) => `R${r} -${chips}억`);
+        return `${teamName(action.teamId)} 승부 (Call)${steals.length ? ` · 칩 이동 ${steals.join(', ')}` : ''}`;
+      }
+      case 'SHOWDOWN': return `R${round} 쇼다운`;
+      case 'CONFIRM_RESULT': return `${teamName(action.teamId)} 결과 확인`;
+      case 'PAUSE_MATCH': return action.paused ? '⏸ 일시정지' : '▶ 재개';
+    }
+  };
+
+  const selectMatch = (id: string) => {
+    setSelectedId(id);
+    setStep(Number.MAX_SAFE_INTEGER); // Start each match at its end
+  };
+
+  const source = room.matches.find(m => m.id === selectedId);
+  const frame = frames[current];
+  const match = frame?.room.matches[0];
+  const lastRound = match?.history[match.history.length - 1];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 p-4 backdrop-blur-sm" onClick={onClose}>
+      <div className="bg-white dark:bg-slate-900 rounded-2xl max-w-2xl w-full max-h-[90vh] flex flex-col shadow-2xl" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center gap-2 p-4 border-b border-slate-200 dark:border-slate-700">
+          <h3 className="font-bold text-lg text-slate-900 dark:text-white shrink-0">🎬 경기 리플레이</h3>
+          {matches.length > 1 && (
+            <select value={selectedId} onChange={e => selectMatch(e.target.value)} className="flex-1 min-w-0 bg-slate-50 dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded px-2 py-1 text-sm text-slate-900 dark:text-white">
+              {matches.map(m => <option key={m.id} value={m.id}>C{m.cycle || 1} · {teamName(m.teamAId)} vs {teamName(m.teamBId)}</option>)}
+            </select>
+          )}
+          <button onClick={onClose} className="text-gray-500 border border-slate-300 dark:border-slate-700 px-3 py-1 rounded text-sm shrink-0">닫기</button>
+        </div>
+
+        {!frame || !match ? (
+          <div className="p-8 text-center text-gray-500">이 경기의 기록이 없습니다. (기록 기능 이전에 진행된 경기)</div>
+        ) : (
+          <div className="p-4 flex flex-col gap-4 overflow-hidden">
+            {/* State after the selected event */}
+            <div className="grid grid-cols-2 gap-3">
+              {[match.teamAId, match.teamBId].map((id, i) => (
+                <div key={id} className="p-3 rounded-xl bg-slate-100 dark:bg-slate-800 text-center">
+                  <div className="text-[10px] text-gray-500">{i === 0 ? 'A' : 'B'}</div>
+                  <div className="font-black text-slate-900 dark:text-white truncate">{teamName(id)}</div>
+                  <div className="text-sm font-bold text-yellow-600 dark:text-yellow-500">이 경기 {frame.room.teams.find(t => t.id === id)?.winnings || 0}억</div>
+                  <div className="text-xs text-gray-500">{i === 0 ? match.teamAScore : match.teamBScore}라운드 승</div>
+                </div>
+              ))}
+            </div>
+            <div className="text-center text-sm text-slate-700 dark:text-gray-300">
+              R{match.currentRound} · {STATUS_LABELS[match.roundStatus]} · 판돈 {getCurrentPot(frame.room, match)}억 · 이월 {match.carryOver}억
+              {lastRound && <div className="text-xs text-gray-500 mt-1">직전 R{lastRound.round}: {lastRound.teamACard} vs {lastRound.teamBCard} → {RESULT_LABELS[lastRound.result]} ({lastRound.potWon}억)</div>}
+            </div>
+
+            {/* Controls */}
+            <div className="flex items-center gap-2">
+              <button onClick={() => setStep(0)} disabled={current === 0} className="px-2 py-1 rounded border border-slate-300 dark:border-slate-700 text-sm disabled:opacity-40">⏮</button>
+              <button onClick={() => setStep(current - 1)} disabled={current === 0} className="px-2 py-1 rounded border border-slate-300 dark:border-slate-700 text-sm disabled:opacity-40">◀</button>
+              <input type="range" min={0} max={frames.length - 1} value={current} onChange={e => setStep(Number(e.target.value))} className="flex-1" />
+              <button onClick={() => setStep(current + 1)} disabled={current === frames.length - 1} className="px-2 py-1 rounded border border-slate-300 dark:border-slate-700 text-sm disabled:opacity-40">▶</button>
+              <button onClick={() => setStep(frames.length - 1)} disabled={current === frames.length - 1} className="px-2 py-1 rounded border border-slate-300 dark:border-slate-700 text-sm disabled:opacity-40">⏭</button>
+              <span className="text-xs text-gray-500 w-16 text-right">{current}/{frames.length - 1}</span>
+            </div>
+
+            {/* Audit trail: every event with its time and actor */}
+            <ol className="overflow-y-auto max-h-64 text-xs divide-y divide-slate-200 dark:divide-slate-700 border border-slate-200 dark:border-slate-700 rounded-lg">
+              {frames.slice(1).map((f, i) => (
+                <li key={f.event!.seq} onClick={() => setStep(i + 1)} className={`flex gap-2 px-3 py-1.5 cursor-pointer ${i + 1 === current ? 'bg-indigo-100 dark:bg-indigo-900/40 font-bold' : 'hover:bg-slate-50 dark:hover:bg-slate-800'}`}>
+                  <span className="text-gray-400 w-6 text-right">{f.event!.seq}</span>
+                  <span className="text-gray-500 w-20">{new Date(f.event!.at).toLocaleTimeString('ko-KR')}</span>
+                  <span className="flex-1 text-slate-800 dark:text-gray-200">{describe(f.event!, f.room.matches[0].currentRound)}</span>
+                  <span className="text-gray-500">{actorLabel(f.event!.actorId)}</span>
+                </li>
+              ))}
+            </ol>
+
+            {/* Admin rollbacks, with what each one undid */}
+            {(source?.rollbacks?.length || 0) > 0 && (
+              <div className="text-xs border border-orange-300 dark:border-orange-800 rounded-lg p-3 bg-orange-50 dark:bg-orange-900/20">
+                <div className="font-bold text-orange-700 dark:text-orange-300 mb-1">⏪ 되돌림 기록</div>
+                {source!.rollbacks!.map((r, i) => (
+                  <div key={i} className="text-slate-700 dark:text-gray-300">
+                    {new Date(r.at).toLocaleTimeString('ko-KR')} · {actorLabel(r.actorId)} · R{r.toRound} 시작으로 (취소된 기록 {r.undone.length}건: {r.undone.map(e => e.action.type).join(', ')})
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MatchReplay;
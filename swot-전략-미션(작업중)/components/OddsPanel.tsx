@@ -0,0 +1,50 @@
+import React from 'react';
+import { Room } from '../types';
+import { findTeamMatchIndex } from '../services/gameEngine';
+import { estimateRoundOdds, getCallValue, getFoldValue } from '../services/odds';
+
+interface OddsPanelProps {
+  room: Room;
+  teamId: string;
+}
+
+const percent = (x: number) => `${Math.round(x * 100)}%`;
+const chips = (x: number) => `${x > 0 ? '+' : ''}${Math.round(x * 10) / 10}억`;
+
+// Exact odds of the current round against every card the opponent can still hold
+const OddsPanel: React.FC<OddsPanelProps> = ({ room, teamId }) => {
+  const match = room.matches[findTeamMatchIndex(room, teamId)];
+  const odds = estimateRoundOdds(room, teamId);
+  if (!match || !odds) return null;
+
+  const opponentId = match.teamAId === teamId ? match.teamBId : match.teamAId;
+  const myBet = room.teams.find(t => t.id === teamId)?.strategy?.[match.currentRound - 1]?.chips || 0;
+  const oppBet = room.teams.find(t => t.id === opponentId)?.strategy?.[match.currentRound - 1]?.chips || 0;
+  const callValue = getCallValue(odds, oppBet, match.carryOver || 0);
+  const foldValue = getFoldValue(myBet);
+
+  return (
+    <div className="shrink-0 mt-1 px-3 py-2 bg-white/90 dark:bg-slate-800/90 rounded-lg border border-cyan-500/40 text-xs text-slate-800 dark:text-gray-200">
+      <div className="flex justify-between items-center gap-2">
+        <span className="font-bold text-cyan-600 dark:text-cyan-400">📊 승률</span>
+        <span>
+          <span className="font-bold text-green-600 dark:text-green-400">승 {percent(odds.win)}</span>
+          {' · '}
+          <span className="font-bold text-gray-500">무 {percent(odds.draw)}</span>
+          {' · '}
+          <span className="font-bold text-red-500">패 {percent(odds.lose)}</span>
+        </span>
+      </div>
+      <div className="flex justify-between items-center gap-2 mt-1">
+        <span className="text-gray-500 dark:text-gray-400 truncate">상대 후보 [{odds.candidates.join(', ')}]</span>
+        <span className="shrink-0">
+          승부 <span className={`font-bold ${callValue >= foldValue ? 'text-green-600 dark:text-green-400' : ''}`}>{chips(callValue)}</span>
+          {' / '}
+          포기 <span className={`font-bold ${foldValue > callValue ? 'text-green-600 dark:text-green-400' : ''}`}>{chips(foldValue)}</span>
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export default OddsPanel;
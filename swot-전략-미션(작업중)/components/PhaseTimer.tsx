@@ -0,0 +1,47 @@
+import React, { useEffect, useState } from 'react';
+import { PhaseDeadline } from '../types';
+import { serverNow } from '../services/clock';
+import { getRemainingMs } from '../services/timers';
+
+interface PhaseTimerProps {
+  deadline?: PhaseDeadline;
+  showDefault?: boolean; // Also say what happens when time runs out
+}
+
+const PHASE_LABELS: Record<PhaseDeadline['phase'], { label: string; onTimeout: string }> = {
+  PREPARATION: { label: '전략 제출', onTimeout: '시간 초과 시 자동 배치' },
+  DECISION: { label: '결정', onTimeout: '시간 초과 시 자동 포기' },
+  RESULT: { label: '결과 확인', onTimeout: '시간 초과 시 자동 확인' }
+};
+
+const URGENT_SECONDS = 10;
+
+// Countdown to a match's phase deadline (services/timers.ts), in server time
+const PhaseTimer: React.FC<PhaseTimerProps> = ({ deadline, showDefault }) => {
+  const [now, setNow] = useState(serverNow);
+
+  useEffect(() => {
+    if (!deadline || deadline.remainingMs !== undefined) return;
+    setNow(serverNow());
+    const timer = setInterval(() => setNow(serverNow()), 250);
+    return () => clearInterval(timer);
+  }, [deadline?.endsAt, deadline?.remainingMs]);
+
+  if (!deadline) return null;
+  const seconds = Math.ceil(getRemainingMs(deadline, now) / 1000);
+  const paused = deadline.remainingMs !== undefined;
+  const urgent = !paused && seconds <= URGENT_SECONDS;
+  const { label, onTimeout } = PHASE_LABELS[deadline.phase];
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-[10px] sm:text-xs font-bold tabular-nums shadow ${urgent ? 'bg-red-600 text-white animate-pulse' : paused ? 'bg-slate-400 text-white' : 'bg-slate-800 text-white dark:bg-slate-200 dark:text-slate-900'}`}
+      title={onTimeout}
+    >
+      {paused ? '⏸' : '⏱'} {label} {Math.floor(seconds / 60)}:{String(seconds % 60).padStart(2, '0')}
+      {showDefault && <span className="font-normal opacity-80 hidden sm:inline">· {onTimeout}</span>}
+    </span>
+  );
+};
+
+export default PhaseTimer;
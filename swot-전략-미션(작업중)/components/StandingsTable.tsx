@@ -0,0 +1,43 @@
+import React from 'react';
+import { Room } from '../types';
+import { getStandings } from '../services/standings';
+
+interface StandingsTableProps {
+  room: Room;
+}
+
+const StandingsTable: React.FC<StandingsTableProps> = ({ room }) => {
+  const standings = getStandings(room);
+  const teamName = (id: string) => room.teams.find(t => t.id === id)?.name || '?';
+
+  return (
+    <table className="w-full text-xs text-left border-collapse">
+      <thead>
+        <tr className="bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-gray-300">
+          <th className="p-2 border border-slate-200 dark:border-slate-700">#</th>
+          <th className="p-2 border border-slate-200 dark:border-slate-700">Team</th>
+          <th className="p-2 border border-slate-200 dark:border-slate-700 text-center">경기</th>
+          <th className="p-2 border border-slate-200 dark:border-slate-700 text-center">승-무-패</th>
+          <th className="p-2 border border-slate-200 dark:border-slate-700 text-center">승점</th>
+          <th className="p-2 border border-slate-200 dark:border-slate-700 text-center">라운드 승</th>
+          <th className="p-2 border border-slate-200 dark:border-slate-700 text-center">칩 득실</th>
+        </tr>
+      </thead>
+      <tbody>
+        {standings.map((s, idx) => (
+          <tr key={s.teamId} className={`text-slate-800 dark:text-gray-200 ${room.tournament?.championId === s.teamId ? 'bg-yellow-100 dark:bg-yellow-500/20 font-bold' : ''}`}>
+            <td className="p-2 border border-slate-200 dark:border-slate-700 text-center font-bold">{idx + 1}</td>
+            <td className="p-2 border border-slate-200 dark:border-slate-700 font-bold">{teamName(s.teamId)}</td>
+            <td className="p-2 border border-slate-200 dark:border-slate-700 text-center">{s.played}</td>
+            <td className="p-2 border border-slate-200 dark:border-slate-700 text-center">{s.wins}-{s.draws}-{s.losses}</td>
+            <td className="p-2 border border-slate-200 dark:border-slate-700 text-center font-black">{s.points}</td>
+            <td className="p-2 border border-slate-200 dark:border-slate-700 text-center">{s.roundsWon}</td>
+            <td className="p-2 border border-slate-200 dark:border-slate-700 text-center">{s.chipDiff > 0 ? `+${s.chipDiff}` : s.chipDiff}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+export default StandingsTable;
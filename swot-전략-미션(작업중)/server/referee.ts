@@ -0,0 +1,327 @@
+// Local referee server: the only place that holds every team's full strategy.
+// Clients send GameActions; the referee resolves them with the shared game
+// engine and streams back each viewer's redacted copy of the rooms over
+// Server-Sent Events, so opponent card numbers never reach a browser before
+// the round is resolved.
+//
+// Every request that acts for someone shows that principal's key
+// (server/refereeKeys.ts): players' for their team, the owner's for the room.
+//
+// Run: npm run referee   (PORT, REFEREE_DATA_FILE, REFEREE_KEYS_FILE optional)
+
+import http from 'http';
+import fs from 'fs';
+import { Room, Team, Match } from '../types';
+import { openRound, validateRuleSet } from '../services/gameEngine';
+import { resolveGameAction, runAutomaticActions, resolveTimeouts, isStaleAction } from '../services/gameFlow';
+import { redactRoomForTeam } from '../services/hiddenInfo';
+import { canAct, joinTeam, isTeamMember, redactMembership, generatePin, generateJoinCode, normalizeCode, findRoomByPin } from '../services/membership';
+import { parseRoom, parseRooms, parseActionRequest, parseStrategy } from '../services/schema';
+import { applyAdminEdit, AdminEdit } from '../services/adminEdits';
+import { recordEvent, rollbackMatch, REFEREE_ACTOR } from '../services/matchLog';
+import { KEYS_HEADER, loadKeys, hasKey, issueKey, verifyKeys } from './refereeKeys';
+
+const PORT = Number(process.env.PORT || 3001);
+const DATA_FILE = process.env.REFEREE_DATA_FILE || '.referee-data.json';
+const KEYS_FILE = process.env.REFEREE_KEYS_FILE || '.referee-keys.json';
+const TIMEOUT_CHECK_MS = 1000;
+
+// --- Authoritative state ---
+
+let rooms: Room[] = [];
+
+const loadRooms = () => {
+    try {
+        rooms = parseRooms(JSON.parse(fs.readFileSync(DATA_FILE, 'utf-8')));
+        console.log(`Loaded ${rooms.length} room(s) from ${DATA_FILE}`);
+    } catch {
+        rooms = [];
+    }
+};
+
+const persistRooms = () => {
+    try {
+        fs.writeFileSync(DATA_FILE, JSON.stringify(rooms));
+    } catch (error) {
+        console.error('Could not persist rooms:', error);
+    }
+};
+
+// Rounds open as soon as they are READY; nobody has to trigger it from a browser
+const openReadyRounds = (room: Room): Room => {
+    if (room.status !== 'PLAYING') return room;
+    return room.matches.reduce((r, m) => {
+        const opened = m.roundStatus === 'READY' && !m.paused ? openRound(r, m.id) : r;
+        return opened === r ? r : recordEvent(r, opened, { type: 'OPEN_ROUND', matchId: m.id }, { actorId: REFEREE_ACTOR, at: Date.now() });
+    }, room);
+};
+
+// Bots and opened rounds can unlock each other, so repeat until nothing changes
+const settleRoom = (room: Room): Room => {
+    let current = room;
+    for (;;) {
+        const next = runAutomaticActions(openReadyRounds(current));
+        if (next === current) return current;
+        current = next;
+    }
+};
+
+const commit = (roomId: string, next: Room | null) => {
+    rooms = next
+        ? (rooms.some(r => r.id === roomId) ? rooms.map(r => r.id === roomId ? settleRoom(next) : r) : [...rooms, settleRoom(next)])
+        : rooms.filter(r => r.id !== roomId);
+    persistRooms();
+    broadcast();
+};
+
+// --- Identity ---
+
+// Rooms without an owner predate accounts and keep the old open behaviour
+const isOwner = (room: Room, verified: Set<string>): boolean => !room.ownerId || verified.has(room.ownerId);
+
+const isVerifiedActor = (room: Room, actorId: unknown, verified: Set<string>): actorId is string =>
+    typeof actorId === 'string' && (!room.ownerId || verified.has(actorId));
+
+const isVerifiedMember = (team: Team | undefined, verified: Set<string>): boolean =>
+    [...verified].some(id => isTeamMember(team, id));
+
+// --- SSE subscribers ---
+
+interface Subscriber {
+    res: http.ServerResponse;
+    verified: Set<string>;
+    requestedTeamId: string | null; // Only honoured for the room's owner (an admin visiting a team)
+}
+
+const subscribers = new Set<Subscriber>();
+
+// Players see the room as their own team; the owner sees join codes and players too
+const viewFor = (room: Room, sub: Subscriber): Room => {
+    const owner = isOwner(room, sub.verified);
+    const viewerTeamId = owner ? sub.requestedTeamId : room.teams.find(t => isVerifiedMember(t, sub.verified))?.id ?? null;
+    return redactMembership(redactRoomForTeam(room, viewerTeamId), viewerTeamId, owner);
+};
+
+const send = (sub: Subscriber) => {
+    // Lets the browser count down to deadlines in this server's time (services/clock.ts)
+    sub.res.write(`event: clock\ndata: ${Date.now()}\n\n`);
+    const view = rooms.map(r => viewFor(r, sub));
+    sub.res.write(`event: rooms\ndata: ${JSON.stringify(view)}\n\n`);
+};
+
+const broadcast = () => subscribers.forEach(send);
+
+// --- HTTP helpers ---
+
+const CORS_HEADERS = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, PUT, PATCH, DELETE, OPTIONS',
+    'Access-Control-Allow-Headers': `Content-Type, ${KEYS_HEADER}`
+};
+
+const reply = (res: http.ServerResponse, status: number, body?: unknown) => {
+    res.writeHead(status, { ...CORS_HEADERS, 'Content-Type': 'application/json' });
+    res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+// A copy of a per-team map with one entry set or, for undefined, removed
+const withEntry = <V>(map: Record<string, V> | undefined, key: string, value: V | undefined): Record<string, V> => {
+    const next = { ...(map || {}) };
+    if (value === undefined) delete next[key];
+    else next[key] = value;
+    return next;
+};
+
+const readBody = (req: http.IncomingMessage): Promise<unknown> => new Promise((resolve, reject) => {
+    let data = '';
+    req.on('data', chunk => { data += chunk; });
+    req.on('end', () => {
+        try { resolve(data ? JSON.parse(data) : {}); } catch (error) { reject(error); }
+    });
+    req.on('error', reject);
+});
+
+// A JSON object body (anything else counts as empty); each field is checked where it is used
+const readFields = async (req: http.IncomingMessage): Promise<Record<string, unknown>> => {
+    const body = await readBody(req);
+    return typeof body === 'object' && body !== null && !Array.isArray(body) ? { ...body } : {};
+};
+
+// A new room from a client: only its setup is taken, never game state or membership
+const toNewRoom = (body: Room): Room => ({
+    schemaVersion: body.schemaVersion,
+    id: body.id,
+    name: body.name,
+    totalTeams: body.teams.length,
+    currentRound: 1,
+    status: 'PREPARING',
+    teams: body.teams.map(t => ({
+        id: t.id,
+        name: t.name,
+        roomId: body.id,
+        isReady: false,
+        score: 0,
+        winnings: 0,
+        members: [],
+        ...(t.bot ? { bot: t.bot } : {}),
+        joinCode: t.joinCode ? normalizeCode(t.joinCode) : generateJoinCode()
+    })),
+    matches: [],
+    rules: body.rules,
+    showOdds: body.showOdds,
+    ownerId: body.ownerId,
+    pin: body.pin && !rooms.some(r => r.pin === body.pin) ? body.pin : generatePin(rooms)
+});
+
+// --- Routes ---
+
+const handle = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+    const url = new URL(req.url || '/', `http://${req.headers.host}`);
+    const parts = url.pathname.split('/').filter(Boolean); // ['rooms', id, ...]
+
+    if (req.method === 'OPTIONS') return reply(res, 204);
+    if (parts[0] !== 'rooms') return reply(res, 404, { error: 'Not found' });
+
+    // GET /rooms/events?keys=...&teamId=... (SSE stream of rooms redacted for the verified viewer;
+    // EventSource cannot send headers, so the keys come in the query)
+    if (req.method === 'GET' && parts[1] === 'events') {
+        res.writeHead(200, { ...CORS_HEADERS, 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', Connection: 'keep-alive' });
+        const sub: Subscriber = { res, verified: verifyKeys(url.searchParams.get('keys')), requestedTeamId: url.searchParams.get('teamId') };
+        subscribers.add(sub);
+        send(sub);
+        req.on('close', () => subscribers.delete(sub));
+        return;
+    }
+
+    // GET /rooms/pins/:pin (streams only show a room's PIN to its owner)
+    if (req.method === 'GET' && parts[1] === 'pins' && parts.length === 3) {
+        const found = findRoomByPin(rooms, parts[2]);
+        return found ? reply(res, 200, { roomId: found.id }) : reply(res, 404, { error: 'Room not found' });
+    }
+
+    const roomId = parts[1];
+    const room = rooms.find(r => r.id === roomId);
+    if (!roomId) return reply(res, 404, { error: 'Room id required' });
+    const verified = verifyKeys(req.headers[KEYS_HEADER]);
+
+    // PUT /rooms/:id (create a room; the owner gets a key the first time)
+    if (req.method === 'PUT' && parts.length === 2) {
+        if (room) return reply(res, 409, { error: 'Room already exists' });
+        const body = parseRoom(await readBody(req));
+        if (!body || body.id !== roomId || !body.ownerId || !body.rules || validateRuleSet(body.rules)) return reply(res, 400, { error: 'Invalid room' });
+        if (hasKey(body.ownerId) && !verified.has(body.ownerId)) return reply(res, 403, { error: 'Not this owner' });
+        const keys = hasKey(body.ownerId) ? undefined : { [body.ownerId]: issueKey(body.ownerId) };
+        commit(roomId, toNewRoom(body));
+        return keys ? reply(res, 200, { keys }) : reply(res, 204);
+    }
+
+    if (!room) return reply(res, 404, { error: 'Room not found' });
+
+    // PATCH /rooms/:id (owner only; AdminEdit: allow-listed admin fields merged
+    // into the latest room; game state only changes through actions)
+    if (req.method === 'PATCH' && parts.length === 2) {
+        if (!isOwner(room, verified)) return reply(res, 403, { error: 'Only the room owner can edit the room' });
+        // applyAdminEdit checks every value it takes
+        const next = applyAdminEdit(room, await readFields(req) as AdminEdit);
+        if (next !== room) commit(roomId, next);
+        return reply(res, 204);
+    }
+
+    // DELETE /rooms/:id (owner only)
+    if (req.method === 'DELETE' && parts.length === 2) {
+        if (!isOwner(room, verified)) return reply(res, 403, { error: 'Only the room owner can delete the room' });
+        commit(roomId, null);
+        return reply(res, 204);
+    }
+
+    // POST /rooms/:id/actions { action: GameAction, actorId, context? } (actorId: a verified player id, or the
+    // owner's uid; context: the match as the player saw it, for actions retried from a client's offline queue)
+    if (req.method === 'POST' && parts[2] === 'actions') {
+        const request = parseActionRequest(await readBody(req));
+        if (!request) return reply(res, 400, { error: 'Invalid action' });
+        const { action, actorId, context } = request;
+        if (!isVerifiedActor(room, actorId, verified) || !canAct(room, action, actorId)) return reply(res, 403, { error: 'Not allowed for this player' });
+        if (context && isStaleAction(room, action, context)) return reply(res, 409, { error: 'The game has moved on' });
+        const next = resolveGameAction(room, action, { actorId, at: Date.now() });
+        if (next === room) return reply(res, 409, { error: 'Action not allowed in the current state' });
+        commit(roomId, next);
+        return reply(res, 204);
+    }
+
+    // POST /rooms/:id/teams/:teamId/members { name, playerId, code } (a new player id gets its key)
+    if (req.method === 'POST' && parts[2] === 'teams' && parts[4] === 'members') {
+        const { name, playerId, code } = await readFields(req);
+        const teamId = parts[3];
+        if (typeof name !== 'string' || !name || typeof playerId !== 'string' || !playerId || !room.teams.some(t => t.id === teamId)) {
+            return reply(res, 400, { error: 'Invalid member' });
+        }
+        if (hasKey(playerId) && !verified.has(playerId)) return reply(res, 403, { error: 'Not this player' });
+        const next = joinTeam(room, teamId, typeof code === 'string' ? code : '', playerId, name);
+        if (next === room && room.teams.find(t => t.id === teamId)?.players?.[playerId] !== name) return reply(res, 403, { error: 'Wrong join code' });
+        const keys = hasKey(playerId) ? undefined : { [playerId]: issueKey(playerId) };
+        if (next !== room) commit(roomId, next);
+        return keys ? reply(res, 200, { keys }) : reply(res, 204);
+    }
+
+    // POST /rooms/:id/matches/:idx/rollback { round } (owner only: back to the start of a round)
+    if (req.method === 'POST' && parts[2] === 'matches' && parts[4] === 'rollback') {
+        const { round } = await readFields(req);
+        const match = room.matches[Number(parts[3])];
+        if (!match) return reply(res, 404, { error: 'Match not found' });
+        if (typeof round !== 'number') return reply(res, 400, { error: 'Invalid round' });
+        if (!isOwner(room, verified)) return reply(res, 403, { error: 'Only the room owner can roll back' });
+        const next = rollbackMatch(room, match.id, round, { actorId: room.ownerId, at: Date.now() });
+        if (next === room) return reply(res, 409, { error: 'This round cannot be rolled back' });
+        commit(roomId, next);
+        return reply(res, 204);
+    }
+
+    // PATCH /rooms/:id/matches/:idx { 'aiAdvice/t_1': text, 'drafts/t_1': board, ... } (that team's players or the owner)
+    if (req.method === 'PATCH' && parts[2] === 'matches') {
+        const matchIdx = Number(parts[3]);
+        const patch = await readFields(req);
+        const match = room.matches[matchIdx];
+        if (!match) return reply(res, 404, { error: 'Match not found' });
+        const updated: Match = { ...match };
+        for (const [path, value] of Object.entries(patch)) {
+            const [field, key] = path.split('/');
+            // Only per-team UI maps may be patched directly; game state goes through actions
+            if (field !== 'aiHelps' && field !== 'aiAdvice' && field !== 'drafts') continue;
+            if (key !== match.teamAId && key !== match.teamBId) continue;
+            if (!isOwner(room, verified) && !isVerifiedMember(room.teams.find(t => t.id === key), verified)) return reply(res, 403, { error: 'Not a member of this team' });
+            // null/undefined clears the team's entry; anything else must fit the map
+            if (field === 'aiHelps' && (value == null || typeof value === 'number')) updated.aiHelps = withEntry(updated.aiHelps, key, typeof value === 'number' ? value : undefined);
+            if (field === 'aiAdvice' && (value == null || typeof value === 'string')) updated.aiAdvice = withEntry(updated.aiAdvice, key, typeof value === 'string' ? value : undefined);
+            if (field === 'drafts') {
+                const draft = value == null ? undefined : parseStrategy(value);
+                if (draft !== null) updated.drafts = withEntry(updated.drafts, key, draft);
+            }
+        }
+        const matches = [...room.matches];
+        matches[matchIdx] = updated;
+        commit(roomId, { ...room, matches });
+        return reply(res, 204);
+    }
+
+    return reply(res, 404, { error: 'Not found' });
+};
+
+loadRooms();
+loadKeys(KEYS_FILE);
+
+// Phases whose time ran out get their default action (services/timers.ts)
+setInterval(() => {
+    rooms.forEach(room => {
+        const next = resolveTimeouts(room, Date.now());
+        if (next !== room) commit(room.id, next);
+    });
+}, TIMEOUT_CHECK_MS);
+
+http.createServer((req, res) => {
+    handle(req, res).catch(error => {
+        console.error('Request failed:', error);
+        reply(res, 400, { error: 'Bad request' });
+    });
+}).listen(PORT, () => {
+    console.log(`🎲 SWOT referee listening on http://localhost:${PORT}`);
+});
@@ -0,0 +1,59 @@
+// Referee credentials. The referee has no accounts, so it hands every
+// principal (a player id, or a room owner's uid) a random key the first time
+// it sees it: when the player joins a team, when the owner creates a room.
+// From then on a request only counts as that principal when it shows the key
+// (services/refereeClient.ts keeps them in localStorage). Only SHA-256 hashes
+// are kept, in REFEREE_KEYS_FILE.
+
+import fs from 'fs';
+import crypto from 'crypto';
+
+export const KEYS_HEADER = 'x-referee-keys';
+
+let hashes = new Map<string, string>();
+let keysFile = '';
+
+const hash = (key: string): string => crypto.createHash('sha256').update(key).digest('hex');
+
+export const loadKeys = (file: string) => {
+    keysFile = file;
+    try {
+        hashes = new Map(Object.entries(JSON.parse(fs.readFileSync(file, 'utf-8'))));
+    } catch {
+        hashes = new Map();
+    }
+};
+
+const persistKeys = () => {
+    try {
+        fs.writeFileSync(keysFile, JSON.stringify(Object.fromEntries(hashes)));
+    } catch (error) {
+        console.error('Could not persist referee keys:', error);
+    }
+};
+
+export const hasKey = (principalId: string): boolean => hashes.has(principalId);
+
+// Only for a principal without a key; the caller returns it to the client once
+export const issueKey = (principalId: string): string => {
+    const key = crypto.randomBytes(24).toString('base64url');
+    hashes.set(principalId, hash(key));
+    persistKeys();
+    return key;
+};
+
+const decode = (part: string): string => {
+    try { return decodeURIComponent(part); } catch { return ''; }
+};
+
+// Principals whose key is in "id:key,id:key" (parts URI-encoded)
+export const verifyKeys = (raw: string | string[] | null | undefined): Set<string> => {
+    const verified = new Set<string>();
+    const list = Array.isArray(raw) ? raw.join(',') : raw || '';
+    for (const pair of list.split(',')) {
+        const [id, key] = pair.split(':').map(decode);
+        const expected = id && key ? hashes.get(id) : undefined;
+        if (expected && crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(hash(key)))) verified.add(id);
+    }
+    return verified;
+};
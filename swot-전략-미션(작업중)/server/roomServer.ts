@@ -0,0 +1,221 @@
+// Local room server: a plain shared store for rooms over WebSocket, for
+// workshops without Firebase (services/socketStore.ts is the client).
+// Unlike the referee it does not hide cards or resolve actions; it only keeps
+// the rooms, pushes every change to all clients and rejects transactions
+// that were based on an outdated revision of a room.
+// Over plain HTTP it also stands in for an image bucket (/images/...), kept
+// in a folder on disk (services/imageStorage.ts uploads posters and photos).
+//
+// It has no accounts: every client reads and writes every room, PINs and join
+// codes included. So it only listens on this machine unless ROOM_SERVER_HOST
+// opens it to the network (a trusted one; use Firebase or the referee otherwise).
+//
+// Run: npm run room-server   (PORT, ROOM_SERVER_HOST, ROOM_SERVER_DATA_FILE, ROOM_SERVER_IMAGE_DIR optional)
+
+import http from 'http';
+import fs from 'fs';
+import path from 'path';
+import { Room } from '../types';
+import { applyRoomPatch, applyMatchPatch } from '../services/roomStore';
+import { parseRoom, parseRooms } from '../services/schema';
+import { acceptWebSocket, WebSocketConnection } from './websocket';
+
+const PORT = Number(process.env.PORT || 3002);
+const HOST = process.env.ROOM_SERVER_HOST || '127.0.0.1';
+const DATA_FILE = process.env.ROOM_SERVER_DATA_FILE || '.room-server-data.json';
+const IMAGE_DIR = process.env.ROOM_SERVER_IMAGE_DIR || '.room-server-images';
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+
+// --- State ---
+
+let rooms: Room[] = [];
+const revisions: Record<string, number> = {}; // Bumped on every change of a room
+const clients = new Set<WebSocketConnection>();
+
+const loadRooms = () => {
+    try {
+        rooms = parseRooms(JSON.parse(fs.readFileSync(DATA_FILE, 'utf-8')));
+        console.log(`Loaded ${rooms.length} room(s) from ${DATA_FILE}`);
+    } catch {
+        rooms = [];
+    }
+};
+
+const persistRooms = () => {
+    try {
+        fs.writeFileSync(DATA_FILE, JSON.stringify(rooms));
+    } catch (error) {
+        console.error('Could not persist rooms:', error);
+    }
+};
+
+const roomsMessage = (): string => JSON.stringify({ type: 'rooms', rooms, revisions });
+
+const broadcast = () => {
+    const message = roomsMessage();
+    clients.forEach(client => client.send(message));
+};
+
+// Replace (or delete, with null) one room and tell everyone
+const commit = (roomId: string, next: Room | null) => {
+    rooms = next
+        ? (rooms.some(r => r.id === roomId) ? rooms.map(r => r.id === roomId ? next : r) : [...rooms, next])
+        : rooms.filter(r => r.id !== roomId);
+    revisions[roomId] = (revisions[roomId] || 0) + 1;
+    persistRooms();
+    broadcast();
+};
+
+// --- Requests ---
+
+interface StoreRequest {
+    requestId: number;
+    op: 'save' | 'put' | 'patch' | 'patchMatch' | 'remove';
+    roomId?: string;
+    room?: unknown;
+    revision?: number;
+    matchIdx?: number;
+    patch?: Record<string, unknown>;
+}
+
+type Result = { ok: boolean; conflict?: boolean; room?: Room; revision?: number };
+
+const handleRequest = (request: StoreRequest): Result => {
+    if (request.op === 'save' || request.op === 'put') {
+        const room = parseRoom(request.room);
+        if (!room) return { ok: false };
+        // put = compare-and-set: only on top of the revision the client has seen
+        const revision = revisions[room.id] || 0;
+        const current = rooms.find(r => r.id === room.id);
+        if (request.op === 'put' && (!current || request.revision !== revision)) {
+            return { ok: false, conflict: Boolean(current), room: current, revision };
+        }
+        commit(room.id, room);
+        return { ok: true };
+    }
+
+    const room = rooms.find(r => r.id === request.roomId);
+    if (!room) return { ok: false };
+
+    if (request.op === 'remove') {
+        commit(room.id, null);
+        return { ok: true };
+    }
+
+    const edited = request.op === 'patch'
+        ? applyRoomPatch(room, (request.patch || {}) as Partial<Room>)
+        : applyMatchPatch(room, Number(request.matchIdx), request.patch || {});
+    const next = edited && parseRoom(edited);
+    if (!next) return { ok: false };
+    commit(room.id, next);
+    return { ok: true };
+};
+
+// --- Images ---
+
+const CONTENT_TYPES: Record<string, string> = {
+    '.jpg': 'image/jpeg', '.png': 'image/png', '.webp': 'image/webp', '.gif': 'image/gif'
+};
+
+const CORS_HEADERS = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, PUT, DELETE, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type'
+};
+
+// File (or folder) on disk for /images/<path>; null for anything outside IMAGE_DIR
+const resolveImagePath = (urlPath: string): string | null => {
+    const segments = urlPath.split('/').filter(Boolean).map(decodeURIComponent);
+    if (segments.length === 0 || segments.some(s => !/^[A-Za-z0-9_.-]+$/.test(s) || /^\.+$/.test(s))) return null;
+    return path.join(IMAGE_DIR, ...segments);
+};
+
+// Null when the body is over the limit (the rest is read and dropped)
+const readBody = (req: http.IncomingMessage, limit: number): Promise<Buffer | null> => new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size <= limit) chunks.push(chunk);
+    });
+    req.on('end', () => resolve(size <= limit ? Buffer.concat(chunks) : null));
+    req.on('error', reject);
+});
+
+const handleImageRequest = async (req: http.IncomingMessage, res: http.ServerResponse, urlPath: string) => {
+    const send = (status: number, body?: Buffer | string, headers: Record<string, string> = {}) => {
+        res.writeHead(status, { ...CORS_HEADERS, ...headers });
+        res.end(body);
+    };
+    if (req.method === 'OPTIONS') return send(204);
+    const file = resolveImagePath(urlPath);
+    if (!file) return send(400, 'Invalid image path');
+
+    if (req.method === 'GET') {
+        if (!fs.existsSync(file) || !fs.statSync(file).isFile()) return send(404, 'Not found');
+        return send(200, fs.readFileSync(file), {
+            'Content-Type': CONTENT_TYPES[path.extname(file)] || 'application/octet-stream',
+            'Cache-Control': 'public, max-age=31536000'
+        });
+    }
+    if (req.method === 'PUT') {
+        if (!String(req.headers['content-type'] || '').startsWith('image/')) return send(415, 'Only images are accepted');
+        const tooLarge = { 'Connection': 'close' };
+        if (Number(req.headers['content-length']) > MAX_IMAGE_BYTES) return send(413, 'Image too large', tooLarge);
+        const body = await readBody(req, MAX_IMAGE_BYTES);
+        if (!body) return send(413, 'Image too large', tooLarge);
+        fs.mkdirSync(path.dirname(file), { recursive: true });
+        fs.writeFileSync(file, body);
+        return send(201);
+    }
+    if (req.method === 'DELETE') {
+        // A folder path removes all images of one room (rooms/<roomId>), never more
+        if (!fs.existsSync(file)) return send(404, 'Not found');
+        if (fs.statSync(file).isDirectory() && urlPath.split('/').filter(Boolean).length !== 2) return send(403, 'Only one room\'s folder can be removed');
+        fs.rmSync(file, { recursive: true, force: true });
+        return send(204);
+    }
+    send(405, 'Method not allowed');
+};
+
+// --- Server ---
+
+loadRooms();
+
+const server = http.createServer((req, res) => {
+    const urlPath = (req.url || '').split('?')[0];
+    if (urlPath.startsWith('/images/')) {
+        handleImageRequest(req, res, urlPath.slice('/images/'.length)).catch(error => {
+            console.error('Image request failed:', error);
+            if (!res.headersSent) res.writeHead(500, CORS_HEADERS);
+            res.end();
+        });
+        return;
+    }
+    res.writeHead(426, { 'Content-Type': 'text/plain' });
+    res.end('This server only speaks WebSocket (and /images over HTTP)');
+});
+
+server.on('upgrade', (req, socket) => {
+    const client = acceptWebSocket(req, socket);
+    if (!client) return;
+    clients.add(client);
+    client.onClose(() => clients.delete(client));
+    client.onMessage(text => {
+        let request: StoreRequest;
+        try {
+            request = JSON.parse(text);
+        } catch {
+            return client.close();
+        }
+        client.send(JSON.stringify({ type: 'result', requestId: request.requestId, ...handleRequest(request) }));
+    });
+    client.send(roomsMessage());
+});
+
+server.listen(PORT, HOST, () => {
+    console.log(`🔌 SWOT room server listening on ws://${HOST}:${PORT}`);
+    if (!['127.0.0.1', 'localhost', '::1'].includes(HOST)) {
+        console.warn('⚠️  Open to the network: anyone who can reach this port can read and change every room, including PINs and join codes. Only use it on a trusted network.');
+    }
+});
@@ -0,0 +1,138 @@
+// Just enough of RFC 6455 for the local room server: the upgrade handshake,
+// text frames (fragmented or not), ping/pong and close. No extensions.
+
+import http from 'http';
+import crypto from 'crypto';
+import { Duplex } from 'stream';
+
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const MAX_MESSAGE_BYTES = 32 * 1024 * 1024; // Inline images (no image bucket) travel as data URLs
+
+const OPCODE = { CONTINUATION: 0x0, TEXT: 0x1, CLOSE: 0x8, PING: 0x9, PONG: 0xa };
+
+export interface WebSocketConnection {
+    send: (text: string) => void;
+    close: () => void;
+    onMessage: (handler: (text: string) => void) => void;
+    onClose: (handler: () => void) => void;
+}
+
+interface Frame {
+    fin: boolean;
+    opcode: number;
+    payload: Buffer;
+    size: number; // Bytes consumed from the buffer
+}
+
+// Null until the whole frame has arrived
+const readFrame = (buffer: Buffer): Frame | null => {
+    if (buffer.length < 2) return null;
+    const fin = (buffer[0] & 0x80) !== 0;
+    const opcode = buffer[0] & 0x0f;
+    const masked = (buffer[1] & 0x80) !== 0;
+    let length = buffer[1] & 0x7f;
+    let offset = 2;
+    if (length === 126) {
+        if (buffer.length < 4) return null;
+        length = buffer.readUInt16BE(2);
+        offset = 4;
+    } else if (length === 127) {
+        if (buffer.length < 10) return null;
+        length = Number(buffer.readBigUInt64BE(2));
+        offset = 10;
+    }
+    if (length > MAX_MESSAGE_BYTES) throw new Error(`Frame too large: ${length} bytes`);
+    const maskOffset = offset;
+    if (masked) offset += 4;
+    if (buffer.length < offset + length) return null;
+    const payload = Buffer.from(buffer.subarray(offset, offset + length));
+    if (masked) {
+        for (let i = 0; i < payload.length; i++) payload[i] ^= buffer[maskOffset + (i % 4)];
+    }
+    return { fin, opcode, payload, size: offset + length };
+};
+
+// Server frames are never masked
+const encodeFrame = (opcode: number, payload: Buffer): Buffer => {
+    const length = payload.length;
+    let header: Buffer;
+    if (length < 126) {
+        header = Buffer.from([0x80 | opcode, length]);
+    } else if (length < 65536) {
+        header = Buffer.alloc(4);
+        header[0] = 0x80 | opcode;
+        header[1] = 126;
+        header.writeUInt16BE(length, 2);
+    } else {
+        header = Buffer.alloc(10);
+        header[0] = 0x80 | opcode;
+        header[1] = 127;
+        header.writeBigUInt64BE(BigInt(length), 2);
+    }
+    return Buffer.concat([header, payload]);
+};
+
+// Completes the handshake for an 'upgrade' request; null (and the socket closed) if it is not a WebSocket
+export const acceptWebSocket = (req: http.IncomingMessage, socket: Duplex): WebSocketConnection | null => {
+    const key = req.headers['sec-websocket-key'];
+    if (req.headers.upgrade?.toLowerCase() !== 'websocket' || typeof key !== 'string') {
+        socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+        return null;
+    }
+    const accept = crypto.createHash('sha1').update(key + HANDSHAKE_GUID).digest('base64');
+    socket.write([
+        'HTTP/1.1 101 Switching Protocols',
+        'Upgrade: websocket',
+        'Connection: Upgrade',
+        `Sec-WebSocket-Accept: ${accept}`,
+        '', ''
+    ].join('\r\n'));
+
+    let messageHandler: (text: string) => void = () => {};
+    let closeHandler: () => void = () => {};
+    let buffer = Buffer.alloc(0);
+    let fragments: Buffer[] = [];
+    let closed = false;
+
+    const close = () => {
+        if (closed) return;
+        closed = true;
+        socket.end(encodeFrame(OPCODE.CLOSE, Buffer.alloc(0)));
+        closeHandler();
+    };
+
+    socket.on('data', (chunk: Buffer) => {
+        buffer = Buffer.concat([buffer, chunk]);
+        try {
+            for (let frame = readFrame(buffer); frame; frame = readFrame(buffer)) {
+                buffer = buffer.subarray(frame.size);
+                if (frame.opcode === OPCODE.CLOSE) return close();
+                if (frame.opcode === OPCODE.PING) { socket.write(encodeFrame(OPCODE.PONG, frame.payload)); continue; }
+                if (frame.opcode === OPCODE.PONG) continue;
+                if (frame.opcode !== OPCODE.TEXT && frame.opcode !== OPCODE.CONTINUATION) return close(); // Binary is not used
+                fragments.push(frame.payload);
+                if (frame.fin) {
+                    const text = Buffer.concat(fragments).toString('utf-8');
+                    fragments = [];
+                    messageHandler(text);
+                }
+            }
+        } catch (error) {
+            console.warn('Dropping WebSocket client:', (error as Error).message);
+            close();
+        }
+    });
+    socket.on('close', () => {
+        if (closed) return;
+        closed = true;
+        closeHandler();
+    });
+    socket.on('error', () => socket.destroy());
+
+    return {
+        send: (text) => { if (!closed) socket.write(encodeFrame(OPCODE.TEXT, Buffer.from(text, 'utf-8'))); },
+        close,
+        onMessage: (handler) => { messageHandler = handler; },
+        onClose: (handler) => { closeHandler = handler; }
+    };
+};
@@ -0,0 +1,123 @@
+import { GameAction, ActionContext } from '../types';
+
+// Outbound queue of game actions for flaky venue Wi-Fi. Actions are kept in
+// sessionStorage (per tab: in localStorage mode each tab plays its own team),
+// so a dropped connection or a reload loses nothing, and they are sent one at
+// a time in order. A failed delivery is retried with exponential backoff, and
+// right away when the connection comes back. The delivery re-runs the action
+// on the latest room state, which drops it if the game has moved on.
+
+const QUEUE_KEY = 'swot_action_queue';
+const BASE_RETRY_MS = 1000;
+const MAX_RETRY_MS = 30000;
+const DELIVERY_TIMEOUT_MS = 15000; // A write that never answers is retried too
+
+export interface QueuedAction {
+    id: string;
+    roomId: string;
+    actorId: string;
+    action: GameAction;
+    context: ActionContext; // The match as the player saw it when acting
+    inbox?: boolean; // Delivered to the room owner's browser, which applies it (RoomStore.sendAction)
+    queuedAt: number;
+    attempts: number; // Failed deliveries so far
+}
+
+// Resolves to true when applied and false when the latest state rejected it
+// (both leave the queue); rejects when it could not be delivered (retried)
+export type DeliverAction = (entry: QueuedAction) => Promise<boolean>;
+
+export interface ActionQueue {
+    enqueue: (entry: Pick<QueuedAction, 'roomId' | 'actorId' | 'action' | 'context' | 'inbox'>) => void;
+    subscribe: (callback: (entries: QueuedAction[]) => void) => () => void;
+    // Try the next action now instead of waiting for its backoff
+    retryNow: () => void;
+}
+
+const readQueue = (): QueuedAction[] => {
+    try {
+        const data = sessionStorage.getItem(QUEUE_KEY);
+        const entries = data ? JSON.parse(data) : [];
+        return Array.isArray(entries) ? entries : [];
+    } catch {
+        return [];
+    }
+};
+
+const writeQueue = (entries: QueuedAction[]) => {
+    try {
+        if (entries.length === 0) sessionStorage.removeItem(QUEUE_KEY);
+        else sessionStorage.setItem(QUEUE_KEY, JSON.stringify(entries));
+    } catch {
+        console.warn('sessionStorage not available');
+    }
+};
+
+const getRetryDelay = (attempts: number): number =>
+    Math.min(MAX_RETRY_MS, BASE_RETRY_MS * 2 ** Math.max(0, attempts - 1));
+
+const withTimeout = <T>(promise: Promise<T>, ms: number): Promise<T> => new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`No answer after ${ms} ms`)), ms);
+    promise.then(resolve, reject).finally(() => clearTimeout(timer));
+});
+
+export const createActionQueue = (deliver: DeliverAction): ActionQueue => {
+    let entries = readQueue();
+    let sending = false;
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+    let nextId = 1;
+    const listeners = new Set<(entries: QueuedAction[]) => void>();
+
+    const update = (next: QueuedAction[]) => {
+        entries = next;
+        writeQueue(entries);
+        listeners.forEach(listener => listener(entries));
+    };
+
+    const flush = async () => {
+        if (sending || entries.length === 0) return;
+        if (retryTimer) {
+            clearTimeout(retryTimer);
+            retryTimer = null;
+        }
+        sending = true;
+        const entry = entries[0];
+        let failed = false;
+        try {
+            const applied = await withTimeout(deliver(entry), DELIVERY_TIMEOUT_MS);
+            if (!applied) console.warn('Queued action dropped by the latest room state:', entry.action.type);
+        } catch (error) {
+            failed = true;
+            console.warn(`Action delivery failed (attempt ${entry.attempts + 1}), will retry:`, error);
+        }
+        sending = false;
+        if (failed) {
+            const attempts = entry.attempts + 1;
+            update(entries.map(e => e.id === entry.id ? { ...e, attempts } : e));
+            retryTimer = setTimeout(flush, getRetryDelay(attempts));
+        } else {
+            update(entries.filter(e => e.id !== entry.id));
+            flush();
+        }
+    };
+
+    window.addEventListener('online', () => flush());
+    // Left over from before a reload
+    if (entries.length > 0) setTimeout(flush, 0);
+
+    return {
+        enqueue: (entry) => {
+            const id = `${Date.now().toString(36)}-${nextId++}`;
+            update([...entries, { ...entry, id, queuedAt: Date.now(), attempts: 0 }]);
+            flush();
+        },
+
+        subscribe: (callback) => {
+            listeners.add(callback);
+            callback(entries);
+            return () => { listeners.delete(callback); };
+        },
+
+        retryNow: () => { flush(); }
+    };
+};
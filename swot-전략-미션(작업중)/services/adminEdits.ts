@@ -0,0 +1,171 @@
+import { Room, Team, Match, BotLevel, ImageAsset, Tournament, BracketSide } from '../types';
+import { getByeChips, getRuleSet } from './gameEngine';
+import { BOT_LEVELS } from './bots';
+import { TOURNAMENT_FORMATS, createMatch, createByeMatch, assignByes, getCurrentCycle } from './tournament';
+
+// Facilitator edits from the dashboard. The browser sends only what changed
+// (diffAdminEdit) and applyAdminEdit merges it into the latest copy of the
+// room, in a store transaction or on the referee server, so edits never
+// overwrite what teams did in the meantime. Game state (boards, scores,
+// winnings, rounds) is never taken from an edit: it only changes through
+// game actions.
+
+// One team's changes; teams not in the room yet are added as house bots
+export interface TeamEdit {
+    id: string;
+    name?: string;
+    bot?: BotLevel | null; // null hands the team back to humans
+    isReady?: false; // Clears the team's board (a bot handed back, a new tournament)
+}
+
+// Missing = unchanged, null = removed
+export interface AdminEdit {
+    name?: string;
+    showOdds?: boolean;
+    feedback?: string | null;
+    winnerPhotos?: ImageAsset[] | null;
+    winnerPoster?: ImageAsset | null;
+    status?: Room['status'];
+    teams?: TeamEdit[];
+    // Pairings, only while cycle 1 is being set up
+    matches?: Match[];
+    tournament?: Tournament | null;
+    cycle?: number | null;
+}
+
+const ROOM_FIELDS = ['name', 'showOdds', 'feedback', 'winnerPhotos', 'winnerPoster', 'status', 'matches', 'tournament', 'cycle'] as const;
+
+// What the facilitator changed between two copies of a room (spread updates
+// keep untouched fields and teams by reference, so reference checks are enough)
+export const diffAdminEdit = (prev: Room, next: Room): AdminEdit => {
+    const edit: Record<string, unknown> = {};
+    ROOM_FIELDS.forEach(key => {
+        if (prev[key] !== next[key]) edit[key] = next[key] ?? null;
+    });
+    if (prev.teams !== next.teams) {
+        const teams = next.teams.flatMap((team): TeamEdit[] => {
+            const before = prev.teams.find(t => t.id === team.id);
+            if (!before) return [{ id: team.id, name: team.name, bot: team.bot ?? null }];
+            if (before === team) return [];
+            const teamEdit: TeamEdit = { id: team.id };
+            if (before.name !== team.name) teamEdit.name = team.name;
+            if (before.bot !== team.bot) teamEdit.bot = team.bot ?? null;
+            if (before.isReady && !team.isReady) teamEdit.isReady = false;
+            return Object.keys(teamEdit).length > 1 ? [teamEdit] : [];
+        });
+        if (teams.length > 0) edit.teams = teams;
+    }
+    return edit as AdminEdit;
+};
+
+export const isEmptyAdminEdit = (edit: AdminEdit): boolean => Object.keys(edit).length === 0;
+
+// --- Applying an edit (its values may come straight from a request body) ---
+
+const STATUS_CHANGES: Partial<Record<Room['status'], Room['status']>> = { PREPARING: 'PLAYING', PLAYING: 'FINISHED' };
+const BRACKET_SIDES: BracketSide[] = ['WINNERS', 'LOSERS', 'GROUP', 'LEAGUE'];
+
+const isBotLevel = (value: unknown): value is BotLevel => BOT_LEVELS.some(b => b.id === value);
+
+const isImage = (value: unknown): value is ImageAsset =>
+    typeof value === 'object' && value !== null && typeof (value as ImageAsset).url === 'string';
+
+const isStringList = (value: unknown): value is string[] => Array.isArray(value) && value.every(v => typeof v === 'string');
+
+// Pairings may still change: cycle 1 of a room that has not started playing
+const isSetupOpen = (room: Room): boolean =>
+    room.status === 'PREPARING' && getCurrentCycle(room) === 1 && room.matches.every(m => m.isBye || m.history.length === 0);
+
+const mergeTeams = (room: Room, edits: unknown): Team[] => {
+    if (!Array.isArray(edits)) return room.teams;
+    const preparing = room.status === 'PREPARING';
+    let teams = room.teams;
+    for (const edit of edits as Partial<TeamEdit>[]) {
+        if (typeof edit?.id !== 'string') continue;
+        const existing = teams.find(t => t.id === edit.id);
+        if (!existing) {
+            // House bots added while the pairings are set up
+            if (isSetupOpen(room) && isBotLevel(edit.bot)) {
+                const name = typeof edit.name === 'string' ? edit.name : edit.id;
+                teams = [...teams, { id: edit.id, name, roomId: room.id, isReady: false, score: 0, winnings: 0, members: [], bot: edit.bot }];
+            }
+            continue;
+        }
+        let team = existing;
+        if (typeof edit.name === 'string' && edit.name !== team.name) team = { ...team, name: edit.name };
+        // Bots and boards only change between cycles
+        if (preparing && isBotLevel(edit.bot) && edit.bot !== team.bot) team = { ...team, bot: edit.bot };
+        if (preparing && edit.bot === null && team.bot) team = { ...team, bot: undefined, isReady: false, strategy: undefined };
+        if (preparing && edit.isReady === false && team.isReady) team = { ...team, isReady: false, strategy: undefined };
+        if (team !== existing) teams = teams.map(t => t.id === team.id ? team : t);
+    }
+    return teams;
+};
+
+// Rebuilt from the pairing only: a client cannot hand in scores, rounds or results
+const toPairings = (matches: unknown, teams: Team[], byeChips: number): Match[] => {
+    if (!Array.isArray(matches)) return [];
+    const teamIds = new Set(teams.map(t => t.id));
+    const slot = (id: unknown): string => typeof id === 'string' && teamIds.has(id) ? id : '';
+    return (matches as Partial<Match>[]).filter(m => typeof m?.id === 'string').map((m, i) => {
+        const extra: Partial<Match> = { id: m.id, cycle: 1 };
+        if (m.bracket && BRACKET_SIDES.includes(m.bracket)) extra.bracket = m.bracket;
+        if (typeof m.group === 'number') extra.group = m.group;
+        const teamAId = slot(m.teamAId);
+        return m.isBye && teamAId ? createByeMatch(teamAId, i, byeChips, extra) : createMatch(teamAId, slot(m.teamBId), i, extra);
+    });
+};
+
+// A freshly seeded tournament: nobody has lost and there is no champion yet
+const toFreshTournament = (value: unknown, teams: Team[]): Tournament | undefined => {
+    const t = value as Partial<Tournament> | null;
+    if (!t || !TOURNAMENT_FORMATS.some(f => f.id === t.format) || !isStringList(t.seeds)) return undefined;
+    if (t.stage !== 'GROUP' && t.stage !== 'KNOCKOUT' && t.stage !== 'LEAGUE') return undefined;
+    const teamIds = new Set(teams.map(team => team.id));
+    const tournament: Tournament = { format: t.format!, stage: t.stage, losses: {}, seeds: t.seeds.filter(id => teamIds.has(id)) };
+    if (Array.isArray(t.groups) && t.groups.every(isStringList)) tournament.groups = t.groups.map(g => g.filter(id => teamIds.has(id)));
+    if (typeof t.advancePerGroup === 'number') tournament.advancePerGroup = t.advancePerGroup;
+    if (typeof t.totalCycles === 'number') tournament.totalCycles = t.totalCycles;
+    return tournament;
+};
+
+// The latest room with the edit merged in; the same instance when nothing applies
+export const applyAdminEdit = (room: Room, edit: AdminEdit): Room => {
+    const next: Room = { ...room };
+    let changed = false;
+    const set = <K extends keyof Room>(key: K, value: Room[K]) => {
+        if (next[key] === value) return;
+        if (value === undefined) delete next[key];
+        else next[key] = value;
+        changed = true;
+    };
+    const has = (key: keyof AdminEdit) => key in edit;
+
+    if (typeof edit.name === 'string') set('name', edit.name);
+    if (typeof edit.showOdds === 'boolean') set('showOdds', edit.showOdds);
+    if (has('feedback') && (edit.feedback == null || typeof edit.feedback === 'string')) set('feedback', edit.feedback ?? undefined);
+    if (has('winnerPoster') && (edit.winnerPoster == null || isImage(edit.winnerPoster))) set('winnerPoster', edit.winnerPoster ?? undefined);
+    if (has('winnerPhotos') && (edit.winnerPhotos == null || (Array.isArray(edit.winnerPhotos) && edit.winnerPhotos.every(isImage)))) {
+        set('winnerPhotos', edit.winnerPhotos ?? undefined);
+    }
+
+    const teams = mergeTeams(room, edit.teams);
+    if (teams !== room.teams) {
+        set('teams', teams);
+        set('totalTeams', teams.length);
+    }
+
+    if (isSetupOpen(room)) {
+        if (has('matches')) set('matches', toPairings(edit.matches, teams, getByeChips(getRuleSet(room))));
+        if (has('tournament')) set('tournament', toFreshTournament(edit.tournament, teams));
+        if (has('cycle')) set('cycle', edit.cycle == null ? undefined : 1);
+    }
+
+    if (edit.status && STATUS_CHANGES[room.status] === edit.status) {
+        set('status', edit.status);
+        // Nobody waits forever for an opponent who is not coming
+        if (edit.status === 'PLAYING') set('matches', assignByes(next.matches, getByeChips(getRuleSet(room))));
+    }
+
+    return changed ? next : room;
+};
@@ -0,0 +1,38 @@
+import { Team, Match, RuleSet, DEFAULT_RULE_SET } from '../types';
+import { getCardColor, getSlotColor } from './hiddenInfo';
+import { getRoundOdds, getCallEdge } from './odds';
+
+// Offline stand-in for the Gemini advisor: the same 3-point advice, worked
+// out from what the team can see (opponent bet, card color and the opponent
+// cards not played yet). Deterministic, so it needs neither a key nor a network.
+
+const percent = (x: number) => `${Math.round(x * 100)}%`;
+const amount = (x: number) => `${Math.round(Math.abs(x) * 10) / 10}억`;
+
+export const getOfflineAdvice = (team: Team, opponent: Team, match: Match, rules: RuleSet = DEFAULT_RULE_SET): string => {
+    const currentRound = match.currentRound;
+    const myStrat = team.strategy![currentRound - 1];
+    const oppStrat = opponent.strategy![currentRound - 1];
+    const isTeamA = match.teamAId === team.id;
+
+    // Opponent cards already shown in this match
+    const oppUsedCards = (match.history || []).map(h => isTeamA ? h.teamBCard : h.teamACard);
+    const oppRemaining = rules.deck.filter(c => !oppUsedCards.includes(c));
+    const oppColor = getSlotColor(oppStrat);
+    const candidates = oppColor ? oppRemaining.filter(c => getCardColor(c) === oppColor) : oppRemaining;
+    const odds = getRoundOdds(myStrat.card, candidates);
+    if (!odds) return "추천: 승부\n1. 상대 카드 정보가 부족해 승률을 계산할 수 없습니다.\n2. 배팅 차이만 보고 판단하세요.\n3. (오프라인 분석)";
+
+    const carryOver = match.carryOver || 0;
+    const edge = getCallEdge(odds, myStrat.chips, oppStrat.chips, carryOver);
+    const toCall = oppStrat.chips - myStrat.chips;
+    const colorLabel = oppColor === 'BLACK' ? '검정(짝수)' : oppColor === 'WHITE' ? '흰색(홀수)' : '미확인';
+    const sureThing = odds.lose === 0 ? '지지 않는 카드입니다.' : odds.win === 0 ? '이길 수 없는 카드입니다.' : '';
+
+    return [
+        edge > 0 ? "추천: 승부" : "추천: 포기",
+        `1. 상대 카드 ${colorLabel} 후보 [${candidates.join(', ')}] 중 내 카드 ${myStrat.card} 기준 승 ${percent(odds.win)} / 무 ${percent(odds.draw)} / 패 ${percent(odds.lose)}. ${sureThing}`.trim(),
+        `2. 배팅: 상대 ${oppStrat.chips}억 vs 나 ${myStrat.chips}억${carryOver ? ` (이월 ${carryOver}억)` : ''}. ${toCall > 0 ? `콜하려면 ${toCall}억이 더 필요합니다.` : '추가 부담 없이 콜할 수 있습니다.'}`,
+        `3. 기대값: ${edge > 0 ? '승부가 포기보다' : '포기가 승부보다'} 평균 ${amount(edge)} 유리합니다. (오프라인 분석)`
+    ].join('\n');
+};
@@ -0,0 +1,166 @@
+import { getAuth, onAuthStateChanged, signInAnonymously, signInWithEmailAndPassword, createUserWithEmailAndPassword, signOut, Auth, User } from 'firebase/auth';
+import { Room, AdminUser } from '../types';
+import { getFirebaseApp } from './firebase';
+import { getPlayerId } from './membership';
+
+// Facilitator accounts. With Firebase configured these are Firebase Auth
+// email/password accounts and database.rules.json enforces room ownership.
+// Without Firebase (localStorage mode) a local stand-in keeps salted PBKDF2
+// password hashes in this browser; it only separates facilitators sharing
+// a device and protects nothing beyond it.
+// Players sign in anonymously with Firebase, so their player id is an auth
+// uid the rules can check; they never count as facilitators.
+
+const ACCOUNTS_KEY = 'swot_admin_accounts';
+const SESSION_KEY = 'swot_admin_session';
+const PBKDF2_ITERATIONS = 100000;
+const MIN_PASSWORD_LENGTH = 6;
+
+const MESSAGES = {
+    invalidEmail: '올바른 이메일 주소를 입력해주세요.',
+    weakPassword: `비밀번호는 ${MIN_PASSWORD_LENGTH}자 이상이어야 합니다.`,
+    wrongCredentials: '이메일 또는 비밀번호가 올바르지 않습니다.',
+    emailInUse: '이미 등록된 이메일입니다.',
+    failed: '로그인에 실패했습니다. 잠시 후 다시 시도해주세요.'
+};
+
+// Rooms created before accounts existed have no owner and stay open to every admin
+export const canManageRoom = (room: Pick<Room, 'ownerId'>, user: AdminUser | null): boolean =>
+    Boolean(user) && (!room.ownerId || room.ownerId === user!.uid);
+
+const checkCredentials = (email: string, password: string) => {
+    if (!/^[^\s@]+@[^\s@]+$/.test(email)) throw new Error(MESSAGES.invalidEmail);
+    if (password.length < MIN_PASSWORD_LENGTH) throw new Error(MESSAGES.weakPassword);
+};
+
+// --- Firebase Auth ---
+
+const getFirebaseAuth = (): Auth | null => {
+    const app = getFirebaseApp();
+    return app ? getAuth(app) : null;
+};
+
+const toAdminUser = (user: User): AdminUser => ({ uid: user.uid, email: user.email || '' });
+
+const toFirebaseMessage = (error: unknown): string => {
+    const code = (error as { code?: string })?.code || '';
+    if (code === 'auth/email-already-in-use') return MESSAGES.emailInUse;
+    if (code === 'auth/invalid-email') return MESSAGES.invalidEmail;
+    if (code === 'auth/weak-password') return MESSAGES.weakPassword;
+    if (['auth/invalid-credential', 'auth/wrong-password', 'auth/user-not-found'].includes(code)) return MESSAGES.wrongCredentials;
+    return MESSAGES.failed;
+};
+
+// --- Local stand-in ---
+
+interface LocalAccount {
+    uid: string;
+    salt: string; // hex
+    hash: string; // hex PBKDF2-SHA256
+}
+
+const listeners = new Set<(user: AdminUser | null) => void>();
+
+const toHex = (bytes: Uint8Array): string => Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+const fromHex = (hex: string): Uint8Array => new Uint8Array((hex.match(/../g) || []).map(h => parseInt(h, 16)));
+
+const hashPassword = async (password: string, salt: Uint8Array): Promise<string> => {
+    const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+    const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' }, key, 256);
+    return toHex(new Uint8Array(bits));
+};
+
+const readJSON = <T>(key: string): T | null => {
+    try {
+        const raw = localStorage.getItem(key);
+        return raw ? JSON.parse(raw) as T : null;
+    } catch {
+        return null;
+    }
+};
+
+const loadAccounts = (): Record<string, LocalAccount> => readJSON<Record<string, LocalAccount>>(ACCOUNTS_KEY) || {};
+
+const setLocalSession = (user: AdminUser | null) => {
+    try {
+        if (user) localStorage.setItem(SESSION_KEY, JSON.stringify(user));
+        else localStorage.removeItem(SESSION_KEY);
+    } catch {
+        console.warn('localStorage not available');
+    }
+    listeners.forEach(listener => listener(user));
+};
+
+// --- Public API ---
+
+export const subscribeToAdmin = (callback: (user: AdminUser | null) => void): (() => void) => {
+    const auth = getFirebaseAuth();
+    if (auth) return onAuthStateChanged(auth, user => callback(user && !user.isAnonymous ? toAdminUser(user) : null));
+    listeners.add(callback);
+    callback(readJSON<AdminUser>(SESSION_KEY));
+    return () => { listeners.delete(callback); };
+};
+
+// The id a player joins teams with: the Firebase uid (signed in anonymously
+// when nobody is), or the browser's own id without Firebase
+export const subscribeToPlayerId = (callback: (playerId: string) => void): (() => void) => {
+    const auth = getFirebaseAuth();
+    if (!auth) {
+        callback(getPlayerId());
+        return () => {};
+    }
+    return onAuthStateChanged(auth, user => {
+        if (user) callback(user.uid);
+        else signInAnonymously(auth).catch(error => console.error('Anonymous sign-in failed:', error));
+    });
+};
+
+export const signInAdmin = async (email: string, password: string): Promise<AdminUser> => {
+    const normalized = email.trim().toLowerCase();
+    const auth = getFirebaseAuth();
+    if (auth) {
+        try {
+            return toAdminUser((await signInWithEmailAndPassword(auth, normalized, password)).user);
+        } catch (error) {
+            throw new Error(toFirebaseMessage(error));
+        }
+    }
+    const account = loadAccounts()[normalized];
+    if (!account || await hashPassword(password, fromHex(account.salt)) !== account.hash) {
+        throw new Error(MESSAGES.wrongCredentials);
+    }
+    const user = { uid: account.uid, email: normalized };
+    setLocalSession(user);
+    return user;
+};
+
+export const registerAdmin = async (email: string, password: string): Promise<AdminUser> => {
+    const normalized = email.trim().toLowerCase();
+    checkCredentials(normalized, password);
+    const auth = getFirebaseAuth();
+    if (auth) {
+        try {
+            return toAdminUser((await createUserWithEmailAndPassword(auth, normalized, password)).user);
+        } catch (error) {
+            throw new Error(toFirebaseMessage(error));
+        }
+    }
+    const accounts = loadAccounts();
+    if (accounts[normalized]) throw new Error(MESSAGES.emailInUse);
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const account: LocalAccount = { uid: `u_${toHex(crypto.getRandomValues(new Uint8Array(8)))}`, salt: toHex(salt), hash: await hashPassword(password, salt) };
+    try {
+        localStorage.setItem(ACCOUNTS_KEY, JSON.stringify({ ...accounts, [normalized]: account }));
+    } catch {
+        throw new Error(MESSAGES.failed);
+    }
+    const user = { uid: account.uid, email: normalized };
+    setLocalSession(user);
+    return user;
+};
+
+export const signOutAdmin = async (): Promise<void> => {
+    const auth = getFirebaseAuth();
+    if (auth) await signOut(auth);
+    else setLocalSession(null);
+};
@@ -0,0 +1,133 @@
+import { Room, Team, RoundStrategy, GameAction, RuleSet, BotLevel } from '../types';
+import { getRuleSet, findTeamMatchIndex, getCurrentPot, planCallSteal } from './gameEngine';
+import { redactRoomForTeam } from './hiddenInfo';
+import { estimateRoundOdds, getCallEdge, RoundOdds } from './odds';
+import { getCurrentCycle, getMatchCycle } from './tournament';
+
+// Computer-played teams. Bot strategies are always legal for the room's rule
+// set, and bot decisions only use what that team could see on its own screen.
+
+export const BOT_LEVELS: { id: BotLevel; label: string; description: string }[] = [
+    { id: 'RANDOM', label: '랜덤', description: '무작위 배치, 무작위 결정' },
+    { id: 'CONSERVATIVE', label: '보수적', description: '고르게 배팅, 이길 확률이 높을 때만 콜' },
+    { id: 'BLUFFER', label: '블러퍼', description: '약한 카드에도 크게 배팅, 자주 콜' },
+    { id: 'OPTIMAL', label: '최적화', description: '강한 카드에 집중 배팅, 기대값으로 결정' }
+];
+
+export const getBotLabel = (level: BotLevel): string => BOT_LEVELS.find(b => b.id === level)?.label || level;
+
+export const shuffle = <T>(items: T[], random: () => number): T[] => {
+    const result = [...items];
+    for (let i = result.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+};
+
+// --- Strategy ---
+
+// Minimum bet everywhere, the rest split by weight (largest remainders take the odd chips)
+export const distributeChips = (weights: number[], rules: RuleSet): number[] => {
+    const spare = rules.chips - rules.rounds * rules.minChipsPerRound;
+    const total = weights.reduce((a, b) => a + b, 0);
+    const exact = weights.map(w => (w / total) * spare);
+    const chips = exact.map(Math.floor);
+    let left = spare - chips.reduce((a, b) => a + b, 0);
+    exact.map((x, i) => ({ i, fraction: x - Math.floor(x) }))
+        .sort((a, b) => b.fraction - a.fraction)
+        .forEach(({ i }) => { if (left > 0) { chips[i] += 1; left -= 1; } });
+    return chips.map(c => c + rules.minChipsPerRound);
+};
+
+export const generateBotStrategy = (level: BotLevel, rules: RuleSet, random: () => number = Math.random): RoundStrategy[] => {
+    // Everyone but the random bot plays the strongest cards of the deck
+    const cards = level === 'RANDOM'
+        ? shuffle(rules.deck, random).slice(0, rules.rounds)
+        : [...rules.deck].sort((a, b) => b - a).slice(0, rules.rounds);
+    const order = shuffle(cards, random);
+    const low = Math.min(...rules.deck);
+    const high = Math.max(...rules.deck);
+    const strength = (card: number) => (card - low + 1) / (high - low + 1); // (0, 1]
+
+    const weights = order.map(card => {
+        switch (level) {
+            case 'CONSERVATIVE': return 1;
+            // Big bets on the weakest and the strongest cards are hard to read
+            case 'BLUFFER': return Math.abs(strength(card) - 0.5) * 4 + 0.2;
+            case 'OPTIMAL': return strength(card) ** 2 + 0.05;
+            default: return random() + 0.1;
+        }
+    });
+    const chips = distributeChips(weights, rules);
+    return order.map((card, i) => ({ round: i + 1, card, chips: chips[i] }));
+};
+
+// --- Decisions ---
+
+const wantsToCall = (level: BotLevel, odds: RoundOdds | null, myBet: number, oppBet: number, carryOver: number, random: () => number): boolean => {
+    if (!odds) return random() < 0.5;
+    switch (level) {
+        case 'CONSERVATIVE': return odds.win >= 0.6;
+        case 'BLUFFER': return odds.win + odds.draw >= 0.25 || random() < 0.3;
+        case 'OPTIMAL': return getCallEdge(odds, myBet, oppBet, carryOver) > 0;
+        default: return random() < 0.5;
+    }
+};
+
+const decideTurn = (room: Room, team: Team, level: BotLevel, random: () => number): GameAction => {
+    const view = redactRoomForTeam(room, team.id);
+    const match = view.matches[findTeamMatchIndex(view, team.id)];
+    const opponent = view.teams.find(t => t.id === (match.teamAId === team.id ? match.teamBId : match.teamAId));
+    const myBet = team.strategy?.[match.currentRound - 1]?.chips || 0;
+    const oppBet = opponent?.strategy?.[match.currentRound - 1]?.chips || 0;
+    const carryOver = getCurrentPot(view, match) - myBet - oppBet;
+
+    if (!wantsToCall(level, estimateRoundOdds(view, team.id), myBet, oppBet, carryOver, random)) {
+        return { type: 'FOLD', teamId: team.id };
+    }
+    const steal = planCallSteal(view, team.id);
+    return steal ? { type: 'CALL', teamId: team.id, steal } : { type: 'FOLD', teamId: team.id };
+};
+
+// Every action a bot team would take right now. Some may not apply yet
+// (e.g. opening a round before the opponent submitted), so callers try them
+// in order until one changes the room.
+export const getBotActions = (room: Room, random: () => number = Math.random): GameAction[] => {
+    if (room.status === 'FINISHED') return [];
+    const actions: GameAction[] = [];
+    const cycle = getCurrentCycle(room);
+    for (const team of room.teams) {
+        if (!team.bot) continue;
+        const match = room.matches[findTeamMatchIndex(room, team.id)];
+        if (!match || match.isBye || getMatchCycle(match) !== cycle) continue;
+        if (!team.isReady) {
+            actions.push({ type: 'SUBMIT_STRATEGY', teamId: team.id, strategy: generateBotStrategy(team.bot, getRuleSet(room), random) });
+            continue;
+        }
+        if (room.status !== 'PLAYING') continue;
+        const opponentId = match.teamAId === team.id ? match.teamBId : match.teamAId;
+        const opponentIsBot = Boolean(room.teams.find(t => t.id === opponentId)?.bot);
+        // Rounds are opened by team A, and a human opponent clicks SHOWDOWN themselves
+        if (match.roundStatus === 'READY' && match.teamAId === team.id) actions.push({ type: 'OPEN_ROUND', matchId: match.id });
+        if (match.roundStatus === 'DECISION' && match.turnOwner === team.id) actions.push(decideTurn(room, team, team.bot, random));
+        if (match.roundStatus === 'SHOWDOWN' && opponentIsBot) actions.push({ type: 'SHOWDOWN', matchId: match.id });
+        if (match.roundStatus === 'RESULT' && !match.resultConfirmed?.[team.id]) actions.push({ type: 'CONFIRM_RESULT', teamId: team.id });
+    }
+    return actions;
+};
+
+// Team slot filled by the computer, e.g. to even out an odd bracket
+export const createBotTeam = (room: Room, level: BotLevel): Team => {
+    const number = room.teams.length + 1;
+    return {
+        id: `t_${Date.now()}_${number}`,
+        name: `House Bot ${number}`,
+        roomId: room.id,
+        isReady: false,
+        score: 0,
+        winnings: 0,
+        members: [],
+        bot: level
+    };
+};
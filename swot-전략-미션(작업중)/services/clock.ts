@@ -0,0 +1,12 @@
+// Server time as this device sees it. Phase deadlines (services/timers.ts)
+// are server timestamps, so every phone counts down to the same moment even
+// when its own clock is off. Firebase and the referee report the offset;
+// other stores run next to the device and use its clock as is.
+
+let offsetMs = 0;
+
+export const setServerTimeOffset = (ms: number) => {
+    offsetMs = Number.isFinite(ms) ? ms : 0;
+};
+
+export const serverNow = (): number => Date.now() + offsetMs;
@@ -1,6 +1,10 @@
 import { initializeApp } from 'firebase/app';
-import { getDatabase, ref, set, get, onValue, Database, DatabaseReference } from 'firebase/database';
-import { Room } from '../types';
+import { getDatabase, ref, set, get, update, onValue, runTransaction, Database, DatabaseReference } from 'firebase/database';
+import { getAuth } from 'firebase/auth';
+import { Room, Team, RoomSummary, ConnectionStatus } from '../types';
+import { RoomStore, toRoomSummary, toTeamSummaries, joinTeamInTransaction } from './roomStore';
+import { parseRoom, parseRooms, parseRoomSummaries, parseInboxActions } from './schema';
+import { normalizeCode } from './membership';
 
 // Firebase configuration - these will be replaced with environment variables
 const firebaseConfig = {
@@ -30,206 +34,348 @@ const initFirebase = () => {
     return { app, database };
 };
 
-// Get rooms reference
-const getRoomsRef = (): DatabaseReference | null => {
-    const { database } = initFirebase();
-    if (!database) return null;
-    return ref(database, 'rooms');
-};
-
-// Safe localStorage access (some browsers block it)
-const safeLocalStorageGet = (key: string): string | null => {
-    try {
-        return localStorage.getItem(key);
-    } catch {
-        return null;
-    }
-};
+// Shared with services/auth.ts (null when Firebase is not configured)
+export const getFirebaseApp = () => initFirebase().app;
 
-const safeLocalStorageSet = (key: string, value: string): void => {
-    try {
-        localStorage.setItem(key, value);
-    } catch {
-        console.warn('localStorage not available');
-    }
+// Check if Firebase is configured
+export const isFirebaseConfigured = (): boolean => {
+    return Boolean(firebaseConfig.databaseURL);
 };
 
-// Convert Firebase data to Room array
-// Firebase can return object with numeric keys instead of array
-const toArray = <T>(data: unknown): T[] => {
-    if (!data) return [];
-    if (Array.isArray(data)) return data;
-    if (typeof data === 'object') {
-        // Convert object with keys to array
-        return Object.values(data as Record<string, T>).filter(Boolean);
-    }
-    return [];
+// Posters and photos go to Firebase Storage when a bucket is set (services/imageStorage.ts)
+export const isFirebaseStorageConfigured = (): boolean => {
+    return isFirebaseConfigured() && Boolean(firebaseConfig.storageBucket);
 };
 
 // Remove undefined values from object (Firebase doesn't accept undefined)
-const removeUndefined = (obj: any): any => {
-    if (obj === null || obj === undefined) return null;
-    if (Array.isArray(obj)) {
-        return obj.map(removeUndefined);
+const removeUndefined = (value: unknown): unknown => {
+    if (value === null || value === undefined) return null;
+    if (Array.isArray(value)) {
+        return value.map(removeUndefined);
     }
-    if (typeof obj === 'object') {
-        const cleaned: any = {};
-        for (const key of Object.keys(obj)) {
-            const value = obj[key];
-            if (value !== undefined) {
-                cleaned[key] = removeUndefined(value);
+    if (typeof value === 'object') {
+        const cleaned: Record<string, unknown> = {};
+        for (const [key, entry] of Object.entries(value)) {
+            if (entry !== undefined) {
+                cleaned[key] = removeUndefined(entry);
             }
         }
         return cleaned;
     }
-    return obj;
+    return value;
 };
 
-// Normalize Room data from Firebase (convert nested objects to arrays)
-const normalizeRoom = (room: any): Room => {
-    if (!room) return room;
-
-    // Explicitly preserve all critical room fields to ensure sync works correctly
-    return {
-        id: room.id,
-        name: room.name,
-        totalTeams: room.totalTeams,
-        currentRound: room.currentRound || 1,
-        status: room.status || 'PREPARING', // Critical: must explicitly preserve status
-        feedback: room.feedback,
-        winnerPhotoUrls: room.winnerPhotoUrls,
-        winnerPosterUrl: room.winnerPosterUrl,
-        teams: toArray(room.teams).map((team: any) => ({
-            id: team.id,
-            name: team.name,
-            roomId: team.roomId,
-            isReady: team.isReady || false,
-            score: team.score || 0,
-            winnings: team.winnings || 0,
-            members: toArray(team.members),
-            strategy: toArray(team.strategy)
-        })),
-        matches: toArray(room.matches).map((match: any) => ({
-            id: match.id,
-            teamAId: match.teamAId || '',
-            teamBId: match.teamBId || '',
-            teamAScore: match.teamAScore || 0,
-            teamBScore: match.teamBScore || 0,
-            currentRound: match.currentRound || 1,
-            roundStatus: match.roundStatus || 'READY',
-            turnOwner: match.turnOwner,
-            pot: match.pot || 0,
-            carryOver: match.carryOver || 0,
-            history: toArray(match.history),
-            aiHelps: match.aiHelps || {},
-            aiAdvice: match.aiAdvice || {},
-            winnerId: match.winnerId,
-            // Round result synchronization fields
-            lastRoundResult: match.lastRoundResult || undefined,
-            resultConfirmed: match.resultConfirmed || {},
-            lastAction: match.lastAction || undefined
-        }))
-    };
+// Firebase multi-path update payload: undefined means "delete this field"
+const toUpdatePayload = (patch: Record<string, unknown>): Record<string, unknown> => {
+    const payload: Record<string, unknown> = {};
+    for (const key of Object.keys(patch)) {
+        payload[key] = patch[key] === undefined ? null : removeUndefined(patch[key]);
+    }
+    return payload;
 };
 
-const toRoomArray = (data: unknown): Room[] => {
-    const rooms = toArray<any>(data);
-    return rooms.map(normalizeRoom).filter(Boolean);
-};
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const MAX_TRANSACTION_ATTEMPTS = 3;
+
+// Room fields copied into the rooms index
+const INDEX_FIELDS: (keyof RoomSummary & keyof Room)[] = ['name', 'status', 'ownerId', 'teams'];
+
+// Join codes live in roomSecrets/{roomId}/{teamId} and players in
+// roomPlayers/{roomId}/{uid}. Only the owner reads them all; a player reads
+// their own entry, which they write with the code to join (database.rules.json
+// checks it against roomSecrets, which only lists the room's human teams).
+// Rooms are stored without either, and the adapter merges back in what this
+// user may read. A PIN is looked up in pins/{pin}.
+//
+// Only the owner writes a room; its players leave their game actions in
+// roomActions/{roomId}/{uid} for the owner's browser to apply. Rooms without
+// an owner predate all this and are still written by everyone.
+interface PlayerEntry {
+    teamId: string;
+    name: string;
+}
+
+const toStoredTeams = (teams: Team[]): Team[] => teams.map(({ joinCode, players, ...team }) => team);
+
+const toStoredRoom = (room: Room): Room => ({ ...room, teams: toStoredTeams(room.teams) });
 
-// Save rooms to Firebase
-export const saveRoomsToFirebase = async (rooms: Room[]): Promise<void> => {
-    const roomsRef = getRoomsRef();
-    if (roomsRef) {
+// Bot teams get no entry, so the rules refuse joining them
+const toSecrets = (teams: Team[]): Record<string, string> =>
+    Object.fromEntries(teams.filter(t => t.joinCode && !t.bot).map(t => [t.id, t.joinCode!]));
+
+const withMembership = (room: Room, secrets: Record<string, string>, players: Record<string, PlayerEntry>): Room => ({
+    ...room,
+    teams: room.teams.map(t => {
+        const joined = Object.entries(players).filter(([, p]) => p.teamId === t.id).map(([uid, p]) => [uid, p.name]);
+        if (!secrets[t.id] && joined.length === 0) return t;
+        return {
+            ...t,
+            joinCode: secrets[t.id] ?? t.joinCode,
+            players: joined.length > 0 ? { ...t.players, ...Object.fromEntries(joined) } : t.players
+        };
+    })
+});
+
+const isPermissionDenied = (error: unknown): boolean =>
+    /permission/i.test(String((error as { code?: string })?.code || (error as Error)?.message || ''));
+
+// Firebase Realtime Database adapter. Writes are scoped to one room and never
+// overwrite the whole rooms tree; the SDK queues writes made while offline.
+// Next to rooms/{roomId} every write keeps roomIndex/{roomId} (a RoomSummary)
+// up to date, so phones never download other rooms' strategies or photos.
+export const createFirebaseStore = (): RoomStore => {
+    const { database } = initFirebase();
+    if (!database) throw new Error('Firebase is not configured (FIREBASE_DATABASE_URL)');
+    const rootRef = ref(database);
+    const indexRef = ref(database, 'roomIndex');
+    const getRoomRef = (roomId: string): DatabaseReference => ref(database, `rooms/${roomId}`);
+    // Join codes and players read for the open rooms, so transactions see them too
+    const membership = new Map<string, { secrets: Record<string, string>; players: Record<string, PlayerEntry> }>();
+
+    // Rooms can only be read one at a time (their owner's and members' own)
+    const load = async (): Promise<Room[]> => {
         try {
-            // Save as object with room IDs as keys for better Firebase compatibility
-            // Remove undefined values as Firebase doesn't accept them
-            const roomsObject: Record<string, any> = {};
-            rooms.forEach(room => {
-                roomsObject[room.id] = removeUndefined(room);
-            });
-            await set(roomsRef, roomsObject);
+            const index = parseRoomSummaries((await get(indexRef)).val());
+            const snapshots = await Promise.all(index.map(s => get(getRoomRef(s.id)).catch(() => null)));
+            return parseRooms(snapshots.flatMap(snapshot => snapshot?.exists() ? [snapshot.val()] : []));
         } catch (error) {
-            console.error('Error saving to Firebase:', error);
-            // Fallback to localStorage
-            safeLocalStorageSet('swot_game_rooms', JSON.stringify(rooms));
-        }
-    } else {
-        // Fallback to localStorage if Firebase not configured
-        safeLocalStorageSet('swot_game_rooms', JSON.stringify(rooms));
-        try {
-            window.dispatchEvent(new Event('storage'));
-        } catch {
-            // Ignore dispatch errors
+            console.error('Error reading from Firebase:', error);
+            return [];
         }
-    }
-};
+    };
 
-// Get rooms from Firebase (one-time fetch)
-export const getRoomsFromFirebase = async (): Promise<Room[]> => {
-    const roomsRef = getRoomsRef();
-    if (roomsRef) {
-        try {
-            const snapshot = await get(roomsRef);
-            if (snapshot.exists()) {
-                return toRoomArray(snapshot.val());
+    // Firebase re-runs the updater whenever another client wrote first, so
+    // concurrent actions (e.g. both teams confirming a result) never
+    // overwrite each other
+    const transaction: RoomStore['transaction'] = async (roomId, updater) => {
+        for (let attempt = 1; attempt <= MAX_TRANSACTION_ATTEMPTS; attempt++) {
+            try {
+                let before: Room | null = null;
+                let secrets: { before: Record<string, string>; after: Record<string, string> } | null = null;
+                const result = await runTransaction(getRoomRef(roomId), (current) => {
+                    // Not in the local cache yet: Firebase retries with the server value
+                    if (!current) return current;
+                    const stored = parseRoom(current);
+                    if (!stored) return undefined; // Unreadable data: leave it alone
+                    const known = membership.get(roomId);
+                    const room = known ? withMembership(stored, known.secrets, known.players) : stored;
+                    const next = updater(room);
+                    if (next === room) return undefined;
+                    before = stored;
+                    secrets = known ? { before: known.secrets, after: toSecrets(next.teams) } : null;
+                    return removeUndefined(toStoredRoom(next));
+                });
+                if (!result.committed || !result.snapshot.exists()) return null;
+                const after = parseRoom(result.snapshot.val());
+                // Joins and ready flags show on the landing page
+                const summary = after && removeUndefined(toRoomSummary(after));
+                if (summary && JSON.stringify(summary) !== JSON.stringify(before && removeUndefined(toRoomSummary(before)))) {
+                    set(ref(database, `roomIndex/${roomId}`), summary).catch(error => console.error('Error updating room index:', error));
+                }
+                // A team turned into a bot (or back) can no longer (or again) be joined
+                if (after?.ownerId && after.ownerId === getAuth(getFirebaseApp()!).currentUser?.uid
+                    && secrets && JSON.stringify(secrets.before) !== JSON.stringify(secrets.after)) {
+                    set(ref(database, `roomSecrets/${roomId}`), secrets.after).catch(error => console.error('Error updating join codes:', error));
+                }
+                return after;
+            } catch (error) {
+                console.warn(`Room transaction failed (attempt ${attempt}/${MAX_TRANSACTION_ATTEMPTS}):`, error);
+                if (attempt < MAX_TRANSACTION_ATTEMPTS) await delay(attempt * 300);
             }
-            return [];
-        } catch (error) {
-            console.error('Error reading from Firebase:', error);
-            // Fallback to localStorage
-            const data = safeLocalStorageGet('swot_game_rooms');
-            return data ? JSON.parse(data) : [];
         }
-    } else {
-        // Fallback to localStorage
-        const data = safeLocalStorageGet('swot_game_rooms');
-        return data ? JSON.parse(data) : [];
-    }
-};
+        throw new Error(`Room transaction gave up after ${MAX_TRANSACTION_ATTEMPTS} attempts: ${roomId}`);
+    };
+
+    return {
+        kind: 'FIREBASE',
+
+        load,
+
+        subscribeToIndex: (callback) => onValue(indexRef, (snapshot) => {
+            callback(snapshot.exists() ? parseRoomSummaries(snapshot.val()) : []);
+        }, (error) => {
+            console.error('Firebase index subscription error:', error);
+        }),
+
+        // Only the owner and the room's players may read it; the owner also gets
+        // the join codes and every player, a player their own entry
+        subscribeToRoom: (roomId, callback) => {
+            let room: Room | null = null;
+            let secrets: Record<string, string> = {};
+            let players: Record<string, PlayerEntry> = {};
+            const emit = () => {
+                membership.set(roomId, { secrets, players });
+                callback(room && withMembership(room, secrets, players));
+            };
+            const unsubscribers = [
+                onValue(getRoomRef(roomId), (snapshot) => {
+                    room = snapshot.exists() ? parseRoom(snapshot.val()) : null;
+                    emit();
+                }, (error) => {
+                    // Not joined yet: the player subscribes again once they are
+                    if (!isPermissionDenied(error)) console.error('Firebase room subscription error:', error);
+                }),
+                onValue(ref(database, `roomSecrets/${roomId}`), (snapshot) => {
+                    secrets = snapshot.val() || {};
+                    emit();
+                }, () => { /* Not the owner */ }),
+                onValue(ref(database, `roomPlayers/${roomId}`), (snapshot) => {
+                    players = snapshot.val() || {};
+                    emit();
+                }, () => {
+                    // Not the owner: only this player's own entry
+                    const uid = getAuth(getFirebaseApp()!).currentUser?.uid;
+                    if (!uid) return;
+                    unsubscribers.push(onValue(ref(database, `roomPlayers/${roomId}/${uid}`), (snapshot) => {
+                        players = snapshot.exists() ? { [uid]: snapshot.val() } : {};
+                        emit();
+                    }, () => {}));
+                })
+            ];
+            return () => {
+                unsubscribers.forEach(unsubscribe => unsubscribe());
+                membership.delete(roomId);
+            };
+        },
+
+        // Firebase's own view of its socket (.info/connected)
+        subscribeToConnection: (callback: (status: ConnectionStatus) => void) => {
+            // The first value is false until the socket is up, which is not an outage yet
+            let everConnected = false;
+            return onValue(ref(database, '.info/connected'), (snapshot) => {
+                if (snapshot.val() === true) everConnected = true;
+                callback(snapshot.val() === true ? 'CONNECTED' : everConnected ? 'OFFLINE' : 'CONNECTING');
+            });
+        },
+
+        subscribeToServerTimeOffset: (callback) => onValue(ref(database, '.info/serverTimeOffset'), (snapshot) => {
+            callback(Number(snapshot.val()) || 0);
+        }),
+
+        save: async (room) => {
+            try {
+                await update(rootRef, {
+                    [`rooms/${room.id}`]: removeUndefined(toStoredRoom(room)),
+                    [`roomSecrets/${room.id}`]: toSecrets(room.teams),
+                    [`roomIndex/${room.id}`]: removeUndefined(toRoomSummary(room)),
+                    ...(room.pin ? { [`pins/${room.pin}`]: room.id } : {})
+                });
+            } catch (error) {
+                console.error('Error saving room to Firebase:', error);
+                throw error;
+            }
+        },
+
+        // Multi-path update of the given top-level fields (and their index copies)
+        patch: async (roomId, patch) => {
+            const paths: Record<string, unknown> = {};
+            for (const key of Object.keys(patch) as (keyof Room)[]) {
+                paths[`rooms/${roomId}/${key}`] = key === 'teams' && patch.teams ? toStoredTeams(patch.teams) : patch[key];
+            }
+            INDEX_FIELDS.filter(key => key in patch).forEach(key => {
+                paths[`roomIndex/${roomId}/${key}`] = key === 'teams' && patch.teams ? toTeamSummaries(patch.teams) : patch[key];
+            });
+            if ('winnerPoster' in patch) paths[`roomIndex/${roomId}/posterThumbnailUrl`] = patch.winnerPoster?.thumbnailUrl;
+            try {
+                await update(rootRef, toUpdatePayload(paths));
+            } catch (error) {
+                console.error('Error patching room in Firebase:', error);
+                throw error;
+            }
+        },
+
+        // Multi-path update on rooms/{roomId}/matches/{idx}, so a team can
+        // touch only its own entry of a shared map
+        patchMatch: async (roomId, matchIdx, patch) => {
+            const paths: Record<string, unknown> = {};
+            for (const key of Object.keys(patch)) {
+                paths[`matches/${matchIdx}/${key}`] = patch[key];
+            }
+            try {
+                await update(getRoomRef(roomId), toUpdatePayload(paths));
+            } catch (error) {
+                console.error('Error patching match in Firebase:', error);
+                throw error;
+            }
+        },
+
+        remove: async (roomId) => {
+            try {
+                const pin = (await get(ref(database, `rooms/${roomId}/pin`))).val();
+                await update(rootRef, {
+                    [`rooms/${roomId}`]: null,
+                    [`roomSecrets/${roomId}`]: null,
+                    [`roomPlayers/${roomId}`]: null,
+                    [`roomActions/${roomId}`]: null,
+                    [`roomIndex/${roomId}`]: null,
+                    ...(pin ? { [`pins/${pin}`]: null } : {})
+                });
+            } catch (error) {
+                console.error('Error deleting room from Firebase:', error);
+                throw error;
+            }
+        },
+
+        transaction,
+
+        findRoomIdByPin: async (pin) => {
+            try {
+                const roomId = (await get(ref(database, `pins/${pin.trim()}`))).val();
+                return typeof roomId === 'string' ? roomId : null;
+            } catch (error) {
+                console.error('Error looking up room PIN:', error);
+                return null;
+            }
+        },
 
-// Subscribe to real-time updates
-export const subscribeToRooms = (callback: (rooms: Room[]) => void): (() => void) => {
-    const roomsRef = getRoomsRef();
-
-    if (roomsRef) {
-        const unsubscribe = onValue(roomsRef, (snapshot) => {
-            if (snapshot.exists()) {
-                const rooms = toRoomArray(snapshot.val());
-                callback(rooms);
-            } else {
-                callback([]);
+        // In an owned room the membership record is the join: the rules refuse
+        // a wrong code or a bot team, and the owner's browser adds the name to
+        // the team. Rooms without an owner are joined in the room itself.
+        joinTeam: async (roomId, teamId, code, playerId, name) => {
+            const owned = (await get(ref(database, `roomIndex/${roomId}/ownerId`))).exists();
+            if (!owned) return joinTeamInTransaction(transaction, roomId, teamId, code, playerId, name);
+            try {
+                await set(ref(database, `roomPlayers/${roomId}/${playerId}`), { teamId, name, code: normalizeCode(code) });
+                return true;
+            } catch (error) {
+                if (isPermissionDenied(error)) return false;
+                throw error;
             }
+        },
+
+        // The rules check that the action is the player's own and for their own team
+        sendAction: async (roomId, entry) => {
+            await set(ref(database, `roomActions/${roomId}/${entry.actorId}/${entry.id}`), removeUndefined(entry));
+        },
+
+        subscribeToActions: (roomId, callback) => onValue(ref(database, `roomActions/${roomId}`), (snapshot) => {
+            callback(parseInboxActions(snapshot.val()).sort((a, b) => a.at - b.at));
         }, (error) => {
-            console.error('Firebase subscription error:', error);
-            // Fallback: use localStorage
-            const data = safeLocalStorageGet('swot_game_rooms');
-            callback(data ? JSON.parse(data) : []);
-        });
-
-        return unsubscribe;
-    } else {
-        // Fallback: localStorage with storage event
-        const handleStorage = () => {
-            const data = safeLocalStorageGet('swot_game_rooms');
-            callback(data ? JSON.parse(data) : []);
-        };
+            console.error('Firebase action inbox subscription error:', error);
+        }),
 
-        // Initial load
-        handleStorage();
+        removeAction: async (roomId, entry) => {
+            await set(ref(database, `roomActions/${roomId}/${entry.actorId}/${entry.id}`), null);
+        },
 
-        try {
-            window.addEventListener('storage', handleStorage);
-            return () => window.removeEventListener('storage', handleStorage);
-        } catch {
-            return () => {};
+        // Index entries written before PINs left the index still carry them:
+        // a facilitator rewrites those of their rooms (and of rooms without an owner)
+        rebuildIndex: async () => {
+            try {
+                const uid = getAuth(getFirebaseApp()!).currentUser?.uid;
+                const index: Record<string, { pin?: string } | null> = (await get(indexRef)).val() || {};
+                const stale = Object.keys(index).filter(id => index[id]?.pin);
+                const raw = await Promise.all(stale.map(id => get(getRoomRef(id)).then(snapshot => snapshot.val(), () => null)));
+                const paths: Record<string, unknown> = {};
+                parseRooms(raw.filter(Boolean)).filter(r => !r.ownerId || r.ownerId === uid).forEach(r => {
+                    paths[`roomIndex/${r.id}`] = removeUndefined(toRoomSummary(r));
+                    if (r.ownerId && r.pin) paths[`pins/${r.pin}`] = r.id;
+                });
+                if (Object.keys(paths).length > 0) await update(rootRef, paths);
+            } catch (error) {
+                console.error('Error rebuilding room index:', error);
+            }
         }
-    }
-};
-
-// Check if Firebase is configured
-export const isFirebaseConfigured = (): boolean => {
-    return Boolean(firebaseConfig.databaseURL);
+    };
 };
-
-export { initFirebase };
@@ -0,0 +1,358 @@
+import { Room, Team, Match, RoundStrategy, RoundHistory, RoundResult, GameAction, RuleSet, DEFAULT_RULE_SET } from '../types';
+
+// Pure game rules: every reducer takes a Room and returns a new Room.
+// Invalid or out-of-turn actions return the same Room instance unchanged,
+// so callers can detect a no-op with a reference check.
+
+// --- Lookups ---
+
+// Rooms created before rule sets existed play with the defaults
+export const getRuleSet = (room: Room): RuleSet => ({ ...DEFAULT_RULE_SET, ...(room.rules || {}) });
+
+// A bye is worth an even match unless the room says otherwise
+export const getByeChips = (rules: RuleSet): number => rules.byeChips ?? rules.chips;
+
+// Empty strategy board for the given rules (no cards, minimum bet everywhere)
+export const createEmptyStrategy = (rules: RuleSet): RoundStrategy[] =>
+    Array.from({ length: rules.rounds }, (_, i) => ({ round: i + 1, card: -1, chips: rules.minChipsPerRound }));
+
+// Latest match of the team (tournaments append a new set of matches every cycle)
+export const findTeamMatchIndex = (room: Room, teamId: string): number => {
+    for (let i = room.matches.length - 1; i >= 0; i--) {
+        if (room.matches[i].teamAId === teamId || room.matches[i].teamBId === teamId) return i;
+    }
+    return -1;
+};
+
+const findMatchIndexById = (room: Room, matchId: string): number =>
+    room.matches.findIndex(m => m.id === matchId);
+
+const getTeam = (room: Room, teamId: string): Team | undefined =>
+    room.teams.find(t => t.id === teamId);
+
+const getRoundStrategy = (team: Team | undefined, round: number): RoundStrategy | undefined =>
+    team?.strategy?.[round - 1];
+
+// Pot on the table for the match's current round (both bets + carry over)
+export const getCurrentPot = (room: Room, match: Match): number => {
+    const stratA = getRoundStrategy(getTeam(room, match.teamAId), match.currentRound);
+    const stratB = getRoundStrategy(getTeam(room, match.teamBId), match.currentRound);
+    return (stratA?.chips || 0) + (stratB?.chips || 0) + (match.carryOver || 0);
+};
+
+// Winnings over every match the team played; the latest played match's
+// winnings are still on the team, earlier ones and byes were kept in the
+// match's finalWinnings
+export const getTotalWinnings = (room: Room, teamId: string): number => {
+    let latestIdx = -1;
+    room.matches.forEach((m, i) => { if (!m.isBye && (m.teamAId === teamId || m.teamBId === teamId)) latestIdx = i; });
+    return room.matches.reduce((sum, m, i) => {
+        if (i === latestIdx || (m.teamAId !== teamId && m.teamBId !== teamId)) return sum;
+        return sum + (m.finalWinnings?.[teamId] || 0);
+    }, getTeam(room, teamId)?.winnings || 0);
+};
+
+// Match winner by winnings, then rounds won; undefined on an exact tie
+export const decideWinner = (match: Pick<Match, 'teamAId' | 'teamBId' | 'teamAScore' | 'teamBScore'>, winningsA: number, winningsB: number): string | undefined => {
+    if (winningsA !== winningsB) return winningsA > winningsB ? match.teamAId : match.teamBId;
+    if (match.teamAScore !== match.teamBScore) return match.teamAScore > match.teamBScore ? match.teamAId : match.teamBId;
+    return undefined;
+};
+
+// --- Immutable update helpers ---
+
+const withMatch = (room: Room, matchIdx: number, updates: Partial<Match>, teams: Team[] = room.teams): Room => {
+    const matches = [...room.matches];
+    matches[matchIdx] = { ...matches[matchIdx], ...updates };
+    return { ...room, teams, matches };
+};
+
+const replaceTeams = (teams: Team[], ...updated: Team[]): Team[] =>
+    teams.map(t => updated.find(u => u.id === t.id) || t);
+
+// --- Validation ---
+
+// Returns a player-facing error message, or null when the strategy is legal
+export const validateStrategy = (strategy: RoundStrategy[], rules: RuleSet = DEFAULT_RULE_SET): string | null => {
+    const usedCards = strategy.map(s => s.card).filter(c => c !== -1);
+    if (strategy.length !== rules.rounds || usedCards.length !== rules.rounds) {
+        return rules.deck.length === rules.rounds
+            ? `모든 ${rules.rounds}장의 카드를 사용해야 합니다.`
+            : `${rules.rounds}개 라운드 모두에 카드를 배치해야 합니다.`;
+    }
+    if (usedCards.some(c => !rules.deck.includes(c))) {
+        return "덱에 없는 카드가 포함되어 있습니다.";
+    }
+    if (new Set(usedCards).size !== usedCards.length) {
+        return "같은 카드를 두 번 사용할 수 없습니다.";
+    }
+    if (strategy.some(s => s.chips < rules.minChipsPerRound)) {
+        return `모든 라운드에 최소 ${rules.minChipsPerRound}억 이상 배정해야 합니다.`;
+    }
+    const remainingChips = rules.chips - strategy.reduce((acc, s) => acc + s.chips, 0);
+    if (remainingChips !== 0) {
+        return `자본금 잔액이 ${remainingChips}억 남았습니다. 0억이 되어야 합니다.`;
+    }
+    return null;
+};
+
+// Facilitator-facing check of a custom rule set (room creation form)
+export const validateRuleSet = (rules: RuleSet): string | null => {
+    if (!Number.isInteger(rules.rounds) || rules.rounds < 1) return "라운드 수가 올바르지 않습니다.";
+    if (new Set(rules.deck).size !== rules.deck.length) return "덱에 중복된 카드가 있습니다.";
+    if (rules.deck.length < rules.rounds) return `덱의 카드(${rules.deck.length}장)가 라운드 수(${rules.rounds})보다 적습니다.`;
+    if (!Number.isInteger(rules.minChipsPerRound) || rules.minChipsPerRound < 1) return "라운드별 최소 배팅은 1억 이상이어야 합니다.";
+    if (!Number.isInteger(rules.chips) || rules.chips < rules.rounds * rules.minChipsPerRound) {
+        return `자본금은 최소 ${rules.rounds * rules.minChipsPerRound}억 이상이어야 합니다.`;
+    }
+    if (rules.byeChips !== undefined && (!Number.isInteger(rules.byeChips) || rules.byeChips < 0)) return "부전승 상금이 올바르지 않습니다.";
+    if (Object.values(rules.timers || {}).some(s => s !== undefined && (!Number.isInteger(s) || s < 0))) return "제한 시간은 0 이상의 정수(초)로 입력해주세요.";
+    return null;
+};
+
+// --- Reducers ---
+
+export const submitStrategy = (room: Room, teamId: string, strategy: RoundStrategy[], force = false): Room => {
+    if (!getTeam(room, teamId)) return room;
+    if (!force && validateStrategy(strategy, getRuleSet(room)) !== null) return room;
+    const teams = room.teams.map(t => t.id === teamId ? { ...t, isReady: true, strategy: strategy.map(s => ({ ...s })) } : t);
+    return { ...room, teams };
+};
+
+// READY -> SHOWDOWN when bets are equal, otherwise the lower bettor decides
+export const openRound = (room: Room, matchId: string): Room => {
+    const matchIdx = findMatchIndexById(room, matchId);
+    const match = room.matches[matchIdx];
+    if (!match || match.roundStatus !== 'READY') return room;
+    const stratA = getRoundStrategy(getTeam(room, match.teamAId), match.currentRound);
+    const stratB = getRoundStrategy(getTeam(room, match.teamBId), match.currentRound);
+    if (!stratA || !stratB) return room;
+
+    if (stratA.chips === stratB.chips) {
+        return withMatch(room, matchIdx, { roundStatus: 'SHOWDOWN', turnOwner: undefined });
+    }
+    const turnOwner = stratA.chips < stratB.chips ? match.teamAId : match.teamBId;
+    return withMatch(room, matchIdx, { roundStatus: 'DECISION', turnOwner });
+};
+
+// Folding team forfeits its bet; opponent takes the whole pot
+export const fold = (room: Room, teamId: string): Room => {
+    const matchIdx = findTeamMatchIndex(room, teamId);
+    const match = room.matches[matchIdx];
+    if (!match || match.roundStatus !== 'DECISION' || match.turnOwner !== teamId) return room;
+    const isTeamA = match.teamAId === teamId;
+    const teamA = getTeam(room, match.teamAId)!;
+    const teamB = getTeam(room, match.teamBId)!;
+    const stratA = getRoundStrategy(teamA, match.currentRound)!;
+    const stratB = getRoundStrategy(teamB, match.currentRound)!;
+    const pot = getCurrentPot(room, match);
+
+    const winner = isTeamA ? teamB : teamA;
+    const updatedWinner = { ...winner, winnings: (winner.winnings || 0) + pot };
+    const historyItem: RoundHistory = {
+        round: match.currentRound,
+        teamACard: stratA.card,
+        teamBCard: stratB.card,
+        teamAChips: stratA.chips,
+        teamBChips: stratB.chips,
+        result: isTeamA ? 'A_FOLDED' : 'B_FOLDED',
+        potWon: pot
+    };
+
+    return withMatch(room, matchIdx, {
+        roundStatus: 'RESULT',
+        turnOwner: undefined,
+        pot: 0,
+        carryOver: 0,
+        lastAction: { teamId, action: 'FOLD' },
+        lastRoundResult: historyItem,
+        resultConfirmed: {},
+        history: [...(match.history || []), historyItem]
+    }, replaceTeams(room.teams, updatedWinner));
+};
+
+// Chips a team still has to find (beyond its winnings) to call the current bet
+export const getCallShortfall = (room: Room, teamId: string): number => {
+    const match = room.matches[findTeamMatchIndex(room, teamId)];
+    if (!match) return 0;
+    const team = getTeam(room, teamId);
+    const opponentId = match.teamAId === teamId ? match.teamBId : match.teamAId;
+    const myStrat = getRoundStrategy(team, match.currentRound);
+    const oppStrat = getRoundStrategy(getTeam(room, opponentId), match.currentRound);
+    if (!myStrat || !oppStrat) return 0;
+    const diff = oppStrat.chips - myStrat.chips;
+    return Math.ceil(Math.max(0, diff - (team?.winnings || 0)));
+};
+
+// Shortfall of a call taken from the future rounds holding the most chips
+// above the minimum (bots, and the admin calling for an idle team); null when
+// those rounds cannot cover it
+export const planCallSteal = (room: Room, teamId: string): Record<number, number> | null => {
+    const match = room.matches[findTeamMatchIndex(room, teamId)];
+    if (!match) return null;
+    const { minChipsPerRound } = getRuleSet(room);
+    const steal: Record<number, number> = {};
+    let left = getCallShortfall(room, teamId);
+    const future = (getTeam(room, teamId)?.strategy || []).filter(s => s.round > match.currentRound).sort((a, b) => b.chips - a.chips);
+    for (const slot of future) {
+        if (left <= 0) break;
+        const take = Math.min(left, slot.chips - minChipsPerRound);
+        if (take > 0) { steal[slot.round] = take; left -= take; }
+    }
+    return left > 0 ? null : steal;
+};
+
+// Calling matches the opponent's bet, paid from winnings first and then,
+// if those run short, by taking chips from future rounds (never below the
+// rule set's minimum bet)
+export const call = (room: Room, teamId: string, steal: Record<number, number> = {}): Room => {
+    const matchIdx = findTeamMatchIndex(room, teamId);
+    const match = room.matches[matchIdx];
+    if (!match || match.roundStatus !== 'DECISION' || match.turnOwner !== teamId) return room;
+    const team = getTeam(room, teamId)!;
+    const opponentId = match.teamAId === teamId ? match.teamBId : match.teamAId;
+    const currentIdx = match.currentRound - 1;
+    const { minChipsPerRound } = getRuleSet(room);
+    const myStrat = team.strategy![currentIdx];
+    const oppStrat = getTeam(room, opponentId)!.strategy![currentIdx];
+    const diff = oppStrat.chips - myStrat.chips;
+    const winnings = team.winnings || 0;
+    // Winnings can hold half chips (last-round draw split), stolen chips are whole
+    const shortfall = Math.ceil(Math.max(0, diff - winnings));
+
+    let stolenTotal = 0;
+    for (const [roundKey, amount] of Object.entries(steal)) {
+        const idx = Number(roundKey) - 1;
+        const source = team.strategy![idx];
+        if (!source || idx <= currentIdx || amount < 0 || source.chips - amount < minChipsPerRound) return room;
+        stolenTotal += amount;
+    }
+    if (stolenTotal !== shortfall) return room;
+
+    const strategy = team.strategy!.map((s, i) => {
+        if (i === currentIdx) return { ...s, chips: s.chips + diff };
+        const taken = steal[s.round] || 0;
+        return taken ? { ...s, chips: s.chips - taken } : s;
+    });
+    const updatedTeam = { ...team, winnings: winnings + stolenTotal - diff, strategy };
+
+    return withMatch(room, matchIdx, {
+        roundStatus: 'SHOWDOWN',
+        turnOwner: undefined,
+        lastAction: { teamId, action: 'CALL' }
+    }, replaceTeams(room.teams, updatedTeam));
+};
+
+// Higher card takes the pot. Draws carry the pot into the next round,
+// except on the last round where each team takes back its own bet and
+// the carried-over chips are split evenly.
+export const showdown = (room: Room, matchId: string): Room => {
+    const matchIdx = findMatchIndexById(room, matchId);
+    const match = room.matches[matchIdx];
+    if (!match || match.roundStatus !== 'SHOWDOWN') return room;
+    const teamA = getTeam(room, match.teamAId)!;
+    const teamB = getTeam(room, match.teamBId)!;
+    const stratA = getRoundStrategy(teamA, match.currentRound)!;
+    const stratB = getRoundStrategy(teamB, match.currentRound)!;
+    const carried = match.carryOver || 0;
+    const pot = stratA.chips + stratB.chips + carried;
+
+    let result: RoundResult = 'DRAW';
+    let carryOver = 0;
+    let winningsA = teamA.winnings || 0;
+    let winningsB = teamB.winnings || 0;
+    let scoreA = match.teamAScore;
+    let scoreB = match.teamBScore;
+    if (stratA.card > stratB.card) { result = 'A_WON'; winningsA += pot; scoreA += 1; }
+    else if (stratB.card > stratA.card) { result = 'B_WON'; winningsB += pot; scoreB += 1; }
+    else if (match.currentRound === getRuleSet(room).rounds) {
+        winningsA += stratA.chips + carried / 2;
+        winningsB += stratB.chips + carried / 2;
+    } else {
+        carryOver = pot;
+    }
+
+    const historyItem: RoundHistory = {
+        round: match.currentRound,
+        teamACard: stratA.card,
+        teamBCard: stratB.card,
+        teamAChips: stratA.chips,
+        teamBChips: stratB.chips,
+        result,
+        potWon: result === 'DRAW' ? 0 : pot
+    };
+
+    return withMatch(room, matchIdx, {
+        roundStatus: 'RESULT',
+        turnOwner: undefined,
+        pot: 0,
+        carryOver,
+        teamAScore: scoreA,
+        teamBScore: scoreB,
+        lastRoundResult: historyItem,
+        resultConfirmed: {},
+        history: [...(match.history || []), historyItem]
+    }, replaceTeams(room.teams, { ...teamA, winnings: winningsA }, { ...teamB, winnings: winningsB }));
+};
+
+// Both teams must confirm the result before the next round opens
+export const confirmResult = (room: Room, teamId: string): Room => {
+    const matchIdx = findTeamMatchIndex(room, teamId);
+    const match = room.matches[matchIdx];
+    if (!match || match.roundStatus !== 'RESULT' || match.resultConfirmed?.[teamId]) return room;
+    const confirmed = { ...(match.resultConfirmed || {}), [teamId]: true };
+    if (!(confirmed[match.teamAId] && confirmed[match.teamBId])) {
+        return withMatch(room, matchIdx, { resultConfirmed: confirmed });
+    }
+
+    const isGameEnd = match.currentRound >= getRuleSet(room).rounds;
+    if (!isGameEnd) {
+        return withMatch(room, matchIdx, {
+            currentRound: match.currentRound + 1,
+            roundStatus: 'READY',
+            resultConfirmed: {},
+            lastRoundResult: undefined,
+            lastAction: undefined
+        });
+    }
+
+    // Final winnings are kept on the match so later tournament cycles can reset the teams
+    const winningsA = getTeam(room, match.teamAId)?.winnings || 0;
+    const winningsB = getTeam(room, match.teamBId)?.winnings || 0;
+    return withMatch(room, matchIdx, {
+        roundStatus: 'FINISHED',
+        resultConfirmed: {},
+        lastRoundResult: undefined,
+        lastAction: undefined,
+        winnerId: decideWinner(match, winningsA, winningsB),
+        finalWinnings: { [match.teamAId]: winningsA, [match.teamBId]: winningsB }
+    });
+};
+
+// Holding a match stops every game action on it except strategy submits
+export const setMatchPaused = (room: Room, matchId: string, paused: boolean): Room => {
+    const matchIdx = findMatchIndexById(room, matchId);
+    const match = room.matches[matchIdx];
+    if (!match || match.roundStatus === 'FINISHED' || Boolean(match.paused) === paused) return room;
+    return withMatch(room, matchIdx, { paused: paused || undefined });
+};
+
+const isPausedFor = (room: Room, action: GameAction): boolean => {
+    if (action.type === 'SUBMIT_STRATEGY' || action.type === 'PAUSE_MATCH') return false;
+    const matchIdx = 'matchId' in action ? findMatchIndexById(room, action.matchId) : findTeamMatchIndex(room, action.teamId);
+    return Boolean(room.matches[matchIdx]?.paused);
+};
+
+export const applyGameAction = (room: Room, action: GameAction): Room => {
+    if (isPausedFor(room, action)) return room;
+    switch (action.type) {
+        case 'SUBMIT_STRATEGY': return submitStrategy(room, action.teamId, action.strategy, action.force);
+        case 'OPEN_ROUND': return openRound(room, action.matchId);
+        case 'FOLD': return fold(room, action.teamId);
+        case 'CALL': return call(room, action.teamId, action.steal);
+        case 'SHOWDOWN': return showdown(room, action.matchId);
+        case 'CONFIRM_RESULT': return confirmResult(room, action.teamId);
+        case 'PAUSE_MATCH': return setMatchPaused(room, action.matchId, action.paused);
+        default: return room;
+    }
+};
@@ -0,0 +1,65 @@
+import { Room, Match, GameAction, ActionContext } from '../types';
+import { applyGameAction, findTeamMatchIndex } from './gameEngine';
+import { advanceTournament, getCurrentCycle } from './tournament';
+import { getBotActions } from './bots';
+import { recordEvent, EventMeta, BOT_ACTOR, TIMER_ACTOR } from './matchLog';
+import { syncDeadlines, getTimeoutActions } from './timers';
+import { serverNow } from './clock';
+
+// Full consequence of one action: the engine resolves it, then everything
+// that follows without a player. Shared by the browser transaction and the
+// referee server. Every applied action, bots' included, goes into its
+// match's event log (services/matchLog.ts), and the phase clocks
+// (services/timers.ts) follow whatever the game ends up at.
+
+const MAX_AUTOMATIC_STEPS = 2000;
+
+// A finished tournament cycle starts the next one and bot teams take their
+// turns, until nothing is left that can happen on its own
+export const runAutomaticActions = (room: Room, at: number = serverNow()): Room => {
+    let current = advanceTournament(room);
+    for (let step = 0; step < MAX_AUTOMATIC_STEPS; step++) {
+        let next = current;
+        for (const action of getBotActions(current)) {
+            const applied = applyGameAction(current, action);
+            if (applied === current) continue;
+            next = recordEvent(current, applied, action, { actorId: BOT_ACTOR, at });
+            break;
+        }
+        if (next === current) return syncDeadlines(current, at);
+        current = advanceTournament(next);
+    }
+    return syncDeadlines(current, at);
+};
+
+export const resolveGameAction = (room: Room, action: GameAction, meta: EventMeta = { at: Date.now() }): Room => {
+    const next = applyGameAction(room, action);
+    // Clocks start when the action lands, not when a queued action was taken
+    return next === room ? room : runAutomaticActions(recordEvent(room, next, action, meta));
+};
+
+// Default actions of every phase whose time ran out; the same room when none did
+export const resolveTimeouts = (room: Room, now: number = serverNow()): Room => {
+    let current = room;
+    for (const action of getTimeoutActions(room, now)) {
+        const next = applyGameAction(current, action);
+        if (next !== current) current = recordEvent(current, next, action, { actorId: TIMER_ACTOR, at: now });
+    }
+    return current === room ? room : runAutomaticActions(current, now);
+};
+
+const findActionMatch = (room: Room, action: GameAction): Match | undefined =>
+    'matchId' in action ? room.matches.find(m => m.id === action.matchId) : room.matches[findTeamMatchIndex(room, action.teamId)];
+
+export const getActionContext = (room: Room, action: GameAction): ActionContext => {
+    const match = findActionMatch(room, action);
+    return { matchId: match?.id, round: match?.currentRound, roundStatus: match?.roundStatus, cycle: getCurrentCycle(room) };
+};
+
+// An action delivered late (retried after a dropped connection) must not
+// land on a later round or phase: a retried Fold would fold the next round
+export const isStaleAction = (room: Room, action: GameAction, context: ActionContext): boolean => {
+    const now = getActionContext(room, action);
+    return now.matchId !== context.matchId || now.round !== context.round
+        || now.roundStatus !== context.roundStatus || now.cycle !== context.cycle;
+};
@@ -1,6 +1,9 @@
 
 import { GoogleGenAI } from "@google/genai";
-import { Room, Team, Match, CARDS } from "../types";
+import { Room, Team, Match, RuleSet, DEFAULT_RULE_SET } from "../types";
+import { getSlotColor } from "./hiddenInfo";
+import { getRuleSet, getTotalWinnings } from "./gameEngine";
+import { getOfflineAdvice } from "./advisor";
 
 const getAI = () => {
     if (!process.env.API_KEY) throw new Error("API Key is missing");
@@ -9,6 +12,7 @@ const getAI = () => {
 
 export const generateSWOTAnalysis = async (room: Room): Promise<string> => {
     const ai = getAI();
+    const rules = getRuleSet(room);
 
     // Helper function to calculate rounds won from match history
     const getTeamRoundsWon = (teamId: string): { count: number, rounds: number[] } => {
@@ -34,7 +38,7 @@ export const generateSWOTAnalysis = async (room: Room): Promise<string> => {
         const roundsWonStr = roundsData.count > 0
             ? `${roundsData.count}승 (R${roundsData.rounds.join(', R')})`
             : '0승';
-        return `Team: ${t.name}, Winnings(Total Chips): ${t.winnings}억, Rounds Won: ${roundsWonStr}, Strategy Pattern: ${t.strategy?.map(r => `[R${r.round}:Card${r.card}/Chip${r.chips}]`).join(' ')}`;
+        return `Team: ${t.name}, Winnings(Total Chips): ${getTotalWinnings(room, t.id)}억, Rounds Won: ${roundsWonStr}, Strategy Pattern: ${t.strategy?.map(r => `[R${r.round}:Card${r.card}/Chip${r.chips}]`).join(' ')}`;
     }).join('\n');
 
     // Include match history for more accurate analysis
@@ -52,7 +56,8 @@ export const generateSWOTAnalysis = async (room: Room): Promise<string> => {
     Analyze the gameplay data of the following teams in a "Resource Allocation Strategy Game".
 
     **Game Rules**:
-    - Resources: 0-9 Number Cards, 30 Chips.
+    - Resources: Number Cards [${rules.deck.join(', ')}], ${rules.chips} Chips, ${rules.rounds} Rounds.
+    - Every round needs at least ${rules.minChipsPerRound} chip(s).
     - Goal: Win rounds by playing higher cards or managing chip betting.
     - Each round, teams bet chips. Higher card wins the pot. If cards are equal, pot carries over.
     - Teams can FOLD (forfeit round) or CALL (compete).
@@ -96,7 +101,7 @@ export const generateSWOTAnalysis = async (room: Room): Promise<string> => {
     return response.text || "분석을 생성할 수 없습니다.";
 };
 
-export const getGameAdvice = async (team: Team, opponent: Team, match: Match): Promise<string> => {
+const getGeminiAdvice = async (team: Team, opponent: Team, match: Match, rules: RuleSet): Promise<string> => {
     const ai = getAI();
 
     const currentRound = match.currentRound;
@@ -106,11 +111,11 @@ export const getGameAdvice = async (team: Team, opponent: Team, match: Match): P
     // Calculate knowns
     const myUsedCards = team.strategy!.slice(0, currentRound - 1).map(s => s.card);
     const oppUsedCards = opponent.strategy!.slice(0, currentRound - 1).map(s => s.card); 
-    const oppRemaining = CARDS.filter(c => !oppUsedCards.includes(c));
+    const oppRemaining = rules.deck.filter(c => !oppUsedCards.includes(c));
 
     const prompt = `
     You are a "Gemini Strategy Advisor" for the game "The Genius".
-    Current Round: ${currentRound} / 10
+    Current Round: ${currentRound} / ${rules.rounds}
     
     **My Status (${team.name})**:
     - Current Card: ${myStrat.card}
@@ -118,7 +123,7 @@ export const getGameAdvice = async (team: Team, opponent: Team, match: Match): P
     
     **Opponent Status (${opponent.name})**:
     - Current Bet: ${oppStrat.chips}
-    - Card Color: ${oppStrat.card % 2 === 0 ? "Black" : "White"}
+    - Card Color: ${getSlotColor(oppStrat) === 'BLACK' ? "Black" : "White"}
     
     **Task**:
     Provide strategic advice in Korean.
@@ -136,7 +141,18 @@ export const getGameAdvice = async (team: Team, opponent: Team, match: Match): P
         config: { systemInstruction: "You are a genius game strategist. No Markdown." }
     });
 
-    return response.text || "조언을 가져올 수 없습니다.";
+    return response.text || getOfflineAdvice(team, opponent, match, rules);
+};
+
+// Falls back to the offline advisor when there is no API key or Gemini fails
+export const getGameAdvice = async (team: Team, opponent: Team, match: Match, rules: RuleSet = DEFAULT_RULE_SET): Promise<string> => {
+    if (!process.env.API_KEY) return getOfflineAdvice(team, opponent, match, rules);
+    try {
+        return await getGeminiAdvice(team, opponent, match, rules);
+    } catch (e) {
+        console.warn("Gemini advice failed, using offline advisor", e);
+        return getOfflineAdvice(team, opponent, match, rules);
+    }
 };
 
 export const generateWinnerPoster = async (winnerTeam: Team, base64Photos?: string[], memberNames?: string): Promise<string> => {
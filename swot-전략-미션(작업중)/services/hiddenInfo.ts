@@ -0,0 +1,69 @@
+import { Room, Team, Match, MatchEvent, RoundStrategy, CardColor, HIDDEN_CARD } from '../types';
+import { findTeamMatchIndex } from './gameEngine';
+
+// Hidden-information model: a team may see its own cards, the color of every
+// opponent card, and an opponent's number only once that round is resolved
+// (it is in the match history) or the match is over. Only the referee server
+// enforces it; room stores send the full room and the board merely hides
+// the numbers on screen.
+
+export const getCardColor = (card: number): CardColor => card % 2 === 0 ? 'BLACK' : 'WHITE';
+
+// Color of a strategy slot, whether the number is visible or not (undefined for empty slots)
+export const getSlotColor = (slot: RoundStrategy): CardColor | undefined => {
+    if (slot.card === HIDDEN_CARD) return slot.color;
+    if (slot.card === -1) return undefined;
+    return getCardColor(slot.card);
+};
+
+export const isHiddenCard = (slot: RoundStrategy): boolean => slot.card === HIDDEN_CARD;
+
+// Rounds whose card numbers a match has made public
+const getMatchRevealedRounds = (match: Match | undefined): number[] | 'ALL' => {
+    if (!match) return [];
+    if (match.roundStatus === 'FINISHED') return 'ALL';
+    return (match.history || []).map(h => h.round);
+};
+
+// Rounds of a team's strategy whose card numbers are public
+export const getRevealedRounds = (room: Room, teamId: string): number[] | 'ALL' =>
+    getMatchRevealedRounds(room.matches[findTeamMatchIndex(room, teamId)]);
+
+export const redactStrategy = (strategy: RoundStrategy[], revealed: number[] | 'ALL'): RoundStrategy[] =>
+    strategy.map(slot => {
+        if (revealed === 'ALL' || revealed.includes(slot.round) || slot.card < 0) return slot;
+        return { round: slot.round, card: HIDDEN_CARD, chips: slot.chips, color: getCardColor(slot.card) };
+    });
+
+const redactTeam = (room: Room, team: Team): Team => {
+    if (!team.strategy) return team;
+    return { ...team, strategy: redactStrategy(team.strategy, getRevealedRounds(room, team.id)) };
+};
+
+// Submitted boards in a match's event log (and in the events a rollback
+// undid) are hidden like the teams' own
+const redactMatchEvents = (match: Match, viewerTeamId: string | null): Match => {
+    if (!match.events && !match.rollbacks) return match;
+    const revealed = getMatchRevealedRounds(match);
+    const redactEvent = (e: MatchEvent): MatchEvent => e.action.type !== 'SUBMIT_STRATEGY' || e.action.teamId === viewerTeamId ? e
+        : { ...e, action: { ...e.action, strategy: redactStrategy(e.action.strategy, revealed) } };
+    return {
+        ...match,
+        events: match.events?.map(redactEvent),
+        rollbacks: match.rollbacks?.map(r => ({ ...r, undone: r.undone.map(redactEvent) }))
+    };
+};
+
+// Unsubmitted boards only go to their own team
+const redactDrafts = (match: Match, viewerTeamId: string | null): Match => {
+    if (!match.drafts) return match;
+    const own = viewerTeamId ? match.drafts[viewerTeamId] : undefined;
+    return { ...match, drafts: own ? { [viewerTeamId!]: own } : undefined };
+};
+
+// Copy of the room as one team (or, with null, a spectator/admin) is allowed to see it
+export const redactRoomForTeam = (room: Room, viewerTeamId: string | null): Room => ({
+    ...room,
+    teams: room.teams.map(t => t.id === viewerTeamId ? t : redactTeam(room, t)),
+    matches: room.matches.map(m => redactDrafts(redactMatchEvents(m, viewerTeamId), viewerTeamId))
+});
@@ -0,0 +1,161 @@
+import { getStorage, ref, uploadBytes, getDownloadURL, deleteObject, listAll } from 'firebase/storage';
+import { getAuth } from 'firebase/auth';
+import { ImageAsset } from '../types';
+import { getFirebaseApp, isFirebaseStorageConfigured } from './firebase';
+
+// Winner posters and photos are uploaded to object storage; rooms only keep
+// their URLs and metadata (ImageAsset), so the room JSON synced to every
+// phone stays small. Each upload also gets a small JPEG thumbnail.
+//
+// IMAGE_STORE picks the bucket: firebase | server | inline.
+// Without it: Firebase Storage when a bucket is configured, the local room
+// server (server/roomServer.ts, a filesystem stand-in) when IMAGE_SERVER_URL
+// is set or rooms live on that server, otherwise inline data URLs.
+// Files are stored under rooms/{roomId}/ so a room's images can be removed together.
+
+const IMAGE_STORE = (process.env.IMAGE_STORE || '').toLowerCase();
+const IMAGE_SERVER_URL = process.env.IMAGE_SERVER_URL
+    || ((process.env.ROOM_STORE || '').toLowerCase() === 'socket' ? (process.env.ROOM_SERVER_URL || 'ws://localhost:3002').replace(/^ws/, 'http') : '');
+
+const THUMBNAIL_SIZE = 320; // Longest side, px
+const THUMBNAIL_QUALITY = 0.8;
+
+interface ImageBucket {
+    put: (path: string, blob: Blob) => Promise<string>; // Resolves to the public URL
+    remove: (path: string) => Promise<void>;
+    removeFolder: (path: string) => Promise<void>;
+}
+
+// --- Buckets ---
+
+// storage.rules only let a file's uploader (customMetadata.ownerId) replace or delete it
+const createFirebaseBucket = (): ImageBucket => {
+    const storage = getStorage(getFirebaseApp()!);
+    return {
+        put: async (path, blob) => {
+            const ownerId = getAuth(getFirebaseApp()!).currentUser?.uid || '';
+            const result = await uploadBytes(ref(storage, path), blob, { contentType: blob.type, cacheControl: 'public, max-age=31536000', customMetadata: { ownerId } });
+            return getDownloadURL(result.ref);
+        },
+        remove: (path) => deleteObject(ref(storage, path)),
+        removeFolder: async (path) => {
+            const { items } = await listAll(ref(storage, path));
+            await Promise.all(items.map(item => deleteObject(item)));
+        }
+    };
+};
+
+const createServerBucket = (baseUrl: string): ImageBucket => {
+    const urlOf = (path: string) => `${baseUrl.replace(/\/$/, '')}/images/${path}`;
+    const remove = async (path: string) => {
+        const response = await fetch(urlOf(path), { method: 'DELETE' });
+        if (!response.ok && response.status !== 404) throw new Error(`Image server answered ${response.status}`);
+    };
+    return {
+        put: async (path, blob) => {
+            const response = await fetch(urlOf(path), { method: 'PUT', headers: { 'Content-Type': blob.type }, body: blob });
+            if (!response.ok) throw new Error(`Image server answered ${response.status}`);
+            return urlOf(path);
+        },
+        remove,
+        removeFolder: remove
+    };
+};
+
+let bucket: ImageBucket | null | undefined;
+
+// null = keep images inline in the room
+const getBucket = (): ImageBucket | null => {
+    if (bucket !== undefined) return bucket;
+    const store = IMAGE_STORE || (isFirebaseStorageConfigured() ? 'firebase' : IMAGE_SERVER_URL ? 'server' : 'inline');
+    if (store === 'firebase' && isFirebaseStorageConfigured()) bucket = createFirebaseBucket();
+    else if (store === 'server' && IMAGE_SERVER_URL) bucket = createServerBucket(IMAGE_SERVER_URL);
+    else {
+        if (store !== 'inline') console.warn(`IMAGE_STORE=${store} is not configured; keeping images inline`);
+        bucket = null;
+    }
+    return bucket;
+};
+
+// --- Helpers ---
+
+const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => (await fetch(dataUrl)).blob();
+
+const blobToDataUrl = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+});
+
+const extensionOf = (contentType: string): string => {
+    const subtype = (contentType.split('/')[1] || '').replace(/[^a-z0-9]/gi, '');
+    return subtype === 'jpeg' ? 'jpg' : subtype || 'bin';
+};
+
+// JPEG scaled down to THUMBNAIL_SIZE, plus the original's dimensions;
+// null when the browser cannot decode the image
+const createThumbnail = async (blob: Blob): Promise<{ thumbnail: Blob, width: number, height: number } | null> => {
+    try {
+        const bitmap = await createImageBitmap(blob);
+        const { width, height } = bitmap;
+        const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(width, height));
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.max(1, Math.round(width * scale));
+        canvas.height = Math.max(1, Math.round(height * scale));
+        canvas.getContext('2d')!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+        bitmap.close();
+        const thumbnail = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', THUMBNAIL_QUALITY));
+        return thumbnail && { thumbnail, width, height };
+    } catch (error) {
+        console.warn('Could not create thumbnail:', error);
+        return null;
+    }
+};
+
+// --- Public API ---
+
+// Uploads an image (a data URL or a file) with its thumbnail for the given room
+export const uploadImage = async (roomId: string, name: string, source: string | Blob): Promise<ImageAsset> => {
+    const blob = typeof source === 'string' ? await dataUrlToBlob(source) : source;
+    const thumb = await createThumbnail(blob);
+    const meta = { contentType: blob.type, width: thumb?.width, height: thumb?.height, size: blob.size };
+    const target = getBucket();
+    if (!target) {
+        return { url: await blobToDataUrl(blob), thumbnailUrl: thumb ? await blobToDataUrl(thumb.thumbnail) : undefined, ...meta };
+    }
+    const id = `${name}-${Date.now().toString(36)}`;
+    const path = `rooms/${roomId}/${id}.${extensionOf(blob.type)}`;
+    const thumbnailPath = thumb ? `rooms/${roomId}/${id}.thumb.jpg` : undefined;
+    const [url, thumbnailUrl] = await Promise.all([
+        target.put(path, blob),
+        thumb && thumbnailPath ? target.put(thumbnailPath, thumb.thumbnail) : undefined
+    ]);
+    return { url, thumbnailUrl, path, thumbnailPath, ...meta };
+};
+
+// Deletes a replaced image; inline images have nothing to delete
+export const removeImage = async (asset?: ImageAsset): Promise<void> => {
+    const target = getBucket();
+    if (!target || !asset?.path) return;
+    try {
+        await Promise.all([asset.path, asset.thumbnailPath].filter((p): p is string => Boolean(p)).map(target.remove));
+    } catch (error) {
+        console.warn('Could not delete image:', error);
+    }
+};
+
+// Deletes every image of a deleted room
+export const removeRoomImages = async (roomId: string): Promise<void> => {
+    const target = getBucket();
+    if (!target) return;
+    try {
+        await target.removeFolder(`rooms/${roomId}`);
+    } catch (error) {
+        console.warn('Could not delete room images:', error);
+    }
+};
+
+// Image contents as a data URL again (Gemini takes inline photos)
+export const loadImageAsDataUrl = async (asset: ImageAsset): Promise<string> =>
+    asset.url.startsWith('data:') ? asset.url : blobToDataUrl(await (await fetch(asset.url)).blob());
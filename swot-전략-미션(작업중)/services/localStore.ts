@@ -0,0 +1,112 @@
+import { Room } from '../types';
+import { RoomStore, createRoomListStore } from './roomStore';
+import { parseRooms } from './schema';
+
+// Rooms kept in this browser's localStorage (no Firebase configured), so one
+// laptop can run a whole game in several tabs. Every write also records a
+// change: a sequence number shared by all tabs plus the id of the writing
+// tab. Other tabs hear about it over a BroadcastChannel (the storage event
+// is the fallback) and skip changes they have already shown, including
+// their own, so each change is rendered once per tab.
+
+const LOCAL_ROOMS_KEY = 'swot_game_rooms';
+const CHANGE_KEY = 'swot_game_rooms_change';
+const CHANNEL_NAME = 'swot_game_rooms';
+
+interface Change {
+    seq: number; // Increases with every write from any tab
+    id: string; // `${tabId}:${seq}`; tells apart two tabs that wrote the same seq
+}
+
+interface ChangeMessage {
+    change: Change;
+    rooms: unknown; // The list as written, so receivers need not wait for localStorage
+}
+
+const NO_CHANGE: Change = { seq: 0, id: '' };
+
+const tabId = Array.from(crypto.getRandomValues(new Uint8Array(4)), b => b.toString(16).padStart(2, '0')).join('');
+
+const readLocalRooms = (): Room[] => {
+    try {
+        const data = localStorage.getItem(LOCAL_ROOMS_KEY);
+        return data ? parseRooms(JSON.parse(data)) : [];
+    } catch (error) {
+        console.error('Corrupt or unavailable local room data:', error);
+        return [];
+    }
+};
+
+const parseChange = (data: string | null): Change => {
+    try {
+        const change = data ? JSON.parse(data) : null;
+        return typeof change?.seq === 'number' && typeof change.id === 'string' ? change : NO_CHANGE;
+    } catch {
+        return NO_CHANGE;
+    }
+};
+
+const readChange = (): Change => {
+    try {
+        return parseChange(localStorage.getItem(CHANGE_KEY));
+    } catch {
+        return NO_CHANGE;
+    }
+};
+
+const openChannel = (): BroadcastChannel | null => {
+    try {
+        return typeof BroadcastChannel === 'undefined' ? null : new BroadcastChannel(CHANNEL_NAME);
+    } catch {
+        return null;
+    }
+};
+
+export const createLocalStore = (): RoomStore => {
+    const channel = openChannel();
+    let shown = readChange(); // Latest change this tab has rendered
+
+    const write = (rooms: Room[]) => {
+        const seq = readChange().seq + 1;
+        const change: Change = { seq, id: `${tabId}:${seq}` };
+        try {
+            localStorage.setItem(LOCAL_ROOMS_KEY, JSON.stringify(rooms));
+            localStorage.setItem(CHANGE_KEY, JSON.stringify(change)); // After the rooms: the storage event for it means both are there
+        } catch {
+            console.warn('localStorage not available');
+            return;
+        }
+        shown = change;
+        const message: ChangeMessage = { change, rooms };
+        channel?.postMessage(message);
+    };
+
+    const watch = (onChange: (rooms?: Room[]) => void) => {
+        // Older changes (or ones already shown) are dropped. Two tabs that wrote
+        // the same seq at once raced; localStorage holds whichever came last.
+        const receive = (change: Change, rooms?: unknown) => {
+            if (change.seq < shown.seq || change.id === shown.id) return;
+            const raced = change.seq === shown.seq;
+            shown = change;
+            onChange(raced || rooms === undefined ? undefined : parseRooms(rooms));
+        };
+        const handleMessage = (event: MessageEvent<ChangeMessage>) => receive(event.data.change, event.data.rooms);
+        const handleStorage = (event: StorageEvent) => {
+            if (event.key === CHANGE_KEY) receive(parseChange(event.newValue));
+        };
+        // A tab frozen in the background can miss messages
+        const handleVisibility = () => {
+            if (document.visibilityState === 'visible') receive(readChange());
+        };
+        channel?.addEventListener('message', handleMessage);
+        window.addEventListener('storage', handleStorage);
+        document.addEventListener('visibilitychange', handleVisibility);
+        return () => {
+            channel?.removeEventListener('message', handleMessage);
+            window.removeEventListener('storage', handleStorage);
+            document.removeEventListener('visibilitychange', handleVisibility);
+        };
+    };
+
+    return createRoomListStore('LOCAL', { read: readLocalRooms, write, watch, status: 'LOCAL' });
+};
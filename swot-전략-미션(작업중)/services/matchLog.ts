@@ -0,0 +1,148 @@
+import { Room, Match, MatchEvent, GameAction } from '../types';
+import { applyGameAction, findTeamMatchIndex } from './gameEngine';
+import { getCurrentCycle, getMatchCycle } from './tournament';
+
+// Event log of a match: every action that changed it (submit, open, fold,
+// call with its steals, showdown, confirm, admin pause) is appended to Match.events with
+// its time and actor, and entries are never edited. The snapshot fields
+// (currentRound, roundStatus, carryOver, history, scores, winnings) are a
+// projection kept for fast reads; replayMatch derives them again from the
+// events alone, for audits, rollbacks and the replay viewer. Only an admin
+// rollback cuts the log back, and it keeps what it removed in Match.rollbacks.
+
+export const BOT_ACTOR = 'bot';
+export const REFEREE_ACTOR = 'referee'; // Rounds the referee server opens on its own
+export const TIMER_ACTOR = 'timer'; // Default actions of a phase that ran out of time (services/timers.ts)
+
+export interface EventMeta {
+    actorId?: string;
+    at: number;
+}
+
+const findEventMatchIndex = (room: Room, action: GameAction): number =>
+    'matchId' in action ? room.matches.findIndex(m => m.id === action.matchId) : findTeamMatchIndex(room, action.teamId);
+
+const hasSubmit = (events: MatchEvent[], teamId: string): boolean =>
+    events.some(e => e.action.type === 'SUBMIT_STRATEGY' && e.action.teamId === teamId);
+
+// Appends an applied action (before -> after) to its match's log. Boards
+// submitted before the teams were paired are not in the log yet; until
+// round 1 is played they are still exactly as submitted, so they are added first.
+export const recordEvent = (before: Room, after: Room, action: GameAction, meta: EventMeta): Room => {
+    const matchIdx = findEventMatchIndex(after, action);
+    const match = after.matches[matchIdx];
+    if (!match || match.isBye) return after;
+    const log = match.events || [];
+    const added: Omit<MatchEvent, 'seq'>[] = [];
+    const played = (before.matches.find(m => m.id === match.id)?.history || []).length > 0;
+    if (action.type !== 'SUBMIT_STRATEGY' && !played) {
+        [match.teamAId, match.teamBId].forEach(teamId => {
+            const strategy = before.teams.find(t => t.id === teamId)?.strategy;
+            if (strategy && !hasSubmit(log, teamId)) added.push({ at: meta.at, action: { type: 'SUBMIT_STRATEGY', teamId, strategy, force: true } });
+        });
+    }
+    added.push({ ...meta, action });
+    const matches = [...after.matches];
+    matches[matchIdx] = { ...match, events: [...log, ...added.map((e, i) => ({ ...e, seq: log.length + i + 1 }))] };
+    return { ...after, matches };
+};
+
+// --- Replay ---
+
+export interface ReplayFrame {
+    event?: MatchEvent; // Missing on the first frame (before any event)
+    room: Room; // Only the two teams and this match
+}
+
+// The match with every game field back at its start
+const openingMatch = (match: Match): Match => ({
+    ...match,
+    teamAScore: 0,
+    teamBScore: 0,
+    currentRound: 1,
+    roundStatus: 'READY',
+    turnOwner: undefined,
+    pot: 0,
+    carryOver: 0,
+    paused: undefined,
+    deadline: undefined,
+    lastAction: undefined,
+    resultConfirmed: {},
+    lastRoundResult: undefined,
+    history: [],
+    winnerId: undefined,
+    finalWinnings: undefined,
+    events: []
+});
+
+// Whether the log covers the whole match (matches played before logging existed do not)
+export const hasFullLog = (match: Match): boolean =>
+    !match.isBye && Boolean(match.events?.length) && [match.teamAId, match.teamBId].every(id => hasSubmit(match.events!, id));
+
+// State after each event, replayed from the log alone; null without a full log
+export const replayMatch = (room: Room, matchId: string): ReplayFrame[] | null => {
+    const match = room.matches.find(m => m.id === matchId);
+    if (!match || !hasFullLog(match)) return null;
+    const start: Room = {
+        ...room,
+        status: 'PLAYING',
+        cycle: undefined,
+        tournament: undefined,
+        teams: room.teams
+            .filter(t => t.id === match.teamAId || t.id === match.teamBId)
+            .map(t => ({ ...t, isReady: false, strategy: undefined, winnings: 0 })),
+        matches: [openingMatch(match)]
+    };
+    const frames: ReplayFrame[] = [{ room: start }];
+    for (const event of match.events!) {
+        // Boards may be redacted for this viewer, which the validation would refuse
+        const action = event.action.type === 'SUBMIT_STRATEGY' ? { ...event.action, force: true } : event.action;
+        frames.push({ event, room: applyGameAction(frames[frames.length - 1].room, action) });
+    }
+    return frames;
+};
+
+// --- Rollback ---
+
+// Frame of the event that opened the given round (the frame before it is the round's start)
+const findRoundOpening = (frames: ReplayFrame[], round: number): number =>
+    frames.findIndex((f, i) => i > 0 && f.event!.action.type === 'OPEN_ROUND' && frames[i - 1].room.matches[0].currentRound === round);
+
+// Rounds the admin can roll a match back to the start of: every round opened so
+// far, while the match is in the cycle being played
+export const getRollbackRounds = (room: Room, match: Match): number[] => {
+    if (room.status !== 'PLAYING' || room.tournament?.championId || getMatchCycle(match) !== getCurrentCycle(room) || !hasFullLog(match)) return [];
+    const opened = match.events!.filter(e => e.action.type === 'OPEN_ROUND').length;
+    return Array.from({ length: opened }, (_, i) => i + 1);
+};
+
+// Puts the match back to the start of a round (READY, before it was opened):
+// both teams' winnings and chips, steals included, and the carry-over are
+// taken from the replayed log, and the undone events go to the audit log
+export const rollbackMatch = (room: Room, matchId: string, round: number, meta: EventMeta): Room => {
+    const matchIdx = room.matches.findIndex(m => m.id === matchId);
+    const match = room.matches[matchIdx];
+    if (!match || !getRollbackRounds(room, match).includes(round)) return room;
+    const frames = replayMatch(room, matchId);
+    const opening = frames ? findRoundOpening(frames, round) : -1;
+    if (!frames || opening < 1) return room;
+    const target = frames[opening - 1].room;
+    const latest = frames[frames.length - 1].room;
+    const teams = room.teams.map(t => {
+        const before = target.teams.find(r => r.id === t.id);
+        const after = latest.teams.find(r => r.id === t.id);
+        // Winnings from earlier cycles stay; only what this match moved is undone
+        return before && after ? { ...t, strategy: before.strategy, winnings: (t.winnings || 0) - (after.winnings || 0) + (before.winnings || 0) } : t;
+    });
+    const { teamAScore, teamBScore, currentRound, roundStatus, turnOwner, pot, carryOver, lastAction, resultConfirmed, lastRoundResult, history, winnerId, finalWinnings } = target.matches[0];
+    const events = match.events!.slice(0, opening - 1);
+    const matches = [...room.matches];
+    matches[matchIdx] = {
+        ...match,
+        teamAScore, teamBScore, currentRound, roundStatus, turnOwner, pot, carryOver, lastAction, resultConfirmed, lastRoundResult, history, winnerId, finalWinnings,
+        deadline: undefined, // The round's clock starts again
+        events,
+        rollbacks: [...(match.rollbacks || []), { ...meta, toRound: round, undone: match.events!.slice(opening - 1) }]
+    };
+    return { ...room, teams, matches };
+};
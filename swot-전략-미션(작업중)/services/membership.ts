@@ -0,0 +1,115 @@
+import { Room, Team, GameAction } from '../types';
+
+// Who may play for a team. Players join with the room PIN and their team's
+// join code and are remembered by a stable player id; only a team's players
+// (or the room's owner) may act for it. The referee server enforces this with
+// a key per player id (server/refereeKeys.ts); browser-only modes apply the
+// same check to their own transactions.
+
+const PLAYER_ID_KEY = 'swot_player_id';
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // No 0/O or 1/I lookalikes
+const JOIN_CODE_LENGTH = 6;
+const PIN_LENGTH = 6;
+
+const randomIndex = (n: number): number => crypto.getRandomValues(new Uint32Array(1))[0] % n;
+
+export const generatePin = (existing: { pin?: string }[] = []): string => {
+    for (;;) {
+        const pin = Array.from({ length: PIN_LENGTH }, () => randomIndex(10)).join('');
+        if (!existing.some(r => r.pin === pin)) return pin;
+    }
+};
+
+export const generateJoinCode = (): string =>
+    Array.from({ length: JOIN_CODE_LENGTH }, () => CODE_ALPHABET[randomIndex(CODE_ALPHABET.length)]).join('');
+
+export const normalizeCode = (code: string): string => code.trim().toUpperCase();
+
+// Created once per browser and kept across sessions
+export const getPlayerId = (): string => {
+    try {
+        const stored = localStorage.getItem(PLAYER_ID_KEY);
+        if (stored) return stored;
+        const id = `p_${Array.from(crypto.getRandomValues(new Uint8Array(8)), b => b.toString(16).padStart(2, '0')).join('')}`;
+        localStorage.setItem(PLAYER_ID_KEY, id);
+        return id;
+    } catch {
+        return `p_${Date.now()}`;
+    }
+};
+
+export const findRoomByPin = <T extends { pin?: string }>(rooms: T[], pin: string): T | undefined =>
+    rooms.find(r => r.pin && r.pin === pin.trim());
+
+// Link printed as a QR code on the join sheet (the team id is public, the code is not)
+export const getJoinUrl = (room: Room, team: Team): string =>
+    `${window.location.origin}${window.location.pathname}?pin=${room.pin}&team=${team.id}&code=${team.joinCode}`;
+
+export const isTeamMember = (team: Team | undefined, playerId: string): boolean => Boolean(team?.players?.[playerId]);
+
+// Teams created before join codes existed can be joined without one
+export const checkJoinCode = (team: Team, code: string): boolean =>
+    !team.joinCode || team.joinCode === normalizeCode(code);
+
+// Adds the player (or renames them) when the code matches; same room otherwise
+export const joinTeam = (room: Room, teamId: string, code: string, playerId: string, name: string): Room => {
+    const team = room.teams.find(t => t.id === teamId);
+    if (!team || team.bot || !name || !checkJoinCode(team, code)) return room;
+    const previousName = team.players?.[playerId];
+    if (previousName === name) return room;
+    const members = (team.members || []).filter(m => m !== previousName);
+    const updated: Team = {
+        ...team,
+        players: { ...(team.players || {}), [playerId]: name },
+        members: members.includes(name) ? members : [...members, name]
+    };
+    return { ...room, teams: room.teams.map(t => t.id === teamId ? updated : t) };
+};
+
+// Adds the names of players registered outside the room (Firebase keeps them
+// in roomPlayers) to their team's members; same room when none are missing
+export const withJoinedMembers = (room: Room): Room => {
+    let changed = false;
+    const teams = room.teams.map(t => {
+        const missing = [...new Set(Object.values(t.players || {}))].filter(name => !(t.members || []).includes(name));
+        if (t.bot || missing.length === 0) return t;
+        changed = true;
+        return { ...t, members: [...(t.members || []), ...missing] };
+    });
+    return changed ? { ...room, teams } : room;
+};
+
+// actorId must be one the caller has verified (a referee key, a Firebase uid);
+// rooms without an owner predate accounts and keep the old open behaviour
+export const canAct = (room: Room, action: GameAction, actorId: string): boolean => {
+    if (!room.ownerId || actorId === room.ownerId) return true;
+    // Pausing and forcing a board past validation are the owner's
+    if (action.type === 'PAUSE_MATCH' || (action.type === 'SUBMIT_STRATEGY' && action.force)) return false;
+    if ('teamId' in action) return isTeamMember(room.teams.find(t => t.id === action.teamId), actorId);
+    const match = room.matches.find(m => m.id === action.matchId);
+    return Boolean(match) && [match!.teamAId, match!.teamBId].some(id => isTeamMember(room.teams.find(t => t.id === id), actorId));
+};
+
+// Stand in for another team's player id in a match log, and for the PIN of
+// someone else's room (it still shows that the room has one)
+export const HIDDEN_PLAYER = 'p_hidden';
+export const HIDDEN_PIN = '------';
+
+// A viewer only receives the player ids of its own team, also inside match
+// logs; the PIN, join codes and everyone's players only go to the room's owner
+export const redactMembership = (room: Room, viewerTeamId: string | null, isOwnerView: boolean): Room => {
+    if (isOwnerView) return room;
+    const ownPlayers = room.teams.find(t => t.id === viewerTeamId)?.players || {};
+    const isForeignPlayer = (actorId?: string) => Boolean(actorId) && !ownPlayers[actorId!] && room.teams.some(t => t.players?.[actorId!]);
+    const redactActor = <T extends { actorId?: string }>(entry: T): T => isForeignPlayer(entry.actorId) ? { ...entry, actorId: HIDDEN_PLAYER } : entry;
+    return {
+        ...room,
+        pin: room.pin && HIDDEN_PIN,
+        teams: room.teams.map(t => t.id === viewerTeamId ? t : { ...t, players: undefined, joinCode: undefined }),
+        matches: room.matches.map(m => m.events || m.rollbacks ? {
+            ...m,
+            events: m.events?.map(redactActor),
+            rollbacks: m.rollbacks?.map(r => ({ ...redactActor(r), undone: r.undone.map(redactActor) }))
+        } : m)
+    };
+};
@@ -0,0 +1,13 @@
+import { Room } from '../types';
+import { RoomStore, createRoomListStore } from './roomStore';
+
+// Rooms that only live in this page (tests, demos). Nothing is persisted.
+export const createMemoryStore = (initialRooms: Room[] = []): RoomStore => {
+    let rooms = initialRooms;
+    return createRoomListStore('MEMORY', {
+        read: () => rooms,
+        write: (next) => { rooms = next; },
+        watch: () => () => {},
+        status: 'LOCAL'
+    });
+};
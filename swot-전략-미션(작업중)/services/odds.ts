@@ -0,0 +1,59 @@
+import { Room } from '../types';
+import { getRuleSet, findTeamMatchIndex } from './gameEngine';
+import { getCardColor, getSlotColor } from './hiddenInfo';
+
+// Round odds from what a team is allowed to see: its own card, the color of
+// the opponent's card and the opponent cards already revealed in the match
+// history. The opponent's unrevealed number is never read, so the same
+// estimate is fair for players, bots and the advisor.
+
+export interface RoundOdds {
+    win: number;
+    draw: number;
+    lose: number;
+    candidates: number[]; // Cards the opponent may be holding this round
+}
+
+// Deck cards of the opponent's visible color it has not played yet
+export const getOpponentCandidates = (room: Room, teamId: string, round?: number): number[] => {
+    const match = room.matches[findTeamMatchIndex(room, teamId)];
+    if (!match || match.isBye) return [];
+    const isTeamA = match.teamAId === teamId;
+    const opponent = room.teams.find(t => t.id === (isTeamA ? match.teamBId : match.teamAId));
+    const slot = opponent?.strategy?.[(round ?? match.currentRound) - 1];
+    const color = slot ? getSlotColor(slot) : undefined;
+    const played = (match.history || []).map(h => isTeamA ? h.teamBCard : h.teamACard);
+    return getRuleSet(room).deck.filter(c => !played.includes(c) && (!color || getCardColor(c) === color));
+};
+
+export const estimateRoundOdds = (room: Room, teamId: string, round?: number): RoundOdds | null => {
+    const match = room.matches[findTeamMatchIndex(room, teamId)];
+    const team = room.teams.find(t => t.id === teamId);
+    const myCard = team?.strategy?.[(round ?? match?.currentRound ?? 1) - 1]?.card;
+    if (!match || myCard === undefined) return null;
+    return getRoundOdds(myCard, getOpponentCandidates(room, teamId, round));
+};
+
+// Odds of one card against equally likely opponent cards
+export const getRoundOdds = (myCard: number, candidates: number[]): RoundOdds | null => {
+    if (myCard < 0 || candidates.length === 0) return null;
+    const count = (predicate: (c: number) => boolean) => candidates.filter(predicate).length / candidates.length;
+    return {
+        win: count(c => c < myCard),
+        draw: count(c => c === myCard),
+        lose: count(c => c > myCard),
+        candidates
+    };
+};
+
+// Expected chips of calling: the bets are evened at the opponent's, then we
+// win that amount plus the carry over or lose it (a draw changes nothing)
+export const getCallValue = (odds: RoundOdds, oppBet: number, carryOver: number): number =>
+    odds.win * (oppBet + carryOver) - odds.lose * oppBet;
+
+// Folding always gives up our own bet
+export const getFoldValue = (myBet: number): number => -myBet;
+
+// How much better calling is than folding, in expected chips
+export const getCallEdge = (odds: RoundOdds, myBet: number, oppBet: number, carryOver: number): number =>
+    getCallValue(odds, oppBet, carryOver) - getFoldValue(myBet);
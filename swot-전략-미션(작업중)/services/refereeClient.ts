@@ -0,0 +1,148 @@
+import { Room, GameAction, ActionContext, ConnectionStatus } from '../types';
+import { parseRooms } from './schema';
+import { toPatchBody } from './roomStore';
+import { AdminEdit } from './adminEdits';
+import { setServerTimeOffset } from './clock';
+
+// Client for the local referee server (server/referee.ts).
+// When REFEREE_URL is set, strategies and round resolution live on the
+// referee and this client only ever receives its own team's cards.
+
+const REFEREE_URL = (process.env.REFEREE_URL || '').replace(/\/$/, '');
+const KEYS_KEY = 'swot_referee_keys';
+
+export const isRefereeConfigured = (): boolean => Boolean(REFEREE_URL);
+
+// --- Keys the referee issued to this browser (player id / owner uid -> key, server/refereeKeys.ts) ---
+
+const keyListeners = new Set<() => void>();
+
+const loadKeys = (): Record<string, string> => {
+    try {
+        return JSON.parse(localStorage.getItem(KEYS_KEY) || '{}');
+    } catch {
+        return {};
+    }
+};
+
+const rememberKeys = (keys: Record<string, string>) => {
+    try {
+        localStorage.setItem(KEYS_KEY, JSON.stringify({ ...loadKeys(), ...keys }));
+    } catch (error) {
+        console.warn('Could not keep referee keys:', error);
+    }
+    keyListeners.forEach(listener => listener());
+};
+
+const encodeKeys = (): string =>
+    Object.entries(loadKeys()).map(([id, key]) => `${encodeURIComponent(id)}:${encodeURIComponent(key)}`).join(',');
+
+// Keeps the keys a response handed out (200 { keys }), if any
+const takeIssuedKeys = async (res: Response) => {
+    if (res.status !== 200) return;
+    const { keys } = await res.json();
+    if (keys) rememberKeys(keys);
+};
+
+const request = async (method: string, path: string, body?: unknown): Promise<Response> => {
+    const res = await fetch(`${REFEREE_URL}${path}`, {
+        method,
+        headers: { 'Content-Type': 'application/json', 'X-Referee-Keys': encodeKeys() },
+        body: body === undefined ? undefined : JSON.stringify(body)
+    });
+    if (!res.ok && res.status !== 409 && res.status !== 403) {
+        throw new Error(`Referee ${method} ${path} failed: ${res.status}`);
+    }
+    return res;
+};
+
+// For writes whose refusal is an error too (not the owner, or the room already exists)
+const requestOrThrow = async (method: string, path: string, body?: unknown): Promise<Response> => {
+    const res = await request(method, path, body);
+    if (!res.ok) throw new Error(`Referee ${method} ${path} refused: ${res.status}`);
+    return res;
+};
+
+const openRoomStream = (viewerTeamId: string | null, callback: (rooms: Room[]) => void, onStatus?: (status: ConnectionStatus) => void): EventSource => {
+    const params = new URLSearchParams();
+    const keys = encodeKeys();
+    if (keys) params.set('keys', keys);
+    if (viewerTeamId) params.set('teamId', viewerTeamId);
+    const query = params.toString() ? `?${params}` : '';
+    const source = new EventSource(`${REFEREE_URL}/rooms/events${query}`);
+    source.addEventListener('rooms', (event) => {
+        try {
+            callback(parseRooms(JSON.parse((event as MessageEvent).data)));
+        } catch (error) {
+            console.error('Invalid referee payload:', error);
+        }
+    });
+    source.addEventListener('clock', (event) => {
+        setServerTimeOffset(Number((event as MessageEvent).data) - Date.now());
+    });
+    source.onopen = () => onStatus?.('CONNECTED');
+    source.onerror = () => {
+        console.warn('Referee connection lost, retrying...');
+        onStatus?.(source.readyState === EventSource.CLOSED ? 'OFFLINE' : 'CONNECTING');
+    };
+    return source;
+};
+
+// Subscribe to the rooms as this browser may see them: its players' own team,
+// or, in rooms it owns, join codes and players and the team it visits.
+// EventSource reconnects by itself; a newly issued key opens a new stream.
+export const subscribeToRefereeRooms = (viewerTeamId: string | null, callback: (rooms: Room[]) => void, onStatus?: (status: ConnectionStatus) => void): (() => void) => {
+    let source = openRoomStream(viewerTeamId, callback, onStatus);
+    const reopen = () => {
+        source.close();
+        source = openRoomStream(viewerTeamId, callback, onStatus);
+    };
+    keyListeners.add(reopen);
+    return () => {
+        keyListeners.delete(reopen);
+        source.close();
+    };
+};
+
+// Creates the room; the referee takes its setup only and may assign another PIN
+export const saveRoomToReferee = async (room: Room): Promise<void> => {
+    await takeIssuedKeys(await requestOrThrow('PUT', `/rooms/${room.id}`, room));
+};
+
+export const patchRoomInReferee = async (roomId: string, edit: AdminEdit): Promise<void> => {
+    await requestOrThrow('PATCH', `/rooms/${roomId}`, edit);
+};
+
+export const patchMatchInReferee = async (roomId: string, matchIdx: number, patch: Record<string, unknown>): Promise<void> => {
+    await requestOrThrow('PATCH', `/rooms/${roomId}/matches/${matchIdx}`, toPatchBody(patch));
+};
+
+export const deleteRoomFromReferee = async (roomId: string): Promise<void> => {
+    await requestOrThrow('DELETE', `/rooms/${roomId}`);
+};
+
+// The room a PIN belongs to (streams only show the PIN to the room's owner)
+export const findRoomIdOnReferee = async (pin: string): Promise<string | null> => {
+    const res = await fetch(`${REFEREE_URL}/rooms/pins/${encodeURIComponent(pin)}`);
+    return res.ok ? (await res.json()).roomId : null;
+};
+
+// Resolves to false when the join code was wrong (or the player id belongs to another browser)
+export const joinTeamOnReferee = async (roomId: string, teamId: string, name: string, playerId: string, code: string): Promise<boolean> => {
+    const res = await request('POST', `/rooms/${roomId}/teams/${teamId}/members`, { name, playerId, code });
+    await takeIssuedKeys(res);
+    return res.ok;
+};
+
+// Resolves to false when the referee rejected the action (current state, or not a team member);
+// rejects when the referee could not be reached
+export const sendActionToReferee = async (roomId: string, action: GameAction, actorId: string, context?: ActionContext): Promise<boolean> => {
+    const res = await request('POST', `/rooms/${roomId}/actions`, { action, actorId, context });
+    return res.ok;
+};
+
+// Resolves to false when the referee refused (not the owner, or that round cannot be rolled back)
+export const rollbackMatchOnReferee = async (roomId: string, matchIdx: number, round: number): Promise<boolean> => {
+    const res = await request('POST', `/rooms/${roomId}/matches/${matchIdx}/rollback`, { round });
+    return res.ok;
+};
@@ -0,0 +1,179 @@
+import { Room, Team, Match, RoomSummary, TeamSummary, ConnectionStatus, InboxAction } from '../types';
+import { joinTeam, findRoomByPin } from './membership';
+
+// Storage backend for rooms. Every adapter (services/firebase.ts,
+// localStore.ts, memoryStore.ts, socketStore.ts) offers the same calls;
+// services/storage.ts picks one from the configuration. The referee server
+// is not a store: it resolves actions itself (services/refereeClient.ts).
+// Stores hand every member the whole room, opponents' boards included; only
+// the referee redacts them (services/hiddenInfo.ts).
+
+export type StoreKind = 'FIREBASE' | 'LOCAL' | 'MEMORY' | 'SOCKET';
+
+export interface RoomStore {
+    kind: StoreKind;
+    load: () => Promise<Room[]>;
+    // Lists only need the rooms index; a full room is only loaded while it is open
+    subscribeToIndex: (callback: (rooms: RoomSummary[]) => void) => () => void;
+    subscribeToRoom: (roomId: string, callback: (room: Room | null) => void) => () => void;
+    subscribeToConnection: (callback: (status: ConnectionStatus) => void) => () => void;
+    // Server clock minus this device's, in ms (services/clock.ts); stores without one use the device clock
+    subscribeToServerTimeOffset?: (callback: (offsetMs: number) => void) => () => void;
+    // Create or fully replace a room
+    save: (room: Room) => Promise<void>;
+    // Update only the given top-level fields (undefined deletes a field)
+    patch: (roomId: string, patch: Partial<Room>) => Promise<void>;
+    // Keys are slash-separated paths inside the match, e.g. { 'aiAdvice/t_1': text }
+    patchMatch: (roomId: string, matchIdx: number, patch: Record<string, unknown>) => Promise<void>;
+    remove: (roomId: string) => Promise<void>;
+    // Apply an updater to the latest copy of a room atomically. Returning the
+    // same room aborts; the promise then resolves to null. It rejects when the
+    // change could not reach the server (services/actionQueue.ts retries).
+    transaction: (roomId: string, updater: (room: Room) => Room) => Promise<Room | null>;
+    // The room a PIN belongs to; the index does not list PINs
+    findRoomIdByPin: (pin: string) => Promise<string | null>;
+    // Registers a player on a team (services/membership.ts); false when the join code is wrong
+    joinTeam: (roomId: string, teamId: string, code: string, playerId: string, name: string) => Promise<boolean>;
+    // Adds index entries for rooms saved before the index existed (no-op where the index is derived)
+    rebuildIndex: () => Promise<void>;
+    // Stores whose rules keep players from writing rooms they do not own
+    // (Firebase) take those players' actions into a per-player inbox instead;
+    // the owner's browser applies them with the same checks and removes them
+    sendAction?: (roomId: string, entry: InboxAction) => Promise<void>;
+    subscribeToActions?: (roomId: string, callback: (actions: InboxAction[]) => void) => () => void;
+    removeAction?: (roomId: string, entry: InboxAction) => Promise<void>;
+}
+
+export const toTeamSummaries = (teams: Team[]): TeamSummary[] =>
+    teams.map(t => ({ id: t.id, name: t.name, isReady: t.isReady, bot: t.bot }));
+
+export const toRoomSummary = (room: Room): RoomSummary => ({
+    id: room.id,
+    name: room.name,
+    status: room.status,
+    hasPin: Boolean(room.pin),
+    ownerId: room.ownerId,
+    teams: toTeamSummaries(room.teams),
+    posterThumbnailUrl: room.winnerPoster?.thumbnailUrl
+});
+
+// --- Shared by the adapters that edit plain room objects ---
+
+export const applyRoomPatch = (room: Room, patch: Partial<Room>): Room => {
+    const next: Partial<Room> = { ...room, ...patch };
+    for (const key of Object.keys(patch) as (keyof Room)[]) {
+        if (next[key] === undefined || next[key] === null) delete next[key];
+    }
+    return next as Room;
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+// Immutably set a slash-separated path inside a plain object (undefined/null deletes)
+const setPath = <T>(obj: T, path: string[], value: unknown): T => {
+    const [head, ...rest] = path;
+    const source: Record<string, unknown> = isObject(obj) ? obj : {};
+    const next: Record<string, unknown> = Object.assign(Array.isArray(source) ? [] : {}, source);
+    if (rest.length === 0) {
+        if (value === undefined || value === null) delete next[head];
+        else next[head] = value;
+    } else {
+        const child = next[head];
+        next[head] = setPath(child, rest, value);
+    }
+    return next as T;
+};
+
+// Null when the match does not exist
+export const applyMatchPatch = (room: Room, matchIdx: number, patch: Record<string, unknown>): Room | null => {
+    if (!room.matches[matchIdx]) return null;
+    let match: Match = room.matches[matchIdx];
+    for (const key of Object.keys(patch)) {
+        match = setPath(match, key.split('/'), patch[key]);
+    }
+    const matches = [...room.matches];
+    matches[matchIdx] = match;
+    return { ...room, matches };
+};
+
+// For stores that keep the join codes in the room: the transaction checks the code
+export const joinTeamInTransaction = async (transaction: RoomStore['transaction'], roomId: string, teamId: string, code: string, playerId: string, name: string): Promise<boolean> => {
+    let accepted = false;
+    await transaction(roomId, room => {
+        const next = joinTeam(room, teamId, code, playerId, name);
+        accepted = next !== room || room.teams.find(t => t.id === teamId)?.players?.[playerId] === name;
+        return next;
+    });
+    return accepted;
+};
+
+// JSON drops undefined, so deletions travel as null
+export const toPatchBody = (patch: Record<string, unknown>): Record<string, unknown> => {
+    const body: Record<string, unknown> = {};
+    for (const key of Object.keys(patch)) body[key] = patch[key] === undefined ? null : patch[key];
+    return body;
+};
+
+// Stores whose whole room list can be read synchronously in this browser
+// (memory, localStorage). `watch` reports changes made elsewhere, with the
+// new room list when it came along; changes made through the store itself
+// are reported by the store.
+export interface RoomListBackend {
+    read: () => Room[];
+    write: (rooms: Room[]) => void;
+    watch: (onChange: (rooms?: Room[]) => void) => () => void;
+    status: ConnectionStatus;
+}
+
+export const createRoomListStore = (kind: StoreKind, backend: RoomListBackend): RoomStore => {
+    const listeners = new Set<(rooms: Room[]) => void>();
+    const notify = (rooms: Room[] = backend.read()) => {
+        listeners.forEach(listener => listener(rooms));
+    };
+    const commit = (rooms: Room[]) => {
+        backend.write(rooms);
+        notify(rooms);
+    };
+    const update = (roomId: string, updater: (room: Room) => Room | null): Room | null => {
+        const rooms = backend.read();
+        const room = rooms.find(r => r.id === roomId);
+        if (!room) return null;
+        const next = updater(room);
+        if (!next || next === room) return null;
+        commit(rooms.map(r => r.id === roomId ? next : r));
+        return next;
+    };
+    const transaction: RoomStore['transaction'] = async (roomId, updater) => update(roomId, updater);
+    let unwatch: (() => void) | null = null;
+    const subscribe = (callback: (rooms: Room[]) => void) => {
+        listeners.add(callback);
+        if (!unwatch) unwatch = backend.watch(notify);
+        callback(backend.read());
+        return () => {
+            listeners.delete(callback);
+            if (listeners.size === 0 && unwatch) { unwatch(); unwatch = null; }
+        };
+    };
+
+    return {
+        kind,
+        load: async () => backend.read(),
+        subscribeToIndex: (callback) => subscribe(rooms => callback(rooms.map(toRoomSummary))),
+        subscribeToRoom: (roomId, callback) => subscribe(rooms => callback(rooms.find(r => r.id === roomId) || null)),
+        subscribeToConnection: (callback) => {
+            callback(backend.status);
+            return () => {};
+        },
+        save: async (room) => {
+            const rooms = backend.read();
+            commit(rooms.some(r => r.id === room.id) ? rooms.map(r => r.id === room.id ? room : r) : [...rooms, room]);
+        },
+        patch: async (roomId, patch) => { update(roomId, room => applyRoomPatch(room, patch)); },
+        patchMatch: async (roomId, matchIdx, patch) => { update(roomId, room => applyMatchPatch(room, matchIdx, patch)); },
+        remove: async (roomId) => { commit(backend.read().filter(r => r.id !== roomId)); },
+        transaction,
+        findRoomIdByPin: async (pin) => findRoomByPin(backend.read(), pin)?.id ?? null,
+        joinTeam: (roomId, teamId, code, playerId, name) => joinTeamInTransaction(transaction, roomId, teamId, code, playerId, name),
+        rebuildIndex: async () => {}
+    };
+};
@@ -0,0 +1,389 @@
+import { Room, Team, Match, MatchEvent, ActionContext, ActionRequest, InboxAction, MatchRollback, PhaseDeadline, PhaseTimers, GameAction, RoundHistory, RoundStrategy, RuleSet, Tournament, RoomSummary, TeamSummary, ImageAsset, DEFAULT_RULE_SET } from '../types';
+import { decideWinner } from './gameEngine';
+
+// Runtime schema for rooms read from Firebase, localStorage or the referee.
+// Saved data is first migrated to CURRENT_SCHEMA_VERSION, then validated
+// field by field; a room that still does not fit is skipped with a warning
+// instead of breaking the whole room list.
+
+export const CURRENT_SCHEMA_VERSION = 4;
+
+// --- Parsers ---
+
+type Parser<T> = (value: unknown, path: string) => T;
+
+// Every field of T needs a parser, so a new field in types.ts fails to compile until it is added here
+type Shape<T> = { [K in keyof T]-?: Parser<T[K]> };
+
+const fail = (path: string, expected: string, value: unknown): never => {
+    throw new Error(`${path}: expected ${expected}, got ${JSON.stringify(value)}`);
+};
+
+const isMissing = (value: unknown): value is null | undefined => value === null || value === undefined;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const string: Parser<string> = (value, path) => typeof value === 'string' ? value : fail(path, 'string', value);
+
+const number: Parser<number> = (value, path) => typeof value === 'number' && Number.isFinite(value) ? value : fail(path, 'number', value);
+
+const boolean: Parser<boolean> = (value, path) => typeof value === 'boolean' ? value : fail(path, 'boolean', value);
+
+const literal = <T extends string>(...values: T[]): Parser<T> => (value, path) =>
+    values.includes(value as T) ? value as T : fail(path, values.join(' | '), value);
+
+const optional = <T>(parser: Parser<T>): Parser<T | undefined> => (value, path) =>
+    isMissing(value) ? undefined : parser(value, path);
+
+const withDefault = <T>(parser: Parser<T>, fallback: T): Parser<T> => (value, path) =>
+    isMissing(value) ? fallback : parser(value, path);
+
+// Firebase drops empty arrays and may return arrays as objects with numeric keys
+const toList = (value: unknown): unknown[] => {
+    if (Array.isArray(value)) return value.filter(item => !isMissing(item));
+    if (isObject(value)) return Object.values(value).filter(item => !isMissing(item));
+    return [];
+};
+
+const list = <T>(parser: Parser<T>): Parser<T[]> => (value, path) => {
+    if (!isMissing(value) && typeof value !== 'object') return fail(path, 'array', value);
+    return toList(value).map((item, i) => parser(item, `${path}[${i}]`));
+};
+
+// Firebase also drops empty objects
+const record = <T>(parser: Parser<T>): Parser<Record<string, T>> => (value, path) => {
+    if (isMissing(value)) return {};
+    if (!isObject(value)) return fail(path, 'object', value);
+    const result: Record<string, T> = {};
+    for (const [key, item] of Object.entries(value)) result[key] = parser(item, `${path}.${key}`);
+    return result;
+};
+
+// Unknown fields are dropped and undefined ones left out (Firebase rejects undefined)
+const object = <T>(shape: Shape<T>): Parser<T> => (value, path) => {
+    if (!isObject(value)) return fail(path, 'object', value);
+    const result: Record<string, unknown> = {};
+    for (const key of Object.keys(shape) as (keyof T & string)[]) {
+        const parsed = shape[key](value[key], `${path}.${key}`);
+        if (parsed !== undefined) result[key] = parsed;
+    }
+    return result as T;
+};
+
+// --- Schema ---
+
+const botLevel = literal('RANDOM', 'CONSERVATIVE', 'BLUFFER', 'OPTIMAL');
+const roomStatus = withDefault(literal('WAITING', 'PREPARING', 'PLAYING', 'FINISHED'), 'PREPARING');
+
+const roundStrategy = object<RoundStrategy>({
+    round: number,
+    card: number,
+    chips: number,
+    color: optional(literal('BLACK', 'WHITE'))
+});
+
+const roundHistory = object<RoundHistory>({
+    round: number,
+    teamACard: number,
+    teamBCard: number,
+    teamAChips: number,
+    teamBChips: number,
+    result: literal('A_WON', 'B_WON', 'DRAW', 'A_FOLDED', 'B_FOLDED'),
+    potWon: number
+});
+
+type ActionOf<T extends GameAction['type']> = Extract<GameAction, { type: T }>;
+
+const GAME_ACTIONS: { [T in GameAction['type']]: Parser<ActionOf<T>> } = {
+    SUBMIT_STRATEGY: object<ActionOf<'SUBMIT_STRATEGY'>>({ type: literal('SUBMIT_STRATEGY'), teamId: string, strategy: list(roundStrategy), force: optional(boolean) }),
+    OPEN_ROUND: object<ActionOf<'OPEN_ROUND'>>({ type: literal('OPEN_ROUND'), matchId: string }),
+    FOLD: object<ActionOf<'FOLD'>>({ type: literal('FOLD'), teamId: string }),
+    CALL: object<ActionOf<'CALL'>>({ type: literal('CALL'), teamId: string, steal: optional(record(number)) }),
+    SHOWDOWN: object<ActionOf<'SHOWDOWN'>>({ type: literal('SHOWDOWN'), matchId: string }),
+    CONFIRM_RESULT: object<ActionOf<'CONFIRM_RESULT'>>({ type: literal('CONFIRM_RESULT'), teamId: string }),
+    PAUSE_MATCH: object<ActionOf<'PAUSE_MATCH'>>({ type: literal('PAUSE_MATCH'), matchId: string, paused: boolean })
+};
+
+const gameAction: Parser<GameAction> = (value, path) => {
+    const type = isObject(value) ? value.type : undefined;
+    if (typeof type !== 'string' || !(type in GAME_ACTIONS)) return fail(`${path}.type`, 'game action', type);
+    return GAME_ACTIONS[type as GameAction['type']](value, path);
+};
+
+const actionContext = object<ActionContext>({
+    matchId: optional(string),
+    round: optional(number),
+    roundStatus: optional(literal('READY', 'DECISION', 'SHOWDOWN', 'RESULT', 'FINISHED')),
+    cycle: number
+});
+
+const actionRequest = object<ActionRequest>({
+    action: gameAction,
+    actorId: string,
+    context: optional(actionContext)
+});
+
+const inboxAction = object<InboxAction>({
+    id: string,
+    actorId: string,
+    action: gameAction,
+    context: actionContext,
+    at: number
+});
+
+const matchEvent = object<MatchEvent>({
+    seq: number,
+    at: number,
+    actorId: optional(string),
+    action: gameAction
+});
+
+const matchRollback = object<MatchRollback>({
+    at: number,
+    actorId: optional(string),
+    toRound: number,
+    undone: list(matchEvent)
+});
+
+const team = object<Team>({
+    id: string,
+    name: withDefault(string, ''),
+    roomId: withDefault(string, ''),
+    isReady: withDefault(boolean, false),
+    score: withDefault(number, 0),
+    winnings: withDefault(number, 0),
+    strategy: list(roundStrategy),
+    members: list(string),
+    bot: optional(botLevel),
+    joinCode: optional(string),
+    players: optional(record(string))
+});
+
+const match = object<Match>({
+    id: string,
+    teamAId: withDefault(string, ''),
+    teamBId: withDefault(string, ''),
+    teamAScore: withDefault(number, 0),
+    teamBScore: withDefault(number, 0),
+    currentRound: withDefault(number, 1),
+    roundStatus: withDefault(literal('READY', 'DECISION', 'SHOWDOWN', 'RESULT', 'FINISHED'), 'READY'),
+    turnOwner: optional(string),
+    pot: withDefault(number, 0),
+    carryOver: withDefault(number, 0),
+    paused: optional(boolean),
+    deadline: optional(object<PhaseDeadline>({
+        phase: literal('PREPARATION', 'DECISION', 'RESULT'),
+        round: number,
+        endsAt: number,
+        remainingMs: optional(number)
+    })),
+    lastAction: optional(object<NonNullable<Match['lastAction']>>({ teamId: string, action: literal('FOLD', 'CALL') })),
+    resultConfirmed: record(boolean),
+    lastRoundResult: optional(roundHistory),
+    history: list(roundHistory),
+    aiHelps: record(number),
+    aiAdvice: record(string),
+    drafts: optional(record(list(roundStrategy))),
+    winnerId: optional(string),
+    isBye: optional(boolean),
+    finalWinnings: optional(record(number)),
+    cycle: optional(number),
+    bracket: optional(literal('WINNERS', 'LOSERS', 'GROUP', 'LEAGUE')),
+    group: optional(number),
+    events: optional(list(matchEvent)),
+    rollbacks: optional(list(matchRollback))
+});
+
+const ruleSet = object<RuleSet>({
+    rounds: number,
+    chips: number,
+    deck: list(number),
+    minChipsPerRound: number,
+    byeChips: optional(number),
+    timers: optional(object<PhaseTimers>({
+        preparation: optional(number),
+        decision: optional(number),
+        result: optional(number)
+    }))
+});
+
+const tournament = object<Tournament>({
+    format: literal('SINGLE_ELIMINATION', 'DOUBLE_ELIMINATION', 'GROUP_KNOCKOUT', 'ROUND_ROBIN', 'SWISS'),
+    stage: literal('GROUP', 'KNOCKOUT', 'LEAGUE'),
+    losses: record(number),
+    seeds: list(string),
+    groups: optional(list(list(string))),
+    advancePerGroup: optional(number),
+    totalCycles: optional(number),
+    championId: optional(string)
+});
+
+const imageAsset = object<ImageAsset>({
+    url: string,
+    thumbnailUrl: optional(string),
+    path: optional(string),
+    thumbnailPath: optional(string),
+    contentType: optional(string),
+    width: optional(number),
+    height: optional(number),
+    size: optional(number)
+});
+
+const room = object<Room>({
+    schemaVersion: number,
+    id: string,
+    name: withDefault(string, ''),
+    totalTeams: number,
+    currentRound: withDefault(number, 1),
+    status: roomStatus,
+    teams: list(team),
+    matches: list(match),
+    feedback: optional(string),
+    winnerPhotos: optional(list(imageAsset)),
+    winnerPoster: optional(imageAsset),
+    rules: optional(ruleSet),
+    cycle: optional(number),
+    tournament: optional(tournament),
+    showOdds: withDefault(boolean, false),
+    ownerId: optional(string),
+    pin: optional(string)
+});
+
+// Rooms index entries are derived from the rooms, so they are not versioned
+const roomSummary = object<RoomSummary>({
+    id: string,
+    name: withDefault(string, ''),
+    status: roomStatus,
+    hasPin: withDefault(boolean, false),
+    ownerId: optional(string),
+    teams: list(object<TeamSummary>({
+        id: string,
+        name: withDefault(string, ''),
+        isReady: withDefault(boolean, false),
+        bot: optional(botLevel)
+    })),
+    posterThumbnailUrl: optional(string)
+});
+
+// --- Migrations ---
+
+// MIGRATIONS[n] upgrades raw data saved at version n to n + 1.
+// Rooms saved before schemaVersion existed count as version 1.
+// Raw data is untrusted: every field is checked before it is used.
+type RawRoom = Record<string, unknown>;
+
+const numberOr = (value: unknown, fallback: number): number => typeof value === 'number' ? value : fallback;
+const stringOr = (value: unknown, fallback: string): string => typeof value === 'string' ? value : fallback;
+
+const MIGRATIONS: Record<number, (raw: RawRoom) => RawRoom> = {
+    // Rule sets: older rooms played with the defaults
+    1: raw => ({ ...raw, rules: raw.rules || DEFAULT_RULE_SET }),
+
+    // Match results: finished matches record their winner and final winnings.
+    // Rooms this old never had tournaments, so the teams still hold the winnings.
+    2: raw => {
+        const teams = toList(raw.teams).filter(isObject);
+        const winningsOf = (teamId: string): number => numberOr(teams.find(t => t.id === teamId)?.winnings, 0);
+        return {
+            ...raw,
+            matches: toList(raw.matches).map(m => {
+                if (!isObject(m) || m.roundStatus !== 'FINISHED' || m.isBye || m.finalWinnings) return m;
+                const teamAId = stringOr(m.teamAId, '');
+                const teamBId = stringOr(m.teamBId, '');
+                const winningsA = winningsOf(teamAId);
+                const winningsB = winningsOf(teamBId);
+                return {
+                    ...m,
+                    winnerId: decideWinner({ teamAId, teamBId, teamAScore: numberOr(m.teamAScore, 0), teamBScore: numberOr(m.teamBScore, 0) }, winningsA, winningsB),
+                    finalWinnings: { [teamAId]: winningsA, [teamBId]: winningsB }
+                };
+            })
+        };
+    },
+
+    // Images: posters and photos moved to object storage. Older ones stay
+    // inline as data URLs (no storage path) until they are replaced.
+    3: ({ winnerPosterUrl, winnerPhotoUrls, ...raw }) => {
+        const photos = toList(winnerPhotoUrls).filter(url => typeof url === 'string').map(url => ({ url }));
+        return {
+            ...raw,
+            winnerPoster: typeof winnerPosterUrl === 'string' ? { url: winnerPosterUrl } : undefined,
+            winnerPhotos: photos.length > 0 ? photos : undefined
+        };
+    }
+};
+
+const migrate = (raw: RawRoom): RawRoom => {
+    let version = numberOr(raw.schemaVersion, 1);
+    if (version > CURRENT_SCHEMA_VERSION) {
+        console.warn(`Room ${raw.id} was saved by a newer version (${version}); reading it as version ${CURRENT_SCHEMA_VERSION}`);
+    }
+    let migrated = raw;
+    for (; version < CURRENT_SCHEMA_VERSION; version++) {
+        migrated = MIGRATIONS[version](migrated);
+    }
+    return { ...migrated, schemaVersion: CURRENT_SCHEMA_VERSION };
+};
+
+// --- Public API ---
+
+// Migrated and validated room, or null (with a warning) when the data does not fit
+export const parseRoom = (raw: unknown): Room | null => {
+    if (!isObject(raw)) {
+        console.warn('Skipping invalid room data:', raw);
+        return null;
+    }
+    try {
+        return room(migrate(raw), `room(${raw.id})`);
+    } catch (error) {
+        console.warn('Skipping invalid room:', (error as Error).message);
+        return null;
+    }
+};
+
+// Accepts an array or a Firebase object keyed by room id
+export const parseRooms = (raw: unknown): Room[] =>
+    toList(raw).map(parseRoom).filter((r): r is Room => r !== null);
+
+// Accepts an array or a Firebase object keyed by room id; invalid entries are skipped
+export const parseRoomSummaries = (raw: unknown): RoomSummary[] =>
+    toList(raw).flatMap(entry => {
+        try {
+            return [roomSummary(entry, 'roomIndex')];
+        } catch (error) {
+            console.warn('Skipping invalid room index entry:', (error as Error).message);
+            return [];
+        }
+    });
+
+// Validated action request, or null (with a warning) when the body does not fit
+export const parseActionRequest = (raw: unknown): ActionRequest | null => {
+    try {
+        return actionRequest(raw, 'request');
+    } catch (error) {
+        console.warn('Rejecting invalid action:', (error as Error).message);
+        return null;
+    }
+};
+
+// Accepts Firebase's roomActions/{roomId} (entries keyed by player, then by id); invalid entries are skipped
+export const parseInboxActions = (raw: unknown): InboxAction[] =>
+    toList(raw).flatMap(toList).flatMap(entry => {
+        try {
+            return [inboxAction(entry, 'roomActions')];
+        } catch (error) {
+            console.warn('Skipping invalid player action:', (error as Error).message);
+            return [];
+        }
+    });
+
+// A board sent on its own (a team's draft), or null when it does not fit
+export const parseStrategy = (raw: unknown): RoundStrategy[] | null => {
+    try {
+        return list(roundStrategy)(raw, 'strategy');
+    } catch (error) {
+        console.warn('Rejecting invalid board:', (error as Error).message);
+        return null;
+    }
+};
@@ -0,0 +1,50 @@
+import { RoundStrategy } from '../types';
+
+// What a player's browser remembers between page loads: the team it joined
+// (so a refresh or a locked phone rejoins the match) and the strategy it was
+// still arranging before submitting it.
+
+const SESSION_KEY = 'swot_user_session';
+
+export interface PlayerSession {
+    roomId: string;
+    teamId: string;
+    userName: string;
+    playerId: string;
+}
+
+const draftKey = (roomId: string, teamId: string, cycle: number) => `swot_strategy_draft_${roomId}_${teamId}_${cycle}`;
+
+const read = <T>(key: string): T | null => {
+    try {
+        const raw = localStorage.getItem(key);
+        return raw ? JSON.parse(raw) as T : null;
+    } catch {
+        return null;
+    }
+};
+
+const write = (key: string, value: unknown | null) => {
+    try {
+        if (value === null) localStorage.removeItem(key);
+        else localStorage.setItem(key, JSON.stringify(value));
+    } catch {
+        console.warn('localStorage not available');
+    }
+};
+
+export const loadPlayerSession = (): PlayerSession | null => {
+    const session = read<PlayerSession>(SESSION_KEY);
+    return session?.roomId && session.teamId ? session : null;
+};
+
+export const savePlayerSession = (session: PlayerSession) => write(SESSION_KEY, session);
+
+export const clearPlayerSession = () => write(SESSION_KEY, null);
+
+// Drafts are per tournament cycle, so a new cycle starts from an empty board
+export const loadStrategyDraft = (roomId: string, teamId: string, cycle: number): RoundStrategy[] | null =>
+    read<RoundStrategy[]>(draftKey(roomId, teamId, cycle));
+
+export const saveStrategyDraft = (roomId: string, teamId: string, cycle: number, strategy: RoundStrategy[] | null) =>
+    write(draftKey(roomId, teamId, cycle), strategy);
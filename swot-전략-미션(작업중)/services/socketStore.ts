@@ -0,0 +1,156 @@
+import { Room, ConnectionStatus } from '../types';
+import { RoomStore, toPatchBody, toRoomSummary, joinTeamInTransaction } from './roomStore';
+import { parseRoom, parseRooms } from './schema';
+import { findRoomByPin } from './membership';
+
+// Client for the local room server (server/roomServer.ts) over a WebSocket.
+// The server pushes the whole room list with a revision per room after every
+// change (it serves one local network, so the index and single-room views
+// are derived here). Transactions are compare-and-set on that revision: the updater runs
+// on the cached copy and is retried on the server's copy after a conflict.
+
+const RECONNECT_DELAY_MS = 2000;
+const MAX_TRANSACTION_ATTEMPTS = 5;
+
+// Sent by the server: the room list, or the reply to one request
+type ServerMessage =
+    | { type: 'rooms'; rooms: unknown; revisions: Record<string, number> }
+    | { type: 'result'; requestId: number; ok: boolean; conflict?: boolean; room?: unknown; revision?: number; offline?: boolean }; // offline: set here when the socket was down
+
+type Reply = Extract<ServerMessage, { type: 'result' }>;
+
+export const createSocketStore = (url: string): RoomStore => {
+    let socket: WebSocket | null = null;
+    let status: ConnectionStatus = 'CONNECTING';
+    let everConnected = false;
+    let rooms: Room[] = [];
+    let received = false; // Got the room list at least once
+    let revisions: Record<string, number> = {};
+    let nextRequestId = 1;
+    const pending = new Map<number, (reply: Reply) => void>();
+    const roomListeners = new Set<(rooms: Room[]) => void>();
+    const statusListeners = new Set<(status: ConnectionStatus) => void>();
+    let loaded: Promise<void> | null = null;
+    let markLoaded = () => {};
+
+    const setStatus = (next: ConnectionStatus) => {
+        status = next;
+        statusListeners.forEach(listener => listener(status));
+    };
+
+    const handleMessage = (message: ServerMessage) => {
+        if (message.type === 'rooms') {
+            rooms = parseRooms(message.rooms);
+            revisions = message.revisions || {};
+            received = true;
+            markLoaded();
+            roomListeners.forEach(listener => listener(rooms));
+        } else if (message.type === 'result') {
+            pending.get(message.requestId)?.(message);
+            pending.delete(message.requestId);
+        }
+    };
+
+    const connect = () => {
+        if (socket) return;
+        loaded = loaded || new Promise(resolve => { markLoaded = resolve; });
+        socket = new WebSocket(url);
+        socket.onopen = () => {
+            everConnected = true;
+            setStatus('CONNECTED');
+        };
+        socket.onmessage = (event) => {
+            try {
+                handleMessage(JSON.parse(event.data));
+            } catch (error) {
+                console.error('Invalid room server message:', error);
+            }
+        };
+        socket.onclose = () => {
+            socket = null;
+            setStatus(everConnected ? 'OFFLINE' : 'CONNECTING');
+            // Requests in flight are lost with the socket
+            pending.forEach(resolve => resolve({ type: 'result', requestId: 0, ok: false, offline: true }));
+            pending.clear();
+            setTimeout(connect, RECONNECT_DELAY_MS);
+        };
+    };
+
+    const subscribe = (callback: (rooms: Room[]) => void) => {
+        connect();
+        roomListeners.add(callback);
+        if (received) callback(rooms);
+        return () => { roomListeners.delete(callback); };
+    };
+
+    const send = (request: Record<string, unknown>): Promise<Reply> => {
+        connect();
+        if (!socket || socket.readyState !== WebSocket.OPEN) {
+            console.warn('Room server not connected, change dropped:', request.op);
+            return Promise.resolve({ type: 'result', requestId: 0, ok: false, offline: true });
+        }
+        const requestId = nextRequestId++;
+        socket.send(JSON.stringify({ ...request, requestId }));
+        return new Promise(resolve => pending.set(requestId, resolve));
+    };
+
+    const transaction: RoomStore['transaction'] = async (roomId, updater) => {
+        connect();
+        await loaded; // A reload while offline has no rooms cached yet
+        let room = rooms.find(r => r.id === roomId);
+        let revision = revisions[roomId] || 0;
+        for (let attempt = 1; room && attempt <= MAX_TRANSACTION_ATTEMPTS; attempt++) {
+            const next = updater(room);
+            if (next === room) return null;
+            const reply = await send({ op: 'put', room: next, revision });
+            if (reply.ok) return next;
+            if (reply.offline) throw new Error('Room server not connected');
+            if (!reply.conflict) return null;
+            // Someone wrote first: run the updater again on the server's copy
+            room = parseRoom(reply.room) || undefined;
+            revision = reply.revision || 0;
+        }
+        return null;
+    };
+
+    return {
+        kind: 'SOCKET',
+
+        load: async () => {
+            connect();
+            await loaded;
+            return rooms;
+        },
+
+        subscribeToIndex: (callback) => subscribe(list => callback(list.map(toRoomSummary))),
+
+        subscribeToRoom: (roomId, callback) => subscribe(list => callback(list.find(r => r.id === roomId) || null)),
+
+        subscribeToConnection: (callback) => {
+            connect();
+            statusListeners.add(callback);
+            callback(status);
+            return () => { statusListeners.delete(callback); };
+        },
+
+        save: async (room) => { await send({ op: 'save', room }); },
+
+        patch: async (roomId, patch) => { await send({ op: 'patch', roomId, patch: toPatchBody(patch) }); },
+
+        patchMatch: async (roomId, matchIdx, patch) => { await send({ op: 'patchMatch', roomId, matchIdx, patch: toPatchBody(patch) }); },
+
+        remove: async (roomId) => { await send({ op: 'remove', roomId }); },
+
+        transaction,
+
+        findRoomIdByPin: async (pin) => {
+            connect();
+            await loaded;
+            return findRoomByPin(rooms, pin)?.id ?? null;
+        },
+
+        joinTeam: (roomId, teamId, code, playerId, name) => joinTeamInTransaction(transaction, roomId, teamId, code, playerId, name),
+
+        rebuildIndex: async () => {}
+    };
+};
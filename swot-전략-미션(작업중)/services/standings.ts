@@ -0,0 +1,59 @@
+import { Room, Match } from '../types';
+
+// League table over every finished match of a room. Ordered by match points
+// (win 2, tie 1), then rounds won, then chip differential, then the
+// head-to-head result between the tied teams.
+
+export interface Standing {
+    teamId: string;
+    played: number;
+    wins: number;
+    draws: number;
+    losses: number;
+    points: number;
+    roundsWon: number;
+    chipDiff: number; // Own final winnings minus the opponents', summed over matches
+    opponents: string[]; // In play order; repeats when teams met more than once
+}
+
+const POINTS_WIN = 2;
+const POINTS_DRAW = 1;
+
+const getFinishedMatches = (room: Room): Match[] => room.matches.filter(m => m.roundStatus === 'FINISHED');
+
+// Positive when a beat b more often than b beat a
+const headToHead = (matches: Match[], a: string, b: string): number =>
+    matches.reduce((score, m) => {
+        const between = (m.teamAId === a && m.teamBId === b) || (m.teamAId === b && m.teamBId === a);
+        if (!between || !m.winnerId) return score;
+        return score + (m.winnerId === a ? 1 : -1);
+    }, 0);
+
+export const getStandings = (room: Room): Standing[] => {
+    const finished = getFinishedMatches(room);
+    const standings = room.teams.map((team): Standing => {
+        const s: Standing = { teamId: team.id, played: 0, wins: 0, draws: 0, losses: 0, points: 0, roundsWon: 0, chipDiff: 0, opponents: [] };
+        finished.forEach(m => {
+            const isTeamA = m.teamAId === team.id;
+            if (!isTeamA && m.teamBId !== team.id) return;
+            const opponentId = isTeamA ? m.teamBId : m.teamAId;
+            s.played += 1;
+            s.opponents.push(opponentId);
+            s.roundsWon += isTeamA ? m.teamAScore : m.teamBScore;
+            s.chipDiff += (m.finalWinnings?.[team.id] || 0) - (m.finalWinnings?.[opponentId] || 0);
+            if (!m.winnerId) s.draws += 1;
+            else if (m.winnerId === team.id) s.wins += 1;
+            else s.losses += 1;
+        });
+        s.points = s.wins * POINTS_WIN + s.draws * POINTS_DRAW;
+        return s;
+    });
+    return standings.sort((a, b) =>
+        b.points - a.points
+        || b.roundsWon - a.roundsWon
+        || b.chipDiff - a.chipDiff
+        || headToHead(finished, b.teamId, a.teamId));
+};
+
+export const hasPlayed = (room: Room, a: string, b: string): boolean =>
+    room.matches.some(m => (m.teamAId === a && m.teamBId === b) || (m.teamAId === b && m.teamBId === a));
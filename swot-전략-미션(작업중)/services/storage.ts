@@ -0,0 +1,41 @@
+import { RoomStore } from './roomStore';
+import { createFirebaseStore, isFirebaseConfigured } from './firebase';
+import { createLocalStore } from './localStore';
+import { createMemoryStore } from './memoryStore';
+import { createSocketStore } from './socketStore';
+
+// ROOM_STORE picks the backend: firebase | local | memory | socket.
+// Without it: Firebase when configured, otherwise this browser's localStorage.
+
+const ROOM_STORE = (process.env.ROOM_STORE || '').toLowerCase();
+const ROOM_SERVER_URL = process.env.ROOM_SERVER_URL || 'ws://localhost:3002';
+
+let store: RoomStore | null = null;
+
+const createRoomStore = (): RoomStore => {
+    switch (ROOM_STORE) {
+        case 'memory': return createMemoryStore();
+        case 'local': return createLocalStore();
+        case 'socket': return createSocketStore(ROOM_SERVER_URL);
+        case 'firebase':
+        case '':
+            if (isFirebaseConfigured()) {
+                try {
+                    return createFirebaseStore();
+                } catch (error) {
+                    console.error('Firebase unavailable, using localStorage:', error);
+                    return createLocalStore();
+                }
+            }
+            if (ROOM_STORE) console.warn('ROOM_STORE=firebase but Firebase is not configured; using localStorage');
+            return createLocalStore();
+        default:
+            console.warn(`Unknown ROOM_STORE "${ROOM_STORE}"; using localStorage`);
+            return createLocalStore();
+    }
+};
+
+export const getRoomStore = (): RoomStore => {
+    if (!store) store = createRoomStore();
+    return store;
+};
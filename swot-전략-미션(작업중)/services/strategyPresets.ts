@@ -0,0 +1,90 @@
+import { RoundStrategy, RuleSet } from '../types';
+import { shuffle, distributeChips } from './bots';
+
+// One-click boards for the PREPARING screen. Every preset and the "complete"
+// helper only produce boards that validateStrategy accepts (a chip preset
+// keeps the cards as they are), so a team can submit right after a click.
+
+export type StrategyPreset = 'RANDOM' | 'ASCENDING' | 'SAVE_HIGH' | 'EVEN_CHIPS';
+
+export const STRATEGY_PRESETS: { id: StrategyPreset; label: string; description: string }[] = [
+    { id: 'RANDOM', label: '🎲 무작위', description: '카드와 칩을 무작위로 배치' },
+    { id: 'ASCENDING', label: '📈 오름차순', description: '낮은 카드부터 차례로, 칩은 고르게' },
+    { id: 'SAVE_HIGH', label: '🃏 고카드 후반', description: '높은 카드를 마지막 라운드에 아껴두고 칩도 몰아주기' },
+    { id: 'EVEN_CHIPS', label: '⚖️ 칩 균등', description: '카드는 그대로, 칩만 고르게 분배' }
+];
+
+// The strongest cards of the deck, one per round
+const strongestCards = (rules: RuleSet): number[] => [...rules.deck].sort((a, b) => b - a).slice(0, rules.rounds);
+
+const toStrategy = (cards: number[], chips: number[]): RoundStrategy[] =>
+    cards.map((card, i) => ({ round: i + 1, card, chips: chips[i] }));
+
+export const applyStrategyPreset = (preset: StrategyPreset, strategy: RoundStrategy[], rules: RuleSet, random: () => number = Math.random): RoundStrategy[] => {
+    const even = () => distributeChips(Array(rules.rounds).fill(1), rules);
+    switch (preset) {
+        case 'RANDOM': {
+            const cards = shuffle(rules.deck, random).slice(0, rules.rounds);
+            return toStrategy(cards, distributeChips(cards.map(() => random() + 0.1), rules));
+        }
+        case 'ASCENDING':
+            return toStrategy(strongestCards(rules).sort((a, b) => a - b), even());
+        case 'SAVE_HIGH': {
+            // The top third goes to the last rounds (strongest last), the rest is shuffled in front
+            const cards = strongestCards(rules);
+            const kept = Math.ceil(rules.rounds / 3);
+            const order = [...shuffle(cards.slice(kept), random), ...cards.slice(0, kept).reverse()];
+            const low = Math.min(...order);
+            const high = Math.max(...order);
+            return toStrategy(order, distributeChips(order.map(c => ((c - low + 1) / (high - low + 1)) ** 2 + 0.1), rules));
+        }
+        case 'EVEN_CHIPS':
+            return toStrategy(Array.from({ length: rules.rounds }, (_, i) => strategy[i]?.card ?? -1), even());
+    }
+};
+
+// Fills what is still open and keeps what the team already placed: the
+// strongest unused cards go to the empty rounds (lowest first), every round
+// gets at least the minimum bet, and the chips left over are spread evenly
+// (odd chips to the later rounds) or, when over budget, taken from the biggest bets
+export const completeStrategy = (strategy: RoundStrategy[], rules: RuleSet): RoundStrategy[] => {
+    const next = Array.from({ length: rules.rounds }, (_, i) => ({
+        round: i + 1,
+        card: strategy[i]?.card ?? -1,
+        chips: Math.max(strategy[i]?.chips ?? 0, rules.minChipsPerRound)
+    }));
+    const used = new Set(next.map(s => s.card).filter(c => c !== -1));
+    const empty = next.filter(s => s.card === -1);
+    const spare = rules.deck.filter(c => !used.has(c)).sort((a, b) => b - a).slice(0, empty.length).sort((a, b) => a - b);
+    empty.forEach((s, i) => { if (i < spare.length) s.card = spare[i]; });
+
+    let left = rules.chips - next.reduce((acc, s) => acc + s.chips, 0);
+    if (left > 0) {
+        const share = Math.floor(left / rules.rounds);
+        next.forEach((s, i) => { s.chips += share + (i >= rules.rounds - (left % rules.rounds) ? 1 : 0); });
+    }
+    while (left < 0) {
+        const biggest = next.reduce((a, b) => (b.chips > a.chips ? b : a));
+        if (biggest.chips <= rules.minChipsPerRound) break;
+        biggest.chips -= 1;
+        left += 1;
+    }
+    return next;
+};
+
+export interface ChecklistItem {
+    label: string;
+    done: boolean;
+}
+
+// What validateStrategy checks, one line each, for the board as it is now
+export const getStrategyChecklist = (strategy: RoundStrategy[], rules: RuleSet): ChecklistItem[] => {
+    const usedCards = strategy.map(s => s.card).filter(c => c !== -1);
+    const remainingChips = rules.chips - strategy.reduce((acc, s) => acc + s.chips, 0);
+    return [
+        { label: `카드 배치 ${usedCards.length}/${rules.rounds}`, done: strategy.length === rules.rounds && usedCards.length === rules.rounds },
+        { label: '중복·덱 외 카드 없음', done: new Set(usedCards).size === usedCards.length && usedCards.every(c => rules.deck.includes(c)) },
+        { label: `라운드별 최소 ${rules.minChipsPerRound}억`, done: strategy.every(s => s.chips >= rules.minChipsPerRound) },
+        { label: `잔액 ${remainingChips}억 → 0억`, done: remainingChips === 0 }
+    ];
+};
@@ -0,0 +1,101 @@
+import { Room, Match, GameAction, PhaseDeadline, PhaseTimers, RoundStrategy } from '../types';
+import { getRuleSet, validateStrategy } from './gameEngine';
+import { generateBotStrategy } from './bots';
+import { completeStrategy } from './strategyPresets';
+import { getCurrentCycle, getMatchCycle } from './tournament';
+
+// Per-phase clocks. The room's rule set gives the seconds per phase; each
+// match carries the deadline of the phase it is in, as a server timestamp,
+// so every screen counts down to the same moment. When a deadline passes the
+// phase gets its default action: an unsubmitted board is completed from the
+// team's draft (Match.drafts), the team that has to decide folds, and a
+// pending result is confirmed. services/gameFlow.ts keeps the deadlines in
+// step with the game, and the referee server (or, without one, an open
+// browser) applies the timeouts.
+
+type Phase = PhaseDeadline['phase'];
+
+const PHASE_TIMERS: Record<Phase, keyof PhaseTimers> = {
+    PREPARATION: 'preparation',
+    DECISION: 'decision',
+    RESULT: 'result'
+};
+
+// Phase of a match that runs on a clock, or null
+const getClockedPhase = (room: Room, match: Match): Phase | null => {
+    if (match.isBye || match.roundStatus === 'FINISHED' || room.status === 'FINISHED' || room.status === 'WAITING') return null;
+    if (getMatchCycle(match) !== getCurrentCycle(room)) return null;
+    const teams = [match.teamAId, match.teamBId].map(id => room.teams.find(t => t.id === id));
+    if (teams.some(t => !t?.isReady)) return 'PREPARATION';
+    if (room.status !== 'PLAYING') return null;
+    if (match.roundStatus === 'DECISION') return 'DECISION';
+    if (match.roundStatus === 'RESULT') return 'RESULT';
+    return null;
+};
+
+// The match's current deadline, the same object when nothing changed
+const getNextDeadline = (room: Room, match: Match, now: number): PhaseDeadline | undefined => {
+    const phase = getClockedPhase(room, match);
+    const seconds = phase ? getRuleSet(room).timers?.[PHASE_TIMERS[phase]] : undefined;
+    if (!phase || !seconds) return undefined;
+    const current = match.deadline;
+    if (!current || current.phase !== phase || current.round !== match.currentRound) {
+        const fresh: PhaseDeadline = { phase, round: match.currentRound, endsAt: now + seconds * 1000 };
+        return match.paused ? { ...fresh, remainingMs: seconds * 1000 } : fresh;
+    }
+    if (match.paused && current.remainingMs === undefined) return { ...current, remainingMs: Math.max(0, current.endsAt - now) };
+    if (!match.paused && current.remainingMs !== undefined) return { phase, round: current.round, endsAt: now + current.remainingMs };
+    return current;
+};
+
+// Starts, stops, holds and resumes the clocks after a change; the same room when none moved
+export const syncDeadlines = (room: Room, now: number): Room => {
+    let changed = false;
+    const matches = room.matches.map(m => {
+        const deadline = getNextDeadline(room, m, now);
+        if (deadline === m.deadline) return m;
+        changed = true;
+        return { ...m, deadline };
+    });
+    return changed ? { ...room, matches } : room;
+};
+
+// Milliseconds left on a deadline (frozen while paused)
+export const getRemainingMs = (deadline: PhaseDeadline, now: number): number =>
+    deadline.remainingMs ?? Math.max(0, deadline.endsAt - now);
+
+// Earliest running deadline of the room, to know when to look again
+export const getNextTimeout = (room: Room): number | null => {
+    const running = room.matches.map(m => m.deadline).filter((d): d is PhaseDeadline => Boolean(d) && d!.remainingMs === undefined);
+    return running.length > 0 ? Math.min(...running.map(d => d.endsAt)) : null;
+};
+
+// The team's draft with the open rounds filled in; a draft that cannot be
+// made legal (or none at all) gets a cautious board instead
+const completeDraft = (room: Room, match: Match, teamId: string, random: () => number): RoundStrategy[] => {
+    const rules = getRuleSet(room);
+    const completed = completeStrategy(match.drafts?.[teamId] || [], rules);
+    return validateStrategy(completed, rules) === null ? completed : generateBotStrategy('CONSERVATIVE', rules, random);
+};
+
+// Default actions of every phase whose time is up
+export const getTimeoutActions = (room: Room, now: number, random: () => number = Math.random): GameAction[] => {
+    const actions: GameAction[] = [];
+    for (const match of room.matches) {
+        const deadline = match.deadline;
+        if (!deadline || deadline.remainingMs !== undefined || deadline.endsAt > now || match.paused) continue;
+        if (getClockedPhase(room, match) !== deadline.phase) continue;
+        if (deadline.phase === 'PREPARATION') {
+            room.teams
+                .filter(t => (t.id === match.teamAId || t.id === match.teamBId) && !t.isReady && !t.bot)
+                .forEach(t => actions.push({ type: 'SUBMIT_STRATEGY', teamId: t.id, strategy: completeDraft(room, match, t.id, random) }));
+        } else if (deadline.phase === 'DECISION' && match.turnOwner) {
+            actions.push({ type: 'FOLD', teamId: match.turnOwner });
+        } else if (deadline.phase === 'RESULT') {
+            [match.teamAId, match.teamBId]
+                .filter(id => !match.resultConfirmed?.[id])
+                .forEach(teamId => actions.push({ type: 'CONFIRM_RESULT', teamId }));
+        }
+    }
+    return actions;
+};
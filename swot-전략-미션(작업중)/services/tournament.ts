@@ -0,0 +1,279 @@
+import { Room, Match, Tournament, TournamentFormat, BracketSide } from '../types';
+import { getRuleSet, getByeChips } from './gameEngine';
+import { getStandings, hasPlayed } from './standings';
+
+// Multi-stage tournaments. Every cycle is a set of matches played at the same
+// time; when the last match of a cycle finishes, advanceTournament appends the
+// next cycle to Room.matches and sends the room back to PREPARING so the
+// teams still in the bracket can build a fresh strategy.
+
+export const TOURNAMENT_FORMATS: { id: TournamentFormat; label: string; description: string }[] = [
+    { id: 'SINGLE_ELIMINATION', label: '싱글 엘리미네이션', description: '한 번 지면 탈락' },
+    { id: 'DOUBLE_ELIMINATION', label: '더블 엘리미네이션', description: '두 번 지면 탈락 (패자부활전)' },
+    { id: 'GROUP_KNOCKOUT', label: '조별리그 + 토너먼트', description: '4팀 조별 리그 후 상위 2팀 토너먼트' },
+    { id: 'ROUND_ROBIN', label: '풀리그 (라운드 로빈)', description: '모든 팀과 한 번씩 대결' },
+    { id: 'SWISS', label: '스위스 리그', description: '매 차전 비슷한 순위끼리 대결' }
+];
+
+export const isLeagueFormat = (format: TournamentFormat): boolean => format === 'ROUND_ROBIN' || format === 'SWISS';
+
+const GROUP_SIZE = 4;
+const ADVANCE_PER_GROUP = 2;
+
+// --- Lookups ---
+
+export const getCurrentCycle = (room: Room): number => room.cycle || 1;
+
+export const getMatchCycle = (match: Match): number => match.cycle || 1;
+
+export const getCycleMatches = (room: Room, cycle: number = getCurrentCycle(room)): Match[] =>
+    room.matches.filter(m => getMatchCycle(m) === cycle);
+
+// Exact ties go to team A, the higher seed of the pairing
+export const getAdvancingTeamId = (match: Match): string => match.winnerId || match.teamAId;
+
+const getMaxLosses = (format: TournamentFormat): number => format === 'DOUBLE_ELIMINATION' ? 2 : 1;
+
+export const isEliminated = (room: Room, teamId: string): boolean => {
+    const t = room.tournament;
+    if (!t || t.stage === 'LEAGUE') return false;
+    if (t.championId) return t.championId !== teamId;
+    return (t.losses[teamId] || 0) >= getMaxLosses(t.format);
+};
+
+// Team is in the tournament but has no match in the current cycle
+export const isWaitingThisCycle = (room: Room, teamId: string): boolean =>
+    Boolean(room.tournament) && !isEliminated(room, teamId)
+        && !getCycleMatches(room).some(m => m.teamAId === teamId || m.teamBId === teamId);
+
+// --- Scheduling helpers ---
+
+// The cycle is part of the id: bots can finish a cycle and start the next within one millisecond
+export const createMatch = (teamAId: string, teamBId: string, idx: number, extra: Partial<Match> = {}): Match => ({
+    id: `m_${Date.now()}_${extra.cycle || 1}_${idx}`,
+    teamAId,
+    teamBId,
+    teamAScore: 0,
+    teamBScore: 0,
+    currentRound: 1, roundStatus: 'READY', pot: 0, carryOver: 0, history: [], aiHelps: {},
+    ...extra
+});
+
+// Born finished: team A wins without playing and is credited the bye chips
+export const createByeMatch = (teamId: string, idx: number, byeChips: number, extra: Partial<Match> = {}): Match =>
+    createMatch(teamId, '', idx, { ...extra, isBye: true, roundStatus: 'FINISHED', winnerId: teamId, finalWinnings: { [teamId]: byeChips } });
+
+// Manual pairings may leave a team without an opponent; it gets a bye
+// instead of waiting forever for a round to open
+export const assignByes = (matches: Match[], byeChips: number): Match[] =>
+    matches
+        .filter(m => m.teamAId || m.teamBId)
+        .map((m, i) => m.isBye || (m.teamAId && m.teamBId) ? m : createByeMatch(m.teamAId || m.teamBId, i, byeChips, { id: m.id, cycle: m.cycle }));
+
+const shuffle = <T>(items: T[]): T[] => {
+    const result = [...items];
+    for (let i = result.length - 1; i > 0; i--) {
+        const j = Math.floor(Math.random() * (i + 1));
+        [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+};
+
+// A team paired with null has a bye that cycle
+type Pairing = [string, string | null];
+
+// Circle method: every team meets every other team once; with an odd count
+// each team has one bye
+export const roundRobinSchedule = (teamIds: string[]): Pairing[][] => {
+    const slots: (string | null)[] = teamIds.length % 2 ? [...teamIds, null] : [...teamIds];
+    const cycles: Pairing[][] = [];
+    for (let c = 0; c < slots.length - 1; c++) {
+        const pairs: Pairing[] = [];
+        for (let i = 0; i < slots.length / 2; i++) {
+            const a = slots[i];
+            const b = slots[slots.length - 1 - i];
+            if (a) pairs.push([a, b]);
+            else if (b) pairs.push([b, null]);
+        }
+        cycles.push(pairs);
+        slots.splice(1, 0, slots.pop()!);
+    }
+    return cycles;
+};
+
+// Odd team out: the lowest-placed team that has not had a bye yet
+const pickByeTeam = (room: Room, ordered: string[]): string | undefined => {
+    if (ordered.length % 2 === 0) return undefined;
+    const hadBye = (id: string) => room.matches.some(m => m.isBye && m.teamAId === id);
+    return [...ordered].reverse().find(id => !hadBye(id)) || ordered[ordered.length - 1];
+};
+
+// Neighbours in bracket order play each other
+const pairInOrder = (room: Room, teamIds: string[]): Pairing[] => {
+    const byeTeamId = pickByeTeam(room, teamIds);
+    const rest = teamIds.filter(id => id !== byeTeamId);
+    const pairs: Pairing[] = [];
+    for (let i = 0; i + 1 < rest.length; i += 2) pairs.push([rest[i], rest[i + 1]]);
+    if (byeTeamId) pairs.push([byeTeamId, null]);
+    return pairs;
+};
+
+const toMatches = (room: Room, pairings: { pair: Pairing; extra: Partial<Match> }[]): Match[] => {
+    const byeChips = getByeChips(getRuleSet(room));
+    return pairings.map(({ pair: [a, b], extra }, i) => b ? createMatch(a, b, i, extra) : createByeMatch(a, i, byeChips, extra));
+};
+
+// --- Cycle generation ---
+
+const getGroupStageLength = (groups: string[][]): number =>
+    Math.max(...groups.map(g => roundRobinSchedule(g).length));
+
+const buildGroupMatches = (room: Room, groups: string[][], cycle: number): Match[] =>
+    toMatches(room, groups.flatMap((group, g) =>
+        (roundRobinSchedule(group)[cycle - 1] || []).map(pair => ({ pair, extra: { cycle, bracket: 'GROUP' as BracketSide, group: g } }))));
+
+const buildKnockoutMatches = (room: Room, t: Tournament, cycle: number): Match[] => {
+    const alive = t.seeds.filter(id => (t.losses[id] || 0) < getMaxLosses(t.format));
+    const winners = alive.filter(id => !t.losses[id]);
+    const losers = alive.filter(id => t.losses[id]);
+    // Double elimination grand final: last unbeaten team against the losers' bracket winner
+    if (winners.length === 1 && losers.length === 1) {
+        return toMatches(room, [{ pair: [winners[0], losers[0]], extra: { cycle, bracket: 'WINNERS' } }]);
+    }
+    return toMatches(room, [
+        ...pairInOrder(room, winners).map(pair => ({ pair, extra: { cycle, bracket: 'WINNERS' as BracketSide } })),
+        ...pairInOrder(room, losers).map(pair => ({ pair, extra: { cycle, bracket: 'LOSERS' as BracketSide } }))
+    ]);
+};
+
+// Swiss: walk the table top-down and pair each team with the best-placed team
+// it has not met yet (a rematch only when nothing else is left)
+const buildSwissMatches = (room: Room, t: Tournament, cycle: number): Match[] => {
+    const order = cycle === 1 ? t.seeds : getStandings(room).map(s => s.teamId);
+    const byeTeamId = pickByeTeam(room, order);
+    const unpaired = order.filter(id => id !== byeTeamId);
+    const pairs: Pairing[] = [];
+    while (unpaired.length > 1) {
+        const a = unpaired.shift()!;
+        const fresh = unpaired.findIndex(b => !hasPlayed(room, a, b));
+        const [b] = unpaired.splice(fresh === -1 ? 0 : fresh, 1);
+        pairs.push([a, b]);
+    }
+    if (byeTeamId) pairs.push([byeTeamId, null]);
+    return toMatches(room, pairs.map(pair => ({ pair, extra: { cycle, bracket: 'LEAGUE' } })));
+};
+
+const buildLeagueMatches = (room: Room, t: Tournament, cycle: number): Match[] =>
+    t.format === 'SWISS'
+        ? buildSwissMatches(room, t, cycle)
+        : toMatches(room, (roundRobinSchedule(t.seeds)[cycle - 1] || []).map(pair => ({ pair, extra: { cycle, bracket: 'LEAGUE' } })));
+
+// A full round robin takes teams - 1 cycles (teams with an odd count);
+// Swiss needs about log2(teams) cycles to separate the field
+const getLeagueLength = (format: TournamentFormat, teamCount: number): number => {
+    const roundRobinCycles = teamCount % 2 ? teamCount : teamCount - 1;
+    return format === 'SWISS' ? Math.min(roundRobinCycles, Math.ceil(Math.log2(teamCount))) : roundRobinCycles;
+};
+
+// Group table: match wins, then chips won in group matches
+export const getGroupRanking = (room: Room, group: string[]): string[] => {
+    const groupMatches = room.matches.filter(m => m.bracket === 'GROUP' && m.roundStatus === 'FINISHED');
+    const stats = group.map(id => ({
+        id,
+        wins: groupMatches.filter(m => m.winnerId === id).length,
+        winnings: groupMatches.reduce((sum, m) => sum + (m.finalWinnings?.[id] || 0), 0)
+    }));
+    return stats.sort((a, b) => b.wins - a.wins || b.winnings - a.winnings).map(s => s.id);
+};
+
+// Group winners meet runners-up of the neighbouring group
+const enterKnockout = (room: Room, t: Tournament): Tournament => {
+    const groups = t.groups || [];
+    const perGroup = t.advancePerGroup || ADVANCE_PER_GROUP;
+    const rankings = groups.map(g => getGroupRanking(room, g));
+    const seeds: string[] = [];
+    rankings.forEach((ranking, g) => {
+        seeds.push(ranking[0]);
+        const next = rankings[(g + 1) % rankings.length];
+        if (perGroup > 1 && next[1]) seeds.push(next[1]);
+        for (let place = 2; place < perGroup; place++) if (ranking[place]) seeds.push(ranking[place]);
+    });
+    const qualified = seeds.filter(Boolean);
+    const losses: Record<string, number> = {};
+    room.teams.forEach(team => { if (!qualified.includes(team.id)) losses[team.id] = 1; });
+    return { ...t, stage: 'KNOCKOUT', seeds: qualified, losses };
+};
+
+const recordKnockoutResults = (t: Tournament, matches: Match[]): Tournament => {
+    const losses = { ...t.losses };
+    const played: string[] = [];
+    matches.forEach(m => {
+        if (m.isBye) { played.push(m.teamAId); return; }
+        const winner = getAdvancingTeamId(m);
+        const loser = winner === m.teamAId ? m.teamBId : m.teamAId;
+        losses[loser] = (losses[loser] || 0) + 1;
+        played.push(winner, loser);
+    });
+    const seeds = played.filter(id => (losses[id] || 0) < getMaxLosses(t.format));
+    return { ...t, losses, seeds };
+};
+
+// New cycle: its teams start over with no strategy and no winnings
+// (teams with a bye keep the winnings of their last played match)
+const beginCycle = (room: Room, cycle: number, matches: Match[]): Room => {
+    const playing = new Set(matches.filter(m => !m.isBye).flatMap(m => [m.teamAId, m.teamBId]));
+    return {
+        ...room,
+        cycle,
+        status: 'PREPARING',
+        matches: cycle === 1 ? matches : [...room.matches, ...matches],
+        teams: room.teams.map(t => playing.has(t.id) ? { ...t, isReady: false, strategy: undefined, winnings: 0 } : t)
+    };
+};
+
+// --- Entry points ---
+
+// Replaces any one-off pairing with cycle 1 of a freshly seeded tournament
+export const startTournament = (room: Room, format: TournamentFormat): Room => {
+    const seeds = shuffle(room.teams.map(t => t.id));
+    if (seeds.length < 2) return room;
+    const base: Room = { ...room, matches: [] };
+    if (isLeagueFormat(format)) {
+        const tournament: Tournament = { format, stage: 'LEAGUE', losses: {}, seeds, totalCycles: getLeagueLength(format, seeds.length) };
+        return beginCycle({ ...base, tournament }, 1, buildLeagueMatches(base, tournament, 1));
+    }
+    if (format === 'GROUP_KNOCKOUT') {
+        const groupCount = Math.max(1, Math.round(seeds.length / GROUP_SIZE));
+        const groups = Array.from({ length: groupCount }, (_, g) => seeds.filter((_, i) => i % groupCount === g));
+        const tournament: Tournament = { format, stage: 'GROUP', losses: {}, seeds, groups, advancePerGroup: ADVANCE_PER_GROUP };
+        return beginCycle({ ...base, tournament }, 1, buildGroupMatches(base, groups, 1));
+    }
+    const tournament: Tournament = { format, stage: 'KNOCKOUT', losses: {}, seeds };
+    return beginCycle({ ...base, tournament }, 1, buildKnockoutMatches(base, tournament, 1));
+};
+
+export const cancelTournament = (room: Room): Room => ({ ...room, tournament: undefined, cycle: undefined, matches: [] });
+
+// Rolls a finished cycle over into the next one; a no-op (same instance)
+// while any match of the current cycle is still being played
+export const advanceTournament = (room: Room): Room => {
+    const t = room.tournament;
+    if (!t || t.championId || room.status !== 'PLAYING') return room;
+    const cycle = getCurrentCycle(room);
+    const current = getCycleMatches(room, cycle);
+    if (current.length === 0 || current.some(m => m.roundStatus !== 'FINISHED')) return room;
+
+    if (t.stage === 'LEAGUE') {
+        if (cycle >= (t.totalCycles || 1)) return { ...room, tournament: { ...t, championId: getStandings(room)[0]?.teamId } };
+        return beginCycle(room, cycle + 1, buildLeagueMatches(room, t, cycle + 1));
+    }
+    if (t.stage === 'GROUP' && cycle < getGroupStageLength(t.groups || [])) {
+        return beginCycle(room, cycle + 1, buildGroupMatches(room, t.groups || [], cycle + 1));
+    }
+    const next = t.stage === 'GROUP' ? enterKnockout(room, t) : recordKnockoutResults(t, current);
+    const alive = next.seeds.filter(id => (next.losses[id] || 0) < getMaxLosses(next.format));
+    if (alive.length <= 1) {
+        return { ...room, tournament: { ...next, championId: alive[0] } };
+    }
+    return beginCycle({ ...room, tournament: next }, cycle + 1, buildKnockoutMatches(room, next, cycle + 1));
+};
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { applyAdminEdit, diffAdminEdit, AdminEdit } from '../services/adminEdits';
+import { applyGameAction } from '../services/gameEngine';
+import { createMatch } from '../services/tournament';
+import { Room } from '../types';
+import { board, createRoom, createTeam, createPlayingRoom, getTeam } from './fixtures';
+
+const submit = (room: Room, teamId: string): Room =>
+    applyGameAction(room, { type: 'SUBMIT_STRATEGY', teamId, strategy: board([1, 2, 3], [3, 3, 3]) });
+
+describe('diffAdminEdit', () => {
+    it('sends only the fields and teams that changed', () => {
+        const room = createRoom();
+        const edited = { ...room, showOdds: true, teams: room.teams.map(t => t.id === 't_b' ? { ...t, bot: 'OPTIMAL' as const } : t) };
+        expect(diffAdminEdit(room, edited)).toEqual({ showOdds: true, teams: [{ id: 't_b', bot: 'OPTIMAL' }] });
+        expect(diffAdminEdit(room, room)).toEqual({});
+    });
+
+    it('sends removed fields as null', () => {
+        const room = createRoom({ feedback: 'SWOT' });
+        expect(diffAdminEdit(room, { ...room, feedback: undefined })).toEqual({ feedback: null });
+    });
+});
+
+describe('applyAdminEdit', () => {
+    it('keeps what a team did after the admin copy was taken', () => {
+        const adminCopy = createRoom();
+        const edit = diffAdminEdit(adminCopy, { ...adminCopy, teams: adminCopy.teams.map(t => t.id === 't_b' ? { ...t, name: 'Blue' } : t) });
+        const latest = applyAdminEdit(submit(adminCopy, 't_a'), edit);
+        expect(getTeam(latest, 't_a').isReady).toBe(true);
+        expect(getTeam(latest, 't_b').name).toBe('Blue');
+    });
+
+    it('clears the board of a team handed back to humans', () => {
+        const room = submit(createRoom({ teams: [createTeam('t_a', { bot: 'RANDOM' }), createTeam('t_b')] }), 't_a');
+        const next = applyAdminEdit(room, { teams: [{ id: 't_a', bot: null }] });
+        expect(getTeam(next, 't_a')).toMatchObject({ bot: undefined, isReady: false, strategy: undefined });
+    });
+
+    it('adds house bots during setup only', () => {
+        const edit: AdminEdit = { teams: [{ id: 't_c', name: 'House Bot 3', bot: 'OPTIMAL' }] };
+        const added = applyAdminEdit(createRoom(), edit);
+        expect(added.totalTeams).toBe(3);
+        expect(getTeam(added, 't_c')).toMatchObject({ bot: 'OPTIMAL', isReady: false, winnings: 0, members: [] });
+        const playing = createPlayingRoom(board([1, 2, 3], [3, 3, 3]), board([1, 2, 3], [3, 3, 3]));
+        expect(applyAdminEdit(playing, edit)).toBe(playing);
+    });
+
+    it('never takes game state from the edit', () => {
+        const room = createPlayingRoom(board([1, 2, 3], [3, 3, 3]), board([1, 2, 3], [3, 3, 3]));
+        const forged = {
+            teams: [{ id: 't_a', winnings: 99, score: 5, isReady: true }],
+            matches: [{ ...room.matches[0], teamAScore: 3, carryOver: 50, roundStatus: 'FINISHED' }],
+            tournament: null,
+            pin: '000000',
+            ownerId: 'someone'
+        } as unknown as AdminEdit;
+        expect(applyAdminEdit(room, forged)).toBe(room);
+    });
+
+    it('rebuilds pairings from the team ids alone', () => {
+        const forged = { ...createMatch('t_a', 't_x', 0, { id: 'm_1' }), teamAScore: 2, history: [] };
+        const next = applyAdminEdit(createRoom(), { matches: [forged] });
+        expect(next.matches).toEqual([createMatch('t_a', '', 0, { id: 'm_1', cycle: 1 })]);
+    });
+
+    it('only allows the forward status changes, with byes for lone teams', () => {
+        const room = createRoom({ matches: [createMatch('t_a', '', 0, { id: 'm_1' })] });
+        const playing = applyAdminEdit(room, { status: 'PLAYING' });
+        expect(playing.status).toBe('PLAYING');
+        expect(playing.matches[0]).toMatchObject({ isBye: true, winnerId: 't_a', roundStatus: 'FINISHED' });
+        expect(applyAdminEdit(playing, { status: 'PREPARING' })).toBe(playing);
+        expect(applyAdminEdit(playing, { status: 'FINISHED' }).status).toBe('FINISHED');
+    });
+});
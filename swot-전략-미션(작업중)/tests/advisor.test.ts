@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { getOfflineAdvice } from '../services/advisor';
+import { redactRoomForTeam } from '../services/hiddenInfo';
+import { Room } from '../types';
+import { RULES, board, createPlayingRoom, getTeam, getMatch } from './fixtures';
+
+// Advice for team A, from A's own (redacted) view of the room
+const advise = (room: Room) => {
+    const view = redactRoomForTeam(room, 't_a');
+    return getOfflineAdvice(getTeam(view, 't_a'), getTeam(view, 't_b'), getMatch(view), RULES).split('\n');
+};
+
+describe('getOfflineAdvice', () => {
+    it('calls with a card that cannot lose', () => {
+        const [pick, odds, bets, value] = advise(createPlayingRoom(board([4, 1, 2], [3, 3, 3]), board([2, 1, 3], [3, 3, 3])));
+        expect(pick).toBe('추천: 승부');
+        expect(odds).toBe('1. 상대 카드 검정(짝수) 후보 [2, 4] 중 내 카드 4 기준 승 50% / 무 50% / 패 0%. 지지 않는 카드입니다.');
+        expect(bets).toBe('2. 배팅: 상대 3억 vs 나 3억. 추가 부담 없이 콜할 수 있습니다.');
+        expect(value).toBe('3. 기대값: 승부가 포기보다 평균 4.5억 유리합니다. (오프라인 분석)');
+    });
+
+    it('folds a card that cannot win against a big bet', () => {
+        const [pick, odds, bets] = advise(createPlayingRoom(board([1, 2, 3], [1, 4, 4]), board([3, 2, 4], [5, 2, 2])));
+        expect(pick).toBe('추천: 포기');
+        expect(odds).toContain('흰색(홀수) 후보 [1, 3]');
+        expect(odds).toContain('이길 수 없는 카드입니다.');
+        expect(bets).toBe('2. 배팅: 상대 5억 vs 나 1억. 콜하려면 4억이 더 필요합니다.');
+    });
+
+    it('leaves out the cards the opponent already played and counts the carry-over', () => {
+        const room = createPlayingRoom(board([1, 3, 2], [3, 3, 3]), board([2, 1, 4], [3, 3, 3]), {
+            currentRound: 3,
+            carryOver: 6,
+            history: [
+                { round: 1, teamACard: 1, teamBCard: 2, teamAChips: 3, teamBChips: 3, result: 'B_WON', potWon: 6 },
+                { round: 2, teamACard: 3, teamBCard: 1, teamAChips: 3, teamBChips: 3, result: 'DRAW', potWon: 0 }
+            ]
+        });
+        const [, odds, bets] = advise(room);
+        expect(odds).toContain('후보 [4] 중 내 카드 2 기준 승 0% / 무 0% / 패 100%');
+        expect(bets).toBe('2. 배팅: 상대 3억 vs 나 3억 (이월 6억). 추가 부담 없이 콜할 수 있습니다.');
+    });
+});
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { BOT_LEVELS, generateBotStrategy, getBotActions } from '../services/bots';
+import { validateStrategy } from '../services/gameEngine';
+import { GameAction } from '../types';
+import { RULES, RULE_SETS, createRoom, createTeam, createPairedMatch, seededRandom } from './fixtures';
+
+describe('generateBotStrategy', () => {
+    it('plays a legal board at every level under every rule set', () => {
+        for (const rules of RULE_SETS) {
+            for (const { id } of BOT_LEVELS) {
+                for (let seed = 1; seed <= 20; seed++) {
+                    expect(validateStrategy(generateBotStrategy(id, rules, seededRandom(seed)), rules)).toBeNull();
+                }
+            }
+        }
+    });
+
+    it('bets the most on the strongest card at the optimal level', () => {
+        const strategy = generateBotStrategy('OPTIMAL', RULE_SETS[0], seededRandom(7));
+        const top = strategy.reduce((a, b) => (b.chips > a.chips ? b : a));
+        expect(top.card).toBe(Math.max(...strategy.map(s => s.card)));
+    });
+});
+
+describe('getBotActions', () => {
+    it('submits a legal board for a bot team that is not ready', () => {
+        const room = createRoom({
+            teams: [createTeam('t_a', { bot: 'BLUFFER' }), createTeam('t_b')],
+            matches: [createPairedMatch()]
+        });
+        const actions = getBotActions(room, seededRandom(3)) as Extract<GameAction, { type: 'SUBMIT_STRATEGY' }>[];
+        expect(actions.map(a => [a.type, a.teamId])).toEqual([['SUBMIT_STRATEGY', 't_a']]);
+        expect(validateStrategy(actions[0].strategy, RULES)).toBeNull();
+    });
+});
@@ -0,0 +1,77 @@
+import { Room, Team, Match, RoundStrategy, RuleSet, DEFAULT_RULE_SET } from '../types';
+
+// Small rooms for the engine tests: three rounds, nine chips, cards 1-4
+
+export const RULES: RuleSet = { rounds: 3, chips: 9, deck: [1, 2, 3, 4], minChipsPerRound: 1 };
+
+// Rule sets the board generators must cope with: the default game, no spare
+// chips, a deck exactly as long as the match, and a high minimum bet
+export const RULE_SETS: RuleSet[] = [
+    DEFAULT_RULE_SET,
+    RULES,
+    { rounds: 4, chips: 4, deck: [0, 1, 2, 3, 4, 5], minChipsPerRound: 1 },
+    { rounds: 5, chips: 23, deck: [5, 6, 7, 8, 9], minChipsPerRound: 1 },
+    { rounds: 2, chips: 11, deck: [1, 3, 5, 7, 9], minChipsPerRound: 3 }
+];
+
+// Repeatable stand-in for Math.random
+export const seededRandom = (seed: number) => () => {
+    seed = (seed * 16807) % 2147483647;
+    return (seed - 1) / 2147483646;
+};
+
+// Board from one card and one bet per round
+export const board = (cards: number[], chips: number[]): RoundStrategy[] =>
+    cards.map((card, i) => ({ round: i + 1, card, chips: chips[i] }));
+
+export const createTeam = (id: string, extra: Partial<Team> = {}): Team => ({
+    id,
+    name: id,
+    roomId: 'r_test',
+    isReady: false,
+    score: 0,
+    winnings: 0,
+    members: [],
+    ...extra
+});
+
+export const createRoom = (extra: Partial<Room> = {}): Room => ({
+    id: 'r_test',
+    name: 'Test room',
+    totalTeams: 2,
+    currentRound: 1,
+    status: 'PREPARING',
+    teams: [createTeam('t_a'), createTeam('t_b')],
+    matches: [],
+    rules: RULES,
+    ...extra
+});
+
+// t_a against t_b as match m_1, before round 1 opens
+export const createPairedMatch = (extra: Partial<Match> = {}): Match => ({
+    id: 'm_1',
+    teamAId: 't_a',
+    teamBId: 't_b',
+    teamAScore: 0,
+    teamBScore: 0,
+    currentRound: 1,
+    roundStatus: 'READY',
+    pot: 0,
+    carryOver: 0,
+    history: [],
+    aiHelps: {},
+    ...extra
+});
+
+// Two teams with submitted boards, paired in match m_1 and playing round 1
+export const createPlayingRoom = (boardA: RoundStrategy[], boardB: RoundStrategy[], match: Partial<Match> = {}, rules: RuleSet = RULES): Room =>
+    createRoom({
+        status: 'PLAYING',
+        rules,
+        teams: [createTeam('t_a', { isReady: true, strategy: boardA }), createTeam('t_b', { isReady: true, strategy: boardB })],
+        matches: [createPairedMatch(match)]
+    });
+
+export const getTeam = (room: Room, teamId: string): Team => room.teams.find(t => t.id === teamId)!;
+
+export const getMatch = (room: Room, matchId = 'm_1'): Match => room.matches.find(m => m.id === matchId)!;
@@ -0,0 +1,162 @@
+import { describe, it, expect } from 'vitest';
+import { applyGameAction, validateStrategy, getCurrentPot, getCallShortfall, planCallSteal } from '../services/gameEngine';
+import { GameAction, Room } from '../types';
+import { RULES, board, createRoom, createPlayingRoom, getTeam, getMatch } from './fixtures';
+
+const play = (room: Room, ...actions: GameAction[]): Room => actions.reduce(applyGameAction, room);
+const confirmBoth: GameAction[] = [{ type: 'CONFIRM_RESULT', teamId: 't_a' }, { type: 'CONFIRM_RESULT', teamId: 't_b' }];
+
+describe('validateStrategy', () => {
+    it('accepts a full board that spends every chip', () => {
+        expect(validateStrategy(board([1, 2, 3], [3, 3, 3]), RULES)).toBeNull();
+    });
+
+    it('rejects empty slots, repeated cards, small bets and chips left over', () => {
+        expect(validateStrategy(board([1, -1, 3], [3, 3, 3]), RULES)).toContain('3개 라운드');
+        expect(validateStrategy(board([1, 1, 3], [3, 3, 3]), RULES)).toContain('두 번');
+        expect(validateStrategy(board([1, 2, 3], [0, 4, 5]), RULES)).toContain('최소 1억');
+        expect(validateStrategy(board([1, 2, 3], [1, 1, 1]), RULES)).toContain('6억');
+    });
+});
+
+describe('SUBMIT_STRATEGY', () => {
+    it('marks the team ready with a legal board and ignores an illegal one', () => {
+        const room = createRoom();
+        const submitted = applyGameAction(room, { type: 'SUBMIT_STRATEGY', teamId: 't_a', strategy: board([1, 2, 3], [3, 3, 3]) });
+        expect(getTeam(submitted, 't_a').isReady).toBe(true);
+        expect(applyGameAction(room, { type: 'SUBMIT_STRATEGY', teamId: 't_a', strategy: board([1, 2, 3], [1, 1, 1]) })).toBe(room);
+    });
+
+    it('lets the admin force an illegal board', () => {
+        const room = applyGameAction(createRoom(), { type: 'SUBMIT_STRATEGY', teamId: 't_a', strategy: board([1, 2, 3], [1, 1, 1]), force: true });
+        expect(getTeam(room, 't_a').strategy?.map(s => s.chips)).toEqual([1, 1, 1]);
+    });
+});
+
+describe('OPEN_ROUND', () => {
+    it('goes straight to the showdown when both bets are equal', () => {
+        const room = play(createPlayingRoom(board([1, 2, 3], [3, 3, 3]), board([4, 2, 1], [3, 3, 3])), { type: 'OPEN_ROUND', matchId: 'm_1' });
+        expect(getMatch(room).roundStatus).toBe('SHOWDOWN');
+    });
+
+    it('lets the lower bettor decide', () => {
+        const room = play(createPlayingRoom(board([1, 2, 3], [2, 3, 4]), board([4, 2, 1], [5, 2, 2])), { type: 'OPEN_ROUND', matchId: 'm_1' });
+        expect(getMatch(room)).toMatchObject({ roundStatus: 'DECISION', turnOwner: 't_a' });
+    });
+});
+
+describe('FOLD', () => {
+    const opened = () => play(createPlayingRoom(board([4, 2, 3], [2, 3, 4]), board([1, 2, 3], [5, 2, 2])), { type: 'OPEN_ROUND', matchId: 'm_1' });
+
+    it('gives the opponent the whole pot, whatever the cards', () => {
+        const room = play(opened(), { type: 'FOLD', teamId: 't_a' });
+        expect(getTeam(room, 't_b').winnings).toBe(7);
+        expect(getTeam(room, 't_a').winnings).toBe(0);
+        expect(getMatch(room)).toMatchObject({ roundStatus: 'RESULT', lastAction: { teamId: 't_a', action: 'FOLD' } });
+        expect(getMatch(room).history[0]).toMatchObject({ result: 'A_FOLDED', potWon: 7 });
+    });
+
+    it('is only allowed to the team whose turn it is', () => {
+        const room = opened();
+        expect(applyGameAction(room, { type: 'FOLD', teamId: 't_b' })).toBe(room);
+    });
+
+    it('pays out the carry-over with the pot', () => {
+        const room = play(createPlayingRoom(board([4, 2, 3], [2, 3, 4]), board([1, 2, 3], [5, 2, 2]), { carryOver: 6 }), { type: 'OPEN_ROUND', matchId: 'm_1' }, { type: 'FOLD', teamId: 't_a' });
+        expect(getTeam(room, 't_b').winnings).toBe(13);
+        expect(getMatch(room)).toMatchObject({ pot: 0, carryOver: 0 });
+    });
+});
+
+describe('CALL', () => {
+    it('pays the difference from winnings', () => {
+        const start = createPlayingRoom(board([4, 2, 3], [2, 3, 4]), board([1, 2, 3], [5, 2, 2]));
+        const room = play({ ...start, teams: start.teams.map(t => t.id === 't_a' ? { ...t, winnings: 10 } : t) }, { type: 'OPEN_ROUND', matchId: 'm_1' }, { type: 'CALL', teamId: 't_a' });
+        expect(getTeam(room, 't_a')).toMatchObject({ winnings: 7 });
+        expect(getTeam(room, 't_a').strategy![0].chips).toBe(5);
+        expect(getMatch(room).roundStatus).toBe('SHOWDOWN');
+    });
+
+    it('takes a shortfall from future rounds, never below the minimum bet', () => {
+        const room = play(createPlayingRoom(board([4, 2, 3], [2, 3, 4]), board([1, 2, 3], [5, 2, 2])), { type: 'OPEN_ROUND', matchId: 'm_1' });
+        expect(getCallShortfall(room, 't_a')).toBe(3);
+        expect(planCallSteal(room, 't_a')).toEqual({ 3: 3 });
+        // Wrong total, below the minimum, or from the round being played
+        expect(applyGameAction(room, { type: 'CALL', teamId: 't_a', steal: { 3: 2 } })).toBe(room);
+        expect(applyGameAction(room, { type: 'CALL', teamId: 't_a', steal: { 2: 3 } })).toBe(room);
+        expect(applyGameAction(room, { type: 'CALL', teamId: 't_a', steal: { 1: 3 } })).toBe(room);
+
+        const called = applyGameAction(room, { type: 'CALL', teamId: 't_a', steal: { 2: 1, 3: 2 } });
+        expect(getTeam(called, 't_a').strategy!.map(s => s.chips)).toEqual([5, 2, 2]);
+        expect(getTeam(called, 't_a').winnings).toBe(0);
+    });
+
+    it('lets the caller win the matched pot at the showdown', () => {
+        const room = play(createPlayingRoom(board([4, 2, 3], [2, 3, 4]), board([1, 2, 3], [5, 2, 2])),
+            { type: 'OPEN_ROUND', matchId: 'm_1' }, { type: 'CALL', teamId: 't_a', steal: { 3: 3 } }, { type: 'SHOWDOWN', matchId: 'm_1' });
+        expect(getTeam(room, 't_a').winnings).toBe(10);
+        expect(getMatch(room)).toMatchObject({ teamAScore: 1, teamBScore: 0 });
+    });
+});
+
+describe('SHOWDOWN', () => {
+    it('gives the pot and the round to the higher card', () => {
+        const room = play(createPlayingRoom(board([1, 2, 3], [3, 3, 3]), board([4, 2, 1], [3, 3, 3])), { type: 'OPEN_ROUND', matchId: 'm_1' }, { type: 'SHOWDOWN', matchId: 'm_1' });
+        expect(getTeam(room, 't_b').winnings).toBe(6);
+        expect(getMatch(room)).toMatchObject({ teamAScore: 0, teamBScore: 1, roundStatus: 'RESULT', carryOver: 0 });
+        expect(getMatch(room).history[0]).toMatchObject({ result: 'B_WON', potWon: 6 });
+    });
+
+    it('carries a drawn pot into the next round', () => {
+        const drawn = play(createPlayingRoom(board([2, 1, 3], [3, 3, 3]), board([2, 3, 1], [3, 3, 3])),
+            { type: 'OPEN_ROUND', matchId: 'm_1' }, { type: 'SHOWDOWN', matchId: 'm_1' });
+        expect(getMatch(drawn)).toMatchObject({ carryOver: 6, teamAScore: 0, teamBScore: 0 });
+        expect(getMatch(drawn).history[0]).toMatchObject({ result: 'DRAW', potWon: 0 });
+
+        const next = play(drawn, ...confirmBoth);
+        expect(getMatch(next)).toMatchObject({ currentRound: 2, roundStatus: 'READY' });
+        expect(getCurrentPot(next, getMatch(next))).toBe(12);
+
+        const won = play(next, { type: 'OPEN_ROUND', matchId: 'm_1' }, { type: 'SHOWDOWN', matchId: 'm_1' });
+        expect(getTeam(won, 't_b').winnings).toBe(12);
+        expect(getMatch(won).carryOver).toBe(0);
+    });
+
+    it('splits a draw in the last round: own bets back, carry-over halved', () => {
+        const even = play(createPlayingRoom(board([1, 2, 3], [3, 3, 3]), board([4, 1, 3], [4, 2, 3]), { currentRound: 3, carryOver: 5 }),
+            { type: 'OPEN_ROUND', matchId: 'm_1' }, { type: 'SHOWDOWN', matchId: 'm_1' });
+        expect(getTeam(even, 't_a').winnings).toBe(5.5);
+        expect(getTeam(even, 't_b').winnings).toBe(5.5);
+        expect(getMatch(even).carryOver).toBe(0);
+    });
+});
+
+describe('CONFIRM_RESULT', () => {
+    const resolved = () => play(createPlayingRoom(board([1, 2, 3], [3, 3, 3]), board([4, 2, 1], [3, 3, 3])), { type: 'OPEN_ROUND', matchId: 'm_1' }, { type: 'SHOWDOWN', matchId: 'm_1' });
+
+    it('waits for both teams before the next round', () => {
+        const one = applyGameAction(resolved(), { type: 'CONFIRM_RESULT', teamId: 't_a' });
+        expect(getMatch(one)).toMatchObject({ roundStatus: 'RESULT', resultConfirmed: { t_a: true } });
+        expect(applyGameAction(one, { type: 'CONFIRM_RESULT', teamId: 't_a' })).toBe(one);
+        expect(getMatch(applyGameAction(one, { type: 'CONFIRM_RESULT', teamId: 't_b' }))).toMatchObject({ currentRound: 2, roundStatus: 'READY' });
+    });
+
+    it('finishes the match after the last round, by winnings', () => {
+        let room = resolved();
+        for (let round = 1; round < RULES.rounds; round++) {
+            room = play(room, ...confirmBoth, { type: 'OPEN_ROUND', matchId: 'm_1' }, { type: 'SHOWDOWN', matchId: 'm_1' });
+        }
+        room = play(room, ...confirmBoth);
+        // t_b won round 1 (6), round 2 was a draw carried into round 3, which t_a won (12)
+        expect(getMatch(room)).toMatchObject({ roundStatus: 'FINISHED', winnerId: 't_a', finalWinnings: { t_a: 12, t_b: 6 } });
+    });
+});
+
+describe('PAUSE_MATCH', () => {
+    it('holds every game action until the match is resumed', () => {
+        const paused = play(createPlayingRoom(board([1, 2, 3], [3, 3, 3]), board([4, 2, 1], [3, 3, 3])), { type: 'PAUSE_MATCH', matchId: 'm_1', paused: true });
+        expect(applyGameAction(paused, { type: 'OPEN_ROUND', matchId: 'm_1' })).toBe(paused);
+        const resumed = play(paused, { type: 'PAUSE_MATCH', matchId: 'm_1', paused: false }, { type: 'OPEN_ROUND', matchId: 'm_1' });
+        expect(getMatch(resumed).roundStatus).toBe('SHOWDOWN');
+    });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { redactRoomForTeam } from '../services/hiddenInfo';
+import { resolveGameAction } from '../services/gameFlow';
+import { GameAction, Room, HIDDEN_CARD } from '../types';
+import { board, createPlayingRoom, getTeam, getMatch } from './fixtures';
+
+const start = () => createPlayingRoom(board([1, 2, 3], [3, 3, 3]), board([4, 2, 1], [3, 3, 3]), {
+    events: [{ seq: 1, at: 1, action: { type: 'SUBMIT_STRATEGY', teamId: 't_b', strategy: board([4, 2, 1], [3, 3, 3]) } }]
+});
+
+const play = (room: Room, ...actions: GameAction[]): Room =>
+    actions.reduce((current, action, i) => resolveGameAction(current, action, { actorId: 'p_1', at: i + 2 }), room);
+
+const cards = (room: Room, teamId: string) => getTeam(room, teamId).strategy!.map(s => s.card);
+
+describe('redactRoomForTeam', () => {
+    it('shows a team its own board and only the colors of the opponent\'s', () => {
+        const view = redactRoomForTeam(start(), 't_a');
+        expect(cards(view, 't_a')).toEqual([1, 2, 3]);
+        expect(getTeam(view, 't_b').strategy).toEqual([
+            { round: 1, card: HIDDEN_CARD, chips: 3, color: 'BLACK' },
+            { round: 2, card: HIDDEN_CARD, chips: 3, color: 'BLACK' },
+            { round: 3, card: HIDDEN_CARD, chips: 3, color: 'WHITE' }
+        ]);
+    });
+
+    it('reveals a round once it is in the match history', () => {
+        const room = play(start(), { type: 'OPEN_ROUND', matchId: 'm_1' }, { type: 'SHOWDOWN', matchId: 'm_1' });
+        expect(cards(redactRoomForTeam(room, 't_a'), 't_b')).toEqual([4, HIDDEN_CARD, HIDDEN_CARD]);
+    });
+
+    it('reveals everything once the match is over', () => {
+        const finished = { ...start(), matches: [{ ...getMatch(start()), roundStatus: 'FINISHED' as const }] };
+        expect(cards(redactRoomForTeam(finished, 't_a'), 't_b')).toEqual([4, 2, 1]);
+    });
+
+    it('hides submitted boards in the match log as well', () => {
+        const strategy = (room: Room) => {
+            const action = getMatch(room).events![0].action;
+            return action.type === 'SUBMIT_STRATEGY' ? action.strategy.map(s => s.card) : [];
+        };
+        expect(strategy(redactRoomForTeam(start(), 't_a'))).toEqual([HIDDEN_CARD, HIDDEN_CARD, HIDDEN_CARD]);
+        expect(strategy(redactRoomForTeam(start(), 't_b'))).toEqual([4, 2, 1]);
+    });
+
+    it('only shows a team its own draft', () => {
+        const drafted = { ...start(), matches: [{ ...getMatch(start()), drafts: { t_a: board([1], [3]), t_b: board([4], [3]) } }] };
+        expect(getMatch(redactRoomForTeam(drafted, 't_a')).drafts).toEqual({ t_a: board([1], [3]) });
+        expect(getMatch(redactRoomForTeam(drafted, null)).drafts).toBeUndefined();
+    });
+
+    it('gives spectators no numbers at all', () => {
+        const view = redactRoomForTeam(start(), null);
+        expect(cards(view, 't_a')).toEqual([HIDDEN_CARD, HIDDEN_CARD, HIDDEN_CARD]);
+        expect(cards(view, 't_b')).toEqual([HIDDEN_CARD, HIDDEN_CARD, HIDDEN_CARD]);
+    });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Room } from '../types';
+import { RoomStore } from '../services/roomStore';
+import { createRoom } from './fixtures';
+
+// The browser bits the store uses, in memory. Node brings its own
+// BroadcastChannel, which like the browser's delivers to every other channel.
+const createStorage = () => {
+    const items = new Map<string, string>();
+    return {
+        getItem: (key: string) => items.get(key) ?? null,
+        setItem: (key: string, value: string) => { items.set(key, value); }
+    };
+};
+
+// Each tab loads the module on its own, so it gets its own tab id
+const openTab = async (): Promise<RoomStore> => {
+    vi.resetModules();
+    return (await import('../services/localStore')).createLocalStore();
+};
+
+// What a tab's room subscription has been handed, in order
+const watchRoom = (store: RoomStore) => {
+    const seen: (Room | null)[] = [];
+    store.subscribeToRoom('r_test', room => seen.push(room));
+    return seen;
+};
+
+const storageEvent = (key: string, newValue: string | null) => Object.assign(new Event('storage'), { key, newValue });
+
+const lastChange = () => localStorage.getItem('swot_game_rooms_change')!;
+
+beforeEach(() => {
+    vi.stubGlobal('localStorage', createStorage());
+    vi.stubGlobal('window', new EventTarget());
+    vi.stubGlobal('document', Object.assign(new EventTarget(), { visibilityState: 'visible' }));
+});
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+});
+
+describe('createLocalStore', () => {
+    it('shows another tab\'s change once, however many ways it arrives', async () => {
+        const tabA = await openTab();
+        const tabB = await openTab();
+        const seenA = watchRoom(tabA);
+        const seenB = watchRoom(tabB);
+
+        await tabA.save(createRoom({ name: 'Renamed' }));
+        await vi.waitFor(() => expect(seenB).toHaveLength(2));
+        expect(seenB[1]!.name).toBe('Renamed');
+
+        // The storage event and a tab coming back into view bring the same change again
+        window.dispatchEvent(storageEvent('swot_game_rooms_change', lastChange()));
+        document.dispatchEvent(new Event('visibilitychange'));
+        await new Promise(resolve => setTimeout(resolve, 20));
+        expect(seenA).toHaveLength(2);
+        expect(seenB).toHaveLength(2);
+    });
+
+    it('drops changes older than the one it has shown', async () => {
+        const tab = await openTab();
+        await tab.save(createRoom());
+        await tab.save(createRoom({ name: 'Second' }));
+        const seen = watchRoom(tab);
+        window.dispatchEvent(storageEvent('swot_game_rooms_change', JSON.stringify({ seq: 1, id: 'other:1' })));
+        expect(seen).toHaveLength(1);
+    });
+
+    it('reads the rooms again when two tabs wrote the same change number', async () => {
+        const tab = await openTab();
+        await tab.save(createRoom());
+        const seen = watchRoom(tab);
+        const { seq } = JSON.parse(lastChange());
+        window.dispatchEvent(storageEvent('swot_game_rooms_change', JSON.stringify({ seq, id: `other:${seq}` })));
+        expect(seen).toHaveLength(2);
+        expect(seen[1]!.id).toBe('r_test');
+    });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { replayMatch, getRollbackRounds, rollbackMatch, hasFullLog } from '../services/matchLog';
+import { resolveGameAction } from '../services/gameFlow';
+import { GameAction, Room } from '../types';
+import { board, createPlayingRoom, getTeam, getMatch } from './fixtures';
+
+// Round 1: B wins 4 over 1; round 2: a draw (2 against 2) carries the pot; round 3: A wins 3 over 1
+const start = () => createPlayingRoom(board([1, 2, 3], [3, 3, 3]), board([4, 2, 1], [3, 3, 3]));
+
+const ADMIN = { actorId: 'u_owner', at: 99 };
+
+const play = (room: Room, ...actions: GameAction[]): Room =>
+    actions.reduce((current, action, i) => resolveGameAction(current, action, { actorId: 'p_1', at: i + 1 }), room);
+
+const playRound = (room: Room): Room => play(room,
+    { type: 'OPEN_ROUND', matchId: 'm_1' },
+    { type: 'SHOWDOWN', matchId: 'm_1' },
+    { type: 'CONFIRM_RESULT', teamId: 't_a' },
+    { type: 'CONFIRM_RESULT', teamId: 't_b' });
+
+describe('replayMatch', () => {
+    it('needs a log that covers the whole match', () => {
+        expect(replayMatch(start(), 'm_1')).toBeNull();
+        expect(hasFullLog(getMatch(playRound(start())))).toBe(true);
+    });
+
+    it('derives the snapshot fields again from the events alone', () => {
+        const room = playRound(playRound(start()));
+        const frames = replayMatch(room, 'm_1')!;
+        expect(frames).toHaveLength(getMatch(room).events!.length + 1);
+        expect(frames[0].room.matches[0]).toMatchObject({ currentRound: 1, history: [], carryOver: 0 });
+        const replayed = frames[frames.length - 1].room;
+        const { currentRound, roundStatus, carryOver, history, teamAScore, teamBScore } = getMatch(room);
+        expect(replayed.matches[0]).toMatchObject({ currentRound, roundStatus, carryOver, history, teamAScore, teamBScore });
+        expect(getTeam(replayed, 't_b').winnings).toBe(getTeam(room, 't_b').winnings);
+    });
+});
+
+describe('getRollbackRounds', () => {
+    it('offers every round opened so far while the match is played', () => {
+        const room = play(playRound(start()), { type: 'OPEN_ROUND', matchId: 'm_1' });
+        expect(getRollbackRounds(room, getMatch(room))).toEqual([1, 2]);
+        expect(getRollbackRounds({ ...room, status: 'FINISHED' }, getMatch(room))).toEqual([]);
+        expect(getRollbackRounds(start(), getMatch(start()))).toEqual([]);
+    });
+});
+
+describe('rollbackMatch', () => {
+    it('puts the match, winnings and carry-over back to the start of a round', () => {
+        const afterRound1 = playRound(start());
+        const room = playRound(afterRound1);
+        expect(getMatch(room).carryOver).toBeGreaterThan(0);
+
+        const rolled = rollbackMatch(room, 'm_1', 2, ADMIN);
+        expect(getMatch(rolled)).toMatchObject({ currentRound: 2, roundStatus: 'READY', carryOver: getMatch(afterRound1).carryOver });
+        expect(getMatch(rolled).history).toEqual(getMatch(afterRound1).history);
+        expect(getTeam(rolled, 't_a').winnings).toBe(getTeam(afterRound1, 't_a').winnings);
+        expect(getTeam(rolled, 't_b').winnings).toBe(getTeam(afterRound1, 't_b').winnings);
+
+        // Back to the very start takes B's round 1 pot away again
+        expect(getTeam(room, 't_b').winnings).toBeGreaterThan(0);
+        const restarted = rollbackMatch(room, 'm_1', 1, ADMIN);
+        expect(getMatch(restarted)).toMatchObject({ currentRound: 1, roundStatus: 'READY', carryOver: 0, history: [] });
+        expect(getTeam(restarted, 't_b').winnings).toBe(0);
+    });
+
+    it('keeps the undone events in the audit log and replays to the same state', () => {
+        const room = playRound(playRound(start()));
+        const rolled = rollbackMatch(room, 'm_1', 2, ADMIN);
+        const match = getMatch(rolled);
+        const undone = getMatch(room).events!.slice(match.events!.length);
+        expect(undone[0].action).toEqual({ type: 'OPEN_ROUND', matchId: 'm_1' });
+        expect(match.rollbacks).toEqual([{ ...ADMIN, toRound: 2, undone }]);
+
+        const replayed = replayMatch(rolled, 'm_1')!;
+        expect(replayed[replayed.length - 1].room.matches[0]).toMatchObject({ currentRound: 2, roundStatus: 'READY', history: match.history });
+    });
+
+    it('leaves the room alone for a round that was not opened', () => {
+        const room = playRound(start());
+        expect(rollbackMatch(room, 'm_1', 3, ADMIN)).toBe(room);
+        expect(rollbackMatch(room, 'm_missing', 1, ADMIN)).toBe(room);
+    });
+});
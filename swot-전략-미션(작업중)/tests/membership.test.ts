@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { canAct, redactMembership, withJoinedMembers, HIDDEN_PLAYER, HIDDEN_PIN } from '../services/membership';
+import { board, createPlayingRoom, createTeam, getTeam, getMatch } from './fixtures';
+
+const room = () => {
+    const base = createPlayingRoom(board([1, 2, 3], [3, 3, 3]), board([4, 2, 1], [3, 3, 3]), {
+        events: [
+            { seq: 1, at: 1, actorId: 'p_a', action: { type: 'CONFIRM_RESULT', teamId: 't_a' } },
+            { seq: 2, at: 2, actorId: 'p_b', action: { type: 'CONFIRM_RESULT', teamId: 't_b' } }
+        ]
+    });
+    return {
+        ...base,
+        pin: '123456',
+        teams: [
+            createTeam('t_a', { ...getTeam(base, 't_a'), joinCode: 'AAAAAA', players: { p_a: 'Kim' } }),
+            createTeam('t_b', { ...getTeam(base, 't_b'), joinCode: 'BBBBBB', players: { p_b: 'Lee' } })
+        ]
+    };
+};
+
+describe('redactMembership', () => {
+    it('only sends a team its own players and join code', () => {
+        const view = redactMembership(room(), 't_a', false);
+        expect(getTeam(view, 't_a')).toMatchObject({ joinCode: 'AAAAAA', players: { p_a: 'Kim' } });
+        expect(getTeam(view, 't_b').players).toBeUndefined();
+        expect(getTeam(view, 't_b').joinCode).toBeUndefined();
+        expect(view.pin).toBe(HIDDEN_PIN);
+    });
+
+    it('hides other teams\' player ids in the match log', () => {
+        const view = redactMembership(room(), 't_a', false);
+        expect(getMatch(view).events!.map(e => e.actorId)).toEqual(['p_a', HIDDEN_PLAYER]);
+        const spectator = redactMembership(room(), null, false);
+        expect(getMatch(spectator).events!.map(e => e.actorId)).toEqual([HIDDEN_PLAYER, HIDDEN_PLAYER]);
+    });
+
+    it('gives the owner everything', () => {
+        const full = room();
+        expect(redactMembership(full, null, true)).toBe(full);
+    });
+});
+
+describe('canAct', () => {
+    const owned = () => ({ ...room(), ownerId: 'u_owner' });
+
+    it('lets players act for their own team only', () => {
+        expect(canAct(owned(), { type: 'FOLD', teamId: 't_a' }, 'p_a')).toBe(true);
+        expect(canAct(owned(), { type: 'FOLD', teamId: 't_a' }, 'p_b')).toBe(false);
+        expect(canAct(owned(), { type: 'SHOWDOWN', matchId: 'm_1' }, 'p_b')).toBe(true);
+    });
+
+    it('keeps forced boards and pauses to the owner', () => {
+        const forced = { type: 'SUBMIT_STRATEGY' as const, teamId: 't_a', strategy: board([1, 1, 1], [9, 9, 9]), force: true };
+        expect(canAct(owned(), forced, 'p_a')).toBe(false);
+        expect(canAct(owned(), { ...forced, force: false }, 'p_a')).toBe(true);
+        expect(canAct(owned(), forced, 'u_owner')).toBe(true);
+        expect(canAct(owned(), { type: 'PAUSE_MATCH', matchId: 'm_1', paused: true }, 'p_a')).toBe(false);
+    });
+});
+
+describe('withJoinedMembers', () => {
+    it('adds the names of players who joined outside the room', () => {
+        const joined = { ...room(), teams: [createTeam('t_a', { players: { p_a: 'Kim', p_c: 'Park' }, members: ['Kim'] }), createTeam('t_b', { bot: 'RANDOM', players: { p_b: 'Lee' } })] };
+        const next = withJoinedMembers(joined);
+        expect(getTeam(next, 't_a').members).toEqual(['Kim', 'Park']);
+        expect(getTeam(next, 't_b').members).toEqual([]);
+        expect(withJoinedMembers(next)).toBe(next);
+    });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { getOpponentCandidates, estimateRoundOdds, getRoundOdds, getCallValue, getCallEdge } from '../services/odds';
+import { redactRoomForTeam } from '../services/hiddenInfo';
+import { board, createPlayingRoom } from './fixtures';
+
+// Round 1: A holds 3 against B's 4, which A only sees as a black card
+const start = () => createPlayingRoom(board([3, 1, 2], [3, 3, 3]), board([4, 1, 2], [5, 2, 2]));
+
+describe('getRoundOdds', () => {
+    it('splits equally likely opponent cards into wins, draws and losses', () => {
+        expect(getRoundOdds(3, [1, 2, 3, 4])).toEqual({ win: 0.5, draw: 0.25, lose: 0.25, candidates: [1, 2, 3, 4] });
+    });
+
+    it('has no odds without a card or candidates', () => {
+        expect(getRoundOdds(-1, [1, 2])).toBeNull();
+        expect(getRoundOdds(3, [])).toBeNull();
+    });
+});
+
+describe('getOpponentCandidates', () => {
+    it('keeps the deck cards of the visible color the opponent has not played', () => {
+        expect(getOpponentCandidates(redactRoomForTeam(start(), 't_a'), 't_a')).toEqual([2, 4]);
+        const later = createPlayingRoom(board([3, 1, 2], [3, 3, 3]), board([4, 1, 2], [5, 2, 2]), {
+            currentRound: 3,
+            history: [{ round: 1, teamACard: 3, teamBCard: 4, teamAChips: 3, teamBChips: 5, result: 'B_FOLDED', potWon: 8 }]
+        });
+        expect(getOpponentCandidates(redactRoomForTeam(later, 't_a'), 't_a')).toEqual([2]);
+    });
+
+    it('gives the same answer whether or not the opponent\'s numbers are hidden', () => {
+        expect(estimateRoundOdds(redactRoomForTeam(start(), 't_a'), 't_a')).toEqual(estimateRoundOdds(start(), 't_a'));
+    });
+});
+
+describe('getCallEdge', () => {
+    it('weighs calling at the opponent\'s bet against giving up our own', () => {
+        const odds = getRoundOdds(3, [2, 4])!;
+        expect(getCallValue(odds, 5, 2)).toBe(0.5 * 7 - 0.5 * 5);
+        expect(getCallEdge(odds, 3, 5, 2)).toBe(1 + 3);
+    });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { parseRoom, parseRooms, CURRENT_SCHEMA_VERSION } from '../services/schema';
+import { DEFAULT_RULE_SET } from '../types';
+import { RULES, createRoom, createPairedMatch, createTeam } from './fixtures';
+
+// A room as the first release saved it: no schemaVersion or rule set, the
+// winnings on the teams, inline images, and Firebase's keyed lists
+const firstRelease = () => ({
+    id: 'r_old',
+    name: 'Old room',
+    totalTeams: 2,
+    currentRound: 1,
+    status: 'FINISHED',
+    teams: {
+        0: { id: 't_a', name: 'A', roomId: 'r_old', isReady: true, score: 2, winnings: 14 },
+        1: { id: 't_b', name: 'B', roomId: 'r_old', isReady: true, score: 1, winnings: 4 }
+    },
+    matches: [{ id: 'm_1', teamAId: 't_a', teamBId: 't_b', teamAScore: 2, teamBScore: 1, currentRound: 10, roundStatus: 'FINISHED', pot: 0, carryOver: 0 }],
+    winnerPosterUrl: 'data:image/png;base64,AAAA',
+    winnerPhotoUrls: ['data:image/png;base64,BBBB', 42]
+});
+
+beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+describe('parseRoom', () => {
+    it('migrates a first-release room to the current version', () => {
+        const room = parseRoom(firstRelease())!;
+        expect(room.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+        expect(room.rules).toEqual(DEFAULT_RULE_SET);
+        expect(room.teams.map(t => t.id)).toEqual(['t_a', 't_b']);
+        expect(room.teams[0].members).toEqual([]);
+        expect(room.matches[0]).toMatchObject({ winnerId: 't_a', finalWinnings: { t_a: 14, t_b: 4 }, history: [], aiHelps: {} });
+        expect(room.winnerPoster).toEqual({ url: 'data:image/png;base64,AAAA' });
+        expect(room.winnerPhotos).toEqual([{ url: 'data:image/png;base64,BBBB' }]);
+        expect(room).not.toHaveProperty('winnerPosterUrl');
+    });
+
+    it('treats a room saved without a version as version 1', () => {
+        expect(parseRoom({ ...firstRelease(), schemaVersion: 1 })).toEqual(parseRoom(firstRelease()));
+    });
+
+    it('keeps a room saved with the rule set it was played with', () => {
+        expect(parseRoom({ ...firstRelease(), rules: RULES })!.rules).toEqual(RULES);
+    });
+
+    it('reads a current room back unchanged', () => {
+        const room = createRoom({
+            schemaVersion: CURRENT_SCHEMA_VERSION,
+            teams: [createTeam('t_a', { strategy: [] }), createTeam('t_b', { strategy: [] })],
+            matches: [createPairedMatch({ aiAdvice: {}, resultConfirmed: {} })]
+        });
+        expect(parseRoom(JSON.parse(JSON.stringify(room)))).toEqual({ ...room, showOdds: false });
+    });
+
+    it('skips data that still does not fit after migrating', () => {
+        expect(parseRoom('r_old')).toBeNull();
+        expect(parseRoom({ ...firstRelease(), status: 'LOST' })).toBeNull();
+        expect(parseRooms([firstRelease(), { id: 'r_bad' }, createRoom({ teams: [createTeam('t_a')] })]).map(r => r.id)).toEqual(['r_old', 'r_test']);
+    });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { STRATEGY_PRESETS, applyStrategyPreset, completeStrategy } from '../services/strategyPresets';
+import { createEmptyStrategy, validateStrategy } from '../services/gameEngine';
+import { RuleSet, RoundStrategy } from '../types';
+import { RULES, RULE_SETS, board, seededRandom } from './fixtures';
+
+// The first round taken with the lowest card and the whole budget on it
+const overBudget = (rules: RuleSet): RoundStrategy[] =>
+    createEmptyStrategy(rules).map((s, i) => i === 0 ? { ...s, card: Math.min(...rules.deck), chips: rules.chips } : s);
+
+describe('applyStrategyPreset', () => {
+    it('gives a legal board for every preset under every rule set', () => {
+        for (const rules of RULE_SETS) {
+            const placed = completeStrategy([], rules);
+            for (const { id } of STRATEGY_PRESETS) {
+                for (let seed = 1; seed <= 10; seed++) {
+                    expect(validateStrategy(applyStrategyPreset(id, placed, rules, seededRandom(seed)), rules)).toBeNull();
+                }
+            }
+        }
+    });
+
+    it('only moves the chips when spreading them evenly', () => {
+        const placed = board([2, 4, 1], [7, 1, 1]);
+        expect(applyStrategyPreset('EVEN_CHIPS', placed, RULES)).toEqual(board([2, 4, 1], [3, 3, 3]));
+    });
+});
+
+describe('completeStrategy', () => {
+    it('gives a legal board from an empty, partial or over-budget one under every rule set', () => {
+        for (const rules of RULE_SETS) {
+            for (const strategy of [[], createEmptyStrategy(rules), overBudget(rules)]) {
+                expect(validateStrategy(completeStrategy(strategy, rules), rules)).toBeNull();
+            }
+        }
+    });
+
+    it('keeps the cards already placed and fills the rest with the strongest ones left', () => {
+        const partial = [{ round: 1, card: -1, chips: 0 }, { round: 2, card: 4, chips: 2 }, { round: 3, card: -1, chips: 0 }];
+        expect(completeStrategy(partial, RULES)).toEqual(board([2, 4, 3], [2, 4, 3]));
+    });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { syncDeadlines, getTimeoutActions } from '../services/timers';
+import { resolveTimeouts } from '../services/gameFlow';
+import { TIMER_ACTOR } from '../services/matchLog';
+import { applyGameAction, validateStrategy } from '../services/gameEngine';
+import { GameAction, Room } from '../types';
+import { RULES, board, createRoom, createPairedMatch, createPlayingRoom, getTeam, getMatch } from './fixtures';
+
+const TIMED_RULES = { ...RULES, timers: { preparation: 60, decision: 30, result: 10 } };
+const NOW = 1_000_000;
+
+const play = (room: Room, ...actions: GameAction[]): Room => actions.reduce(applyGameAction, room);
+
+// Paired, nobody has submitted yet
+const preparing = (): Room => createRoom({ rules: TIMED_RULES, matches: [createPairedMatch()] });
+
+// A bets less in round 1, so A has to fold or call
+const deciding = (): Room => play(
+    createPlayingRoom(board([4, 2, 3], [2, 3, 4]), board([1, 2, 3], [5, 2, 2]), {}, TIMED_RULES),
+    { type: 'OPEN_ROUND', matchId: 'm_1' });
+
+describe('syncDeadlines', () => {
+    it('starts the clock of the phase a match is in', () => {
+        expect(getMatch(syncDeadlines(preparing(), NOW)).deadline).toEqual({ phase: 'PREPARATION', round: 1, endsAt: NOW + 60_000 });
+        expect(getMatch(syncDeadlines(deciding(), NOW)).deadline).toEqual({ phase: 'DECISION', round: 1, endsAt: NOW + 30_000 });
+    });
+
+    it('leaves rooms without timers alone', () => {
+        const room = { ...preparing(), rules: RULES };
+        expect(syncDeadlines(room, NOW)).toBe(room);
+    });
+
+    it('holds the clock while paused and resumes with the time left', () => {
+        const running = syncDeadlines(deciding(), NOW);
+        const paused = syncDeadlines(play(running, { type: 'PAUSE_MATCH', matchId: 'm_1', paused: true }), NOW + 10_000);
+        expect(getMatch(paused).deadline).toMatchObject({ remainingMs: 20_000 });
+        const resumed = syncDeadlines(play(paused, { type: 'PAUSE_MATCH', matchId: 'm_1', paused: false }), NOW + 50_000);
+        expect(getMatch(resumed).deadline).toEqual({ phase: 'DECISION', round: 1, endsAt: NOW + 70_000 });
+    });
+});
+
+describe('getTimeoutActions', () => {
+    it('completes the draft of every team that did not submit', () => {
+        // A placed its 1 in round 2 and bet 5 on it; B has no draft at all
+        const draft = [{ round: 1, card: -1, chips: 0 }, { round: 2, card: 1, chips: 5 }, { round: 3, card: -1, chips: 0 }];
+        const room = syncDeadlines({ ...preparing(), matches: [createPairedMatch({ drafts: { t_a: draft } })] }, NOW);
+        expect(getTimeoutActions(room, NOW + 59_999)).toEqual([]);
+        const actions = getTimeoutActions(room, NOW + 60_000, () => 0.5) as Extract<GameAction, { type: 'SUBMIT_STRATEGY' }>[];
+        expect(actions.map(a => [a.type, a.teamId])).toEqual([['SUBMIT_STRATEGY', 't_a'], ['SUBMIT_STRATEGY', 't_b']]);
+        actions.forEach(a => expect(validateStrategy(a.strategy, RULES)).toBeNull());
+        expect(actions[0].strategy[1].card).toBe(1);
+        expect(actions[0].strategy[1].chips).toBeGreaterThanOrEqual(5);
+    });
+
+    it('deals a cautious board when the draft cannot be made legal', () => {
+        const draft = board([2, 2, 2], [3, 3, 3]);
+        const room = syncDeadlines({ ...preparing(), matches: [createPairedMatch({ drafts: { t_a: draft } })] }, NOW);
+        const [action] = getTimeoutActions(room, NOW + 60_000, () => 0.5) as Extract<GameAction, { type: 'SUBMIT_STRATEGY' }>[];
+        expect(validateStrategy(action.strategy, RULES)).toBeNull();
+    });
+
+    it('folds for the team that has to decide', () => {
+        expect(getTimeoutActions(syncDeadlines(deciding(), NOW), NOW + 30_000)).toEqual([{ type: 'FOLD', teamId: 't_a' }]);
+    });
+
+    it('confirms the result for the teams that have not', () => {
+        const folded = play(deciding(), { type: 'FOLD', teamId: 't_a' }, { type: 'CONFIRM_RESULT', teamId: 't_a' });
+        expect(getTimeoutActions(syncDeadlines(folded, NOW), NOW + 10_000)).toEqual([{ type: 'CONFIRM_RESULT', teamId: 't_b' }]);
+    });
+
+    it('waits while the match is paused', () => {
+        const paused = play(syncDeadlines(deciding(), NOW), { type: 'PAUSE_MATCH', matchId: 'm_1', paused: true });
+        expect(getTimeoutActions(syncDeadlines(paused, NOW), NOW + 60_000)).toEqual([]);
+    });
+});
+
+describe('resolveTimeouts', () => {
+    it('applies the default action and logs it as the timer\'s', () => {
+        const room = syncDeadlines(deciding(), NOW);
+        expect(resolveTimeouts(room, NOW + 29_999)).toBe(room);
+        const resolved = resolveTimeouts(room, NOW + 30_000);
+        expect(getMatch(resolved)).toMatchObject({ roundStatus: 'RESULT', lastAction: { teamId: 't_a', action: 'FOLD' } });
+        expect(getMatch(resolved).events!.at(-1)).toMatchObject({ actorId: TIMER_ACTOR, action: { type: 'FOLD', teamId: 't_a' } });
+        // The result phase gets its own clock
+        expect(getMatch(resolved).deadline).toMatchObject({ phase: 'RESULT', endsAt: NOW + 40_000 });
+        expect(getTeam(resolved, 't_b').winnings).toBeGreaterThan(0);
+    });
+});
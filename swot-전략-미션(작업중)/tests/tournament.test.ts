@@ -0,0 +1,165 @@
+import { describe, it, expect } from 'vitest';
+import { assignByes, createMatch, createByeMatch, startTournament, advanceTournament, getCycleMatches, getCurrentCycle, isEliminated, roundRobinSchedule } from '../services/tournament';
+import { getStandings, hasPlayed } from '../services/standings';
+import { getTotalWinnings } from '../services/gameEngine';
+import { Match, Room, TournamentFormat } from '../types';
+import { RULES, createRoom, createTeam, getTeam } from './fixtures';
+
+const createTeams = (count: number) => Array.from({ length: count }, (_, i) => createTeam(`t_${i + 1}`));
+
+const startPlaying = (format: TournamentFormat, teamCount: number): Room => ({
+    ...startTournament(createRoom({ teams: createTeams(teamCount), totalTeams: teamCount }), format),
+    status: 'PLAYING'
+});
+
+// Finishes every match of the current cycle (winner: `pick`, team A by default) and advances
+const finishCycle = (room: Room, pick: (m: Match) => string = m => m.teamAId): Room => {
+    const cycle = getCurrentCycle(room);
+    const matches = room.matches.map(m => m.cycle !== cycle || m.roundStatus === 'FINISHED' ? m : {
+        ...m,
+        roundStatus: 'FINISHED' as const,
+        winnerId: pick(m),
+        finalWinnings: { [m.teamAId]: pick(m) === m.teamAId ? 12 : 6, [m.teamBId]: pick(m) === m.teamBId ? 12 : 6 }
+    });
+    return advanceTournament({ ...room, status: 'PLAYING', matches });
+};
+
+const byeTeams = (room: Room, cycle = getCurrentCycle(room)): string[] =>
+    getCycleMatches(room, cycle).filter(m => m.isBye).map(m => m.teamAId);
+
+describe('byes', () => {
+    it('are born finished and credit the bye chips', () => {
+        expect(createByeMatch('t_a', 0, 7, { id: 'm_bye' })).toMatchObject({
+            id: 'm_bye', teamAId: 't_a', teamBId: '', isBye: true, roundStatus: 'FINISHED', winnerId: 't_a', finalWinnings: { t_a: 7 }
+        });
+    });
+
+    it('go to a team left without an opponent when a manual pairing starts', () => {
+        const matches = assignByes([createMatch('t_a', 't_b', 0, { id: 'm_1' }), createMatch('', 't_c', 1, { id: 'm_2' }), createMatch('', '', 2)], 5);
+        expect(matches).toHaveLength(2);
+        expect(matches[0].isBye).toBeUndefined();
+        expect(matches[1]).toMatchObject({ id: 'm_2', teamAId: 't_c', isBye: true, finalWinnings: { t_c: 5 } });
+    });
+
+    it('count towards a team\'s total next to the match it is playing', () => {
+        const room = createRoom({
+            teams: [createTeam('t_a', { winnings: 4 }), createTeam('t_b')],
+            matches: [createByeMatch('t_a', 0, RULES.chips, { cycle: 1 }), createMatch('t_a', 't_b', 0, { cycle: 2 })]
+        });
+        expect(getTotalWinnings(room, 't_a')).toBe(4 + RULES.chips);
+    });
+
+    it('let a team through a knockout cycle without a loss, never twice in a row', () => {
+        let room = startPlaying('SINGLE_ELIMINATION', 5);
+        expect(getCycleMatches(room)).toHaveLength(3);
+        const [firstBye] = byeTeams(room);
+        expect(firstBye).toBeDefined();
+
+        room = finishCycle(room);
+        expect(getCurrentCycle(room)).toBe(2);
+        expect(isEliminated(room, firstBye)).toBe(false);
+        expect(room.teams.filter(t => !isEliminated(room, t.id))).toHaveLength(3);
+        expect(byeTeams(room)).toHaveLength(1);
+        expect(byeTeams(room)[0]).not.toBe(firstBye);
+    });
+});
+
+describe('single elimination', () => {
+    it('plays down to one champion', () => {
+        let room = startPlaying('SINGLE_ELIMINATION', 4);
+        room = finishCycle(room);
+        expect(getCycleMatches(room)).toHaveLength(1);
+        expect(room.status).toBe('PREPARING');
+        room = finishCycle(room);
+        const champion = room.tournament!.championId!;
+        expect(champion).toBeDefined();
+        expect(room.teams.filter(t => !isEliminated(room, t.id)).map(t => t.id)).toEqual([champion]);
+    });
+
+    it('starts the teams of a new cycle over with no board and no winnings', () => {
+        const room = finishCycle(startPlaying('SINGLE_ELIMINATION', 4));
+        const next = getCycleMatches(room)[0];
+        expect(getTeam(room, next.teamAId)).toMatchObject({ isReady: false, strategy: undefined, winnings: 0 });
+    });
+});
+
+describe('double elimination', () => {
+    it('sends first-time losers to the losers\' bracket and out on a second loss', () => {
+        let room = finishCycle(startPlaying('DOUBLE_ELIMINATION', 4));
+        const losers = Object.keys(room.tournament!.losses);
+        expect(losers).toHaveLength(2);
+        expect(losers.every(id => !isEliminated(room, id))).toBe(true);
+        expect(getCycleMatches(room).map(m => m.bracket).sort()).toEqual(['LOSERS', 'WINNERS']);
+
+        const losersMatch = getCycleMatches(room).find(m => m.bracket === 'LOSERS')!;
+        room = finishCycle(room);
+        expect(isEliminated(room, losersMatch.teamBId)).toBe(true);
+        expect(isEliminated(room, losersMatch.teamAId)).toBe(false);
+    });
+
+    it('ends with a grand final between the unbeaten team and the losers\' bracket winner', () => {
+        let room = startPlaying('DOUBLE_ELIMINATION', 4);
+        while (!room.tournament!.championId && getCurrentCycle(room) < 10) {
+            const cycle = getCycleMatches(room);
+            if (cycle.length === 1 && !cycle[0].isBye) {
+                const final = cycle[0];
+                expect(room.tournament!.losses[final.teamAId] || 0).toBe(0);
+                expect(room.tournament!.losses[final.teamBId]).toBe(1);
+            }
+            room = finishCycle(room);
+        }
+        expect(room.tournament!.championId).toBeDefined();
+        expect(room.teams.filter(t => !isEliminated(room, t.id))).toHaveLength(1);
+    });
+});
+
+describe('round robin', () => {
+    it('pairs every team with every other team once, one bye each with an odd count', () => {
+        const schedule = roundRobinSchedule(['a', 'b', 'c', 'd', 'e']);
+        expect(schedule).toHaveLength(5);
+        const pairs = schedule.flat().filter(([, b]) => b).map(([a, b]) => [a, b].sort().join('-'));
+        expect(new Set(pairs).size).toBe(10);
+        expect(schedule.flat().filter(([, b]) => !b).map(([a]) => a).sort()).toEqual(['a', 'b', 'c', 'd', 'e']);
+    });
+
+    it('crowns the table leader after the last cycle', () => {
+        let room = startPlaying('ROUND_ROBIN', 4);
+        expect(room.tournament!.totalCycles).toBe(3);
+        for (let cycle = 1; cycle <= 3; cycle++) room = finishCycle(room);
+        expect(room.tournament!.championId).toBe(getStandings(room)[0].teamId);
+        expect(getCurrentCycle(room)).toBe(3);
+    });
+});
+
+describe('Swiss', () => {
+    it('pairs teams on the same score without rematches', () => {
+        let room = startPlaying('SWISS', 8);
+        expect(room.tournament!.totalCycles).toBe(3);
+        const firstCycle = getCycleMatches(room);
+        room = finishCycle(room);
+
+        const winners = new Set(firstCycle.map(m => m.teamAId));
+        const second = getCycleMatches(room);
+        expect(second).toHaveLength(4);
+        second.forEach(m => {
+            expect(winners.has(m.teamAId)).toBe(winners.has(m.teamBId));
+            expect(firstCycle.some(f => hasPlayed({ ...room, matches: [f] }, m.teamAId, m.teamBId))).toBe(false);
+        });
+    });
+
+    it('ranks by match points, then rounds won, then chip differential', () => {
+        const finished = (a: string, b: string, winnerId: string | undefined, scores: [number, number], chips: [number, number]): Match => ({
+            ...createMatch(a, b, 0), roundStatus: 'FINISHED', winnerId, teamAScore: scores[0], teamBScore: scores[1], finalWinnings: { [a]: chips[0], [b]: chips[1] }
+        });
+        const room = createRoom({
+            teams: createTeams(4),
+            matches: [
+                finished('t_1', 't_2', 't_1', [2, 1], [12, 6]),
+                finished('t_3', 't_4', 't_3', [3, 0], [10, 8]),
+                finished('t_2', 't_4', undefined, [1, 1], [9, 9])
+            ]
+        });
+        expect(getStandings(room).map(s => s.teamId)).toEqual(['t_3', 't_1', 't_2', 't_4']);
+        expect(getStandings(room)[2]).toMatchObject({ points: 1, draws: 1, losses: 1, chipDiff: -6 });
+    });
+});
@@ -9,12 +9,20 @@ export interface Team {
   winnings: number; // Secured chips from wins
   strategy?: RoundStrategy[]; // Array of 10 rounds
   members: string[]; // List of user names joined
+  bot?: BotLevel; // Played by the computer (services/bots.ts)
+  joinCode?: string; // Entered (or scanned) with the room PIN to join this team
+  players?: Record<string, string>; // playerId -> name of everyone who joined (services/membership.ts)
 }
 
+export type BotLevel = 'RANDOM' | 'CONSERVATIVE' | 'BLUFFER' | 'OPTIMAL';
+
+export type CardColor = 'BLACK' | 'WHITE'; // Even cards are black, odd cards are white
+
 export interface RoundStrategy {
   round: number;
-  card: number; // 0-9
+  card: number; // 0-9, -1 = empty slot, HIDDEN_CARD = opponent card not revealed yet
   chips: number; // Chips wagered/allocated
+  color?: CardColor; // Only set on hidden cards (the color is public information)
 }
 
 export type RoundResult = 'A_WON' | 'B_WON' | 'DRAW' | 'A_FOLDED' | 'B_FOLDED';
@@ -32,6 +40,8 @@ export interface Match {
   turnOwner?: string; // Team ID who needs to make a decision (Fold/Call)
   pot: number; // Current chips in the pot for this round
   carryOver: number; // Chips carried over from previous draws
+  paused?: boolean; // Held by the admin: no game action applies until resumed
+  deadline?: PhaseDeadline; // Clock of the phase being played (services/timers.ts; missing = no clock)
 
   // Round result confirmation
   lastAction?: { teamId: string; action: 'FOLD' | 'CALL' }; // Track last action for notification
@@ -41,10 +51,47 @@ export interface Match {
   history: RoundHistory[];
   aiHelps: Record<string, number>; // teamId -> count used
   aiAdvice?: Record<string, string>; // teamId -> active advice text (for syncing)
+  drafts?: Record<string, RoundStrategy[]>; // teamId -> board not submitted yet, completed when preparation times out
+
+  winnerId?: string; // Set when the match finishes (undefined on an exact tie)
+  isBye?: boolean; // Odd team out: teamBId is empty, the match is born FINISHED and won by team A
+  finalWinnings?: Record<string, number>; // teamId -> winnings when the match finished
+
+  // Tournament placement (services/tournament.ts); undefined = cycle 1 of a one-off pairing
+  cycle?: number; // Set of matches played at the same time, starting at 1
+  bracket?: BracketSide;
+  group?: number; // Group index during a group stage
+
+  events?: MatchEvent[]; // Log of every action on this match, only cut back by an admin rollback (services/matchLog.ts; missing on older matches)
+  rollbacks?: MatchRollback[]; // Audit log of admin rollbacks, with the events each one undid
+}
+
+// One entry of a match's action log
+export interface MatchEvent {
+  seq: number; // 1-based position in the log
+  at: number; // When the action was taken (ms since epoch)
+  actorId?: string; // Player id, the owner's uid or BOT_ACTOR; missing on boards filled in from the teams
+  action: GameAction;
+}
+
+// When the current phase of a match times out
+export interface PhaseDeadline {
+  phase: 'PREPARATION' | 'DECISION' | 'RESULT';
+  round: number;
+  endsAt: number; // Server time (ms since epoch)
+  remainingMs?: number; // Set while the match is paused; endsAt moves on when it resumes
+}
 
-  winnerId?: string;
+// An admin rolled the match back to the start of a round
+export interface MatchRollback {
+  at: number;
+  actorId?: string; // The owner's uid (missing in rooms without an owner)
+  toRound: number;
+  undone: MatchEvent[]; // Removed from the log, oldest first
 }
 
+export type BracketSide = 'WINNERS' | 'LOSERS' | 'GROUP' | 'LEAGUE';
+
 export interface RoundHistory {
   round: number;
   teamACard: number;
@@ -56,6 +103,7 @@ export interface RoundHistory {
 }
 
 export interface Room {
+  schemaVersion?: number; // services/schema.ts migrates older saved rooms on read (missing = version 1)
   id: string;
   name: string;
   totalTeams: number;
@@ -64,18 +112,134 @@ export interface Room {
   teams: Team[];
   matches: Match[];
   feedback?: string; // Gemini Feedback
-  winnerPhotoUrls?: string[]; // Uploaded by Admin (Changed to array)
-  winnerPosterUrl?: string; // Generated by Gemini
+  winnerPhotos?: ImageAsset[]; // Uploaded by Admin
+  winnerPoster?: ImageAsset; // Generated by Gemini
+  rules?: RuleSet; // Missing on rooms created before rule sets existed (= DEFAULT_RULE_SET)
+  cycle?: number; // Cycle currently being played (undefined = 1)
+  tournament?: Tournament;
+  showOdds?: boolean; // Players see a win-probability panel while deciding
+  ownerId?: string; // AdminUser.uid of the facilitator who created the room (missing on older rooms)
+  pin?: string; // Players find the room by this PIN (missing on older rooms, which are listed openly)
+}
+
+// An image kept in object storage (services/imageStorage.ts); rooms only hold its URLs
+export interface ImageAsset {
+  url: string;
+  thumbnailUrl?: string; // Small JPEG for lists and previews
+  path?: string; // Storage path, needed to delete it (missing = inline data URL)
+  thumbnailPath?: string;
+  contentType?: string;
+  width?: number;
+  height?: number;
+  size?: number; // Bytes
+}
+
+// Public listing of a room (rooms index): enough for the landing page and
+// room pickers, without strategies, matches, join codes or posters
+export interface RoomSummary {
+  id: string;
+  name: string;
+  status: Room['status'];
+  hasPin: boolean; // The PIN itself is not listed: players look it up (RoomStore.findRoomIdByPin)
+  ownerId?: string;
+  teams: TeamSummary[];
+  posterThumbnailUrl?: string; // Thumbnail of the winner poster, for the facilitator's room list
+}
+
+export interface TeamSummary {
+  id: string;
+  name: string;
+  isReady: boolean;
+  bot?: BotLevel;
+}
+
+export type TournamentFormat = 'SINGLE_ELIMINATION' | 'DOUBLE_ELIMINATION' | 'GROUP_KNOCKOUT' | 'ROUND_ROBIN' | 'SWISS';
+
+// Multi-stage bracket state; matches of every cycle stay in Room.matches
+export interface Tournament {
+  format: TournamentFormat;
+  stage: 'GROUP' | 'KNOCKOUT' | 'LEAGUE'; // LEAGUE: round robin / Swiss, ranked by services/standings.ts
+  losses: Record<string, number>; // teamId -> knockout losses (out at 1, or 2 in double elimination)
+  seeds: string[]; // Bracket order of the teams still waiting for their next match
+  groups?: string[][]; // GROUP_KNOCKOUT: team ids per group
+  advancePerGroup?: number; // GROUP_KNOCKOUT: teams per group that reach the knockout stage
+  totalCycles?: number; // LEAGUE: cycles to play before the table leader is champion
+  championId?: string;
+}
+
+// Game rules chosen when the room is created
+export interface RuleSet {
+  rounds: number; // Rounds per match (one card per round)
+  chips: number; // Chip budget each team spreads over all rounds
+  deck: number[]; // Cards each team may place; at least `rounds` distinct cards
+  minChipsPerRound: number; // Minimum bet per round (also the floor when stealing chips)
+  byeChips?: number; // Winnings credited for a bye (undefined = chips, what an even match returns)
+  timers?: PhaseTimers; // Missing = no clock
+}
+
+// Seconds per phase; missing or 0 = that phase has no clock
+export interface PhaseTimers {
+  preparation?: number; // Submitting the strategy (then a board is filled in)
+  decision?: number; // Fold or call (then the team folds)
+  result?: number; // Confirming a round result (then it is confirmed)
 }
 
-export interface AdminState {
-  isAuthenticated: boolean;
+// Player/system actions consumed by the game engine (services/gameEngine.ts)
+export type GameAction =
+  | { type: 'SUBMIT_STRATEGY'; teamId: string; strategy: RoundStrategy[]; force?: boolean } // force: admin bypass of validation
+  | { type: 'OPEN_ROUND'; matchId: string } // READY -> DECISION / SHOWDOWN
+  | { type: 'FOLD'; teamId: string }
+  | { type: 'CALL'; teamId: string; steal?: Record<number, number> } // steal: round number -> chips taken from that future round
+  | { type: 'SHOWDOWN'; matchId: string }
+  | { type: 'CONFIRM_RESULT'; teamId: string }
+  | { type: 'PAUSE_MATCH'; matchId: string; paused: boolean }; // Admin only (services/membership.ts)
+
+// Where the acting team's match stood when the action was taken
+// (services/gameFlow.ts); a late delivery only applies if nothing moved since
+export interface ActionContext {
+  matchId?: string;
+  round?: number;
+  roundStatus?: Match['roundStatus'];
+  cycle: number;
+}
+
+// A player's action as posted to the referee (server/referee.ts)
+export interface ActionRequest {
+  action: GameAction;
+  actorId: string;
+  context?: ActionContext;
+}
+
+// A player's action waiting in a store's inbox for the room's owner to apply (services/roomStore.ts)
+export interface InboxAction {
+  id: string;
+  actorId: string;
+  action: GameAction;
+  context: ActionContext;
+  at: number; // When the player acted
+}
+
+// Link to the shared room state: CONNECTED/OFFLINE from Firebase or the referee,
+// LOCAL when rooms only live in this browser (localStorage mode)
+export type ConnectionStatus = 'CONNECTING' | 'CONNECTED' | 'OFFLINE' | 'LOCAL';
+
+// Signed-in facilitator (services/auth.ts)
+export interface AdminUser {
+  uid: string;
+  email: string;
 }
 
-export const ADMIN_PW = "6749467";
 export const TOTAL_ROUNDS = 10;
 export const TOTAL_CHIPS = 30;
 export const CARDS = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9];
+export const HIDDEN_CARD = -2;
+
+export const DEFAULT_RULE_SET: RuleSet = {
+  rounds: TOTAL_ROUNDS,
+  chips: TOTAL_CHIPS,
+  deck: CARDS,
+  minChipsPerRound: 1
+};
 
 // --- Landing Page Builder Types ---
 
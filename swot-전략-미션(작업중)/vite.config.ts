@@ -20,7 +20,15 @@ export default defineConfig(({ mode }) => {
         'process.env.FIREBASE_PROJECT_ID': JSON.stringify(env.FIREBASE_PROJECT_ID),
         'process.env.FIREBASE_STORAGE_BUCKET': JSON.stringify(env.FIREBASE_STORAGE_BUCKET),
         'process.env.FIREBASE_MESSAGING_SENDER_ID': JSON.stringify(env.FIREBASE_MESSAGING_SENDER_ID),
-        'process.env.FIREBASE_APP_ID': JSON.stringify(env.FIREBASE_APP_ID)
+        'process.env.FIREBASE_APP_ID': JSON.stringify(env.FIREBASE_APP_ID),
+        // Room storage backend (services/storage.ts)
+        'process.env.ROOM_STORE': JSON.stringify(env.ROOM_STORE),
+        'process.env.ROOM_SERVER_URL': JSON.stringify(env.ROOM_SERVER_URL),
+        // Poster and photo storage (services/imageStorage.ts)
+        'process.env.IMAGE_STORE': JSON.stringify(env.IMAGE_STORE),
+        'process.env.IMAGE_SERVER_URL': JSON.stringify(env.IMAGE_SERVER_URL),
+        // Local referee server (hidden-information mode)
+        'process.env.REFEREE_URL': JSON.stringify(env.REFEREE_URL)
       },
       resolve: {
         alias: {